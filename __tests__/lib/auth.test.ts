@@ -0,0 +1,286 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Access Token Validation
+ */
+
+import {
+  AuthService,
+  Permission,
+  UserRole,
+  getPasswordChecks,
+  mapClaimsToUser,
+  parseUserRole,
+  validateToken,
+  validatePassword,
+  withAuth,
+  withPermission,
+} from '../../lib/auth';
+import {
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  SignJWT,
+  type JWTPayload,
+  type KeyLike,
+} from 'jose';
+import { NextRequest, NextResponse } from 'next/server';
+
+jest.mock('../../lib/config', () => ({
+  config: {
+    auth: {
+      jwt: {
+        secret: 'test-secret-that-is-at-least-32-characters',
+        issuer: 'https://api.jobpay.test',
+        audience: 'jobpay-frontend',
+        clockTolerance: 0,
+      },
+    },
+  },
+}));
+
+const SECRET = 'test-secret-that-is-at-least-32-characters';
+const ISSUER = 'https://api.jobpay.test';
+const AUDIENCE = 'jobpay-frontend';
+
+const defaultClaims: JWTPayload = {
+  email: 'jane@example.com',
+  given_name: 'Jane',
+  family_name: 'Doe',
+  role: 'admin',
+};
+
+// Fixture token builder
+async function signToken(
+  claims: JWTPayload = defaultClaims,
+  {
+    key = new TextEncoder().encode(SECRET),
+    alg = 'HS256',
+    kid,
+    subject = 'user-42',
+    issuer = ISSUER,
+    audience = AUDIENCE,
+    expiresIn = '15m',
+    notBefore,
+  }: {
+    key?: KeyLike | Uint8Array;
+    alg?: string;
+    kid?: string;
+    subject?: string;
+    issuer?: string;
+    audience?: string;
+    expiresIn?: string | number;
+    notBefore?: string | number;
+  } = {}
+) {
+  const jwt = new SignJWT(claims)
+    .setProtectedHeader({ alg, kid })
+    .setSubject(subject)
+    .setIssuer(issuer)
+    .setAudience(audience)
+    .setIssuedAt()
+    .setExpirationTime(expiresIn);
+
+  if (notBefore !== undefined) jwt.setNotBefore(notBefore);
+
+  return jwt.sign(key);
+}
+
+function requestWithToken(token?: string) {
+  return new NextRequest('http://localhost:3000/api/protected', {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('Access token validation', () => {
+  let rsaKeys: { publicKey: KeyLike; privateKey: KeyLike };
+
+  beforeAll(async () => {
+    rsaKeys = await generateKeyPair('RS256');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validateToken with a shared secret', () => {
+    it('should map verified claims onto a User', async () => {
+      const user = await validateToken(await signToken());
+
+      expect(user).toMatchObject({
+        id: 'user-42',
+        email: 'jane@example.com',
+        name: 'Jane Doe',
+        role: UserRole.ADMIN,
+        isActive: true,
+      });
+      expect(user?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await signToken(defaultClaims, {
+        expiresIn: Math.floor(Date.now() / 1000) - 60,
+      });
+
+      expect(await validateToken(token)).toBeNull();
+    });
+
+    it('should reject tokens that are not yet valid', async () => {
+      const token = await signToken(defaultClaims, { notBefore: '10m' });
+
+      expect(await validateToken(token)).toBeNull();
+    });
+
+    it('should reject a wrong issuer or audience', async () => {
+      const wrongIssuer = await signToken(defaultClaims, {
+        issuer: 'https://evil.example.com',
+      });
+      const wrongAudience = await signToken(defaultClaims, {
+        audience: 'another-app',
+      });
+
+      expect(await validateToken(wrongIssuer)).toBeNull();
+      expect(await validateToken(wrongAudience)).toBeNull();
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const token = await signToken(defaultClaims, {
+        key: new TextEncoder().encode('some-other-secret-of-at-least-32-chars'),
+      });
+
+      expect(await validateToken(token)).toBeNull();
+    });
+
+    it('should reject malformed tokens', async () => {
+      expect(await validateToken('not-a-jwt')).toBeNull();
+    });
+  });
+
+  describe('validateToken with a key pair', () => {
+    it('should verify tokens signed with the private key', async () => {
+      const token = await signToken(defaultClaims, {
+        key: rsaKeys.privateKey,
+        alg: 'RS256',
+      });
+
+      const user = await validateToken(token, {
+        key: rsaKeys.publicKey,
+        issuer: ISSUER,
+        audience: AUDIENCE,
+      });
+
+      expect(user?.id).toBe('user-42');
+    });
+
+    it('should resolve the signing key from a JWKS by kid', async () => {
+      const jwk = await exportJWK(rsaKeys.publicKey);
+      const jwks = createLocalJWKSet({
+        keys: [{ ...jwk, kid: 'key-1', alg: 'RS256' }],
+      });
+      const token = await signToken(defaultClaims, {
+        key: rsaKeys.privateKey,
+        alg: 'RS256',
+        kid: 'key-1',
+      });
+
+      const user = await validateToken(token, { key: jwks, issuer: ISSUER });
+
+      expect(user?.email).toBe('jane@example.com');
+    });
+
+    it('should not accept HMAC tokens when a public key is configured', async () => {
+      const token = await signToken();
+
+      expect(await validateToken(token, { key: rsaKeys.publicKey })).toBeNull();
+    });
+  });
+
+  describe('claim mapping', () => {
+    it('should pick the most privileged known role', () => {
+      expect(parseUserRole(['user', 'super-admin'])).toBe(UserRole.SUPER_ADMIN);
+      expect(parseUserRole('EMPLOYER')).toBe(UserRole.USER);
+      expect(parseUserRole('unknown')).toBe(UserRole.GUEST);
+      expect(parseUserRole(undefined)).toBe(UserRole.GUEST);
+    });
+
+    it('should fall back to email for the display name', () => {
+      const user = mapClaimsToUser({
+        sub: '7',
+        email: 'sam@example.com',
+        active: false,
+        iat: 1700000000,
+      });
+
+      expect(user.name).toBe('sam@example.com');
+      expect(user.isActive).toBe(false);
+      expect(user.createdAt.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+    });
+  });
+
+  describe('withAuth', () => {
+    const handler = jest.fn(async () =>
+      NextResponse.json({ ok: true }, { status: 200 })
+    );
+
+    it('should pass the verified user to the handler', async () => {
+      const response = await withAuth(handler)(
+        requestWithToken(await signToken())
+      );
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ id: 'user-42', role: UserRole.ADMIN })
+      );
+    });
+
+    it('should answer 401 for an invalid token', async () => {
+      const response = await withAuth(handler)(requestWithToken('bad.token'));
+
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should answer 403 for deactivated accounts', async () => {
+      const token = await signToken({ ...defaultClaims, active: false });
+      const response = await withAuth(handler)(requestWithToken(token));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should enforce permissions from the mapped role', async () => {
+      const token = await signToken({ ...defaultClaims, role: 'user' });
+      const guarded = withPermission([Permission.DELETE_JOBS], handler);
+      const response = await guarded(requestWithToken(token));
+
+      expect(response.status).toBe(403);
+      expect(
+        AuthService.canAccess(mapClaimsToUser({ sub: '1', role: 'admin' }), [
+          Permission.DELETE_JOBS,
+        ])
+      ).toBe(true);
+    });
+  });
+
+  describe('password rules', () => {
+    it('should report each unmet rule', () => {
+      const failed = getPasswordChecks('abc')
+        .filter((check) => !check.passed)
+        .map((check) => check.label);
+
+      expect(failed).toEqual([
+        'At least 8 characters',
+        'An uppercase letter',
+        'A number',
+        'A special character',
+      ]);
+    });
+
+    it('should accept passwords that meet every rule', () => {
+      expect(validatePassword('Str0ng!Pass')).toBe(true);
+      expect(validatePassword('weakpass')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for OAuth Sign-In
+ * Runs the authorization code + PKCE flow against a local mock provider
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { exportJWK, generateKeyPair, KeyLike, SignJWT } from 'jose';
+import {
+  OAuthProvider,
+  OAuthTransaction,
+  completeOAuthSignIn,
+  createAuthorizationRequest,
+  getOAuthProvider,
+  getOAuthRedirectUri,
+} from '../../lib/oauth';
+
+jest.mock('../../lib/config', () => ({
+  isProduction: false,
+  config: {
+    app: { url: 'http://localhost:3000' },
+    auth: {
+      jwt: { clockTolerance: 5 },
+      providers: {
+        google: { clientId: 'google-client', clientSecret: 'google-secret' },
+        linkedin: {},
+      },
+    },
+  },
+}));
+
+interface MockUser {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface PendingCode {
+  codeChallenge: string;
+  nonce: string;
+  clientId: string;
+  redirectUri: string;
+}
+
+// Minimal OpenID Connect provider: /authorize, /token and /jwks
+async function startMockOAuthServer() {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = {
+    ...(await exportJWK(publicKey)),
+    kid: 'mock-key',
+    alg: 'RS256',
+  };
+  const codes = new Map<string, PendingCode>();
+  const state = {
+    user: {
+      sub: 'google-user-1',
+      email: 'Jane@Example.com',
+      email_verified: true,
+      given_name: 'Jane',
+      family_name: 'Doe',
+    } as MockUser,
+    nonceOverride: null as string | null,
+  };
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<URLSearchParams>((resolve) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => resolve(new URLSearchParams(body)));
+    });
+
+  const signIdToken = (key: KeyLike, pending: PendingCode, issuer: string) =>
+    new SignJWT({ ...state.user, nonce: state.nonceOverride ?? pending.nonce })
+      .setProtectedHeader({ alg: 'RS256', kid: 'mock-key' })
+      .setIssuer(issuer)
+      .setAudience(pending.clientId)
+      .setSubject(state.user.sub)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(key);
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', baseUrl);
+
+    if (url.pathname === '/authorize') {
+      const code = randomUUID();
+      codes.set(code, {
+        codeChallenge: url.searchParams.get('code_challenge') ?? '',
+        nonce: url.searchParams.get('nonce') ?? '',
+        clientId: url.searchParams.get('client_id') ?? '',
+        redirectUri: url.searchParams.get('redirect_uri') ?? '',
+      });
+      const redirect = new URL(url.searchParams.get('redirect_uri') ?? '');
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', url.searchParams.get('state') ?? '');
+      res.writeHead(302, { Location: redirect.toString() }).end();
+      return;
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const body = await readBody(req);
+      const pending = codes.get(body.get('code') ?? '');
+      const verifier = body.get('code_verifier') ?? '';
+      const challenge = createHash('sha256')
+        .update(verifier)
+        .digest('base64url');
+
+      res.setHeader('Content-Type', 'application/json');
+      if (
+        !pending ||
+        pending.codeChallenge !== challenge ||
+        pending.redirectUri !== body.get('redirect_uri') ||
+        body.get('client_secret') !== 'google-secret'
+      ) {
+        res.writeHead(400).end(JSON.stringify({ error: 'invalid_grant' }));
+        return;
+      }
+
+      codes.delete(body.get('code') ?? '');
+      res.end(
+        JSON.stringify({
+          access_token: 'provider-access-token',
+          id_token: await signIdToken(privateKey, pending, baseUrl),
+        })
+      );
+      return;
+    }
+
+    if (url.pathname === '/jwks') {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ keys: [jwk] }));
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    state,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('OAuth sign-in', () => {
+  let mockServer: Awaited<ReturnType<typeof startMockOAuthServer>>;
+  let provider: OAuthProvider;
+  const redirectUri = getOAuthRedirectUri('google');
+
+  // Start a sign-in and follow the provider's redirect back to the callback
+  async function authorize() {
+    const { url, transaction } = await createAuthorizationRequest(provider, {
+      redirectUri,
+      returnTo: '/app/applications',
+    });
+    const response = await fetch(url, { redirect: 'manual' });
+    const callback = new URL(response.headers.get('location') ?? '');
+
+    return { params: callback.searchParams, transaction };
+  }
+
+  beforeAll(async () => {
+    mockServer = await startMockOAuthServer();
+    provider = {
+      ...getOAuthProvider('google')!,
+      authorizationUrl: `${mockServer.baseUrl}/authorize`,
+      tokenUrl: `${mockServer.baseUrl}/token`,
+      jwksUrl: `${mockServer.baseUrl}/jwks`,
+      issuer: mockServer.baseUrl,
+    };
+  });
+
+  afterAll(() => mockServer.close());
+
+  beforeEach(() => {
+    mockServer.state.user.email_verified = true;
+    mockServer.state.nonceOverride = null;
+  });
+
+  it('should only return configured providers', () => {
+    expect(getOAuthProvider('google')).toMatchObject({
+      id: 'google',
+      clientId: 'google-client',
+      flag: 'ENABLE_GOOGLE_AUTH',
+    });
+    expect(getOAuthProvider('linkedin')).toBeNull();
+    expect(getOAuthProvider('github')).toBeNull();
+  });
+
+  it('should send state, nonce and an S256 code challenge', async () => {
+    const { url, transaction } = await createAuthorizationRequest(provider, {
+      redirectUri,
+      returnTo: '/app',
+    });
+    const params = new URL(url).searchParams;
+
+    expect(params.get('response_type')).toBe('code');
+    expect(params.get('redirect_uri')).toBe(
+      'http://localhost:3000/api/auth/oauth/google/callback'
+    );
+    expect(params.get('state')).toBe(transaction.state);
+    expect(params.get('nonce')).toBe(transaction.nonce);
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBe(
+      createHash('sha256').update(transaction.codeVerifier).digest('base64url')
+    );
+  });
+
+  it('should return the verified profile after exchanging the code', async () => {
+    const { params, transaction } = await authorize();
+
+    const profile = await completeOAuthSignIn(provider, {
+      params,
+      transaction,
+      redirectUri,
+    });
+
+    expect(profile).toMatchObject({
+      provider: 'google',
+      subject: 'google-user-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      firstName: 'Jane',
+      lastName: 'Doe',
+    });
+    expect(profile.idToken).toEqual(expect.any(String));
+  });
+
+  it('should reject a callback whose state does not match', async () => {
+    const { params, transaction } = await authorize();
+    params.set('state', 'forged-state');
+
+    await expect(
+      completeOAuthSignIn(provider, { params, transaction, redirectUri })
+    ).rejects.toMatchObject({ code: 'invalid_state' });
+  });
+
+  it('should reject a callback without a stored transaction', async () => {
+    const { params } = await authorize();
+
+    await expect(
+      completeOAuthSignIn(provider, { params, transaction: null, redirectUri })
+    ).rejects.toMatchObject({ code: 'invalid_state' });
+  });
+
+  it('should report a cancelled consent screen', async () => {
+    const { transaction } = await authorize();
+    const params = new URLSearchParams({
+      error: 'access_denied',
+      state: transaction.state,
+    });
+
+    await expect(
+      completeOAuthSignIn(provider, { params, transaction, redirectUri })
+    ).rejects.toMatchObject({ code: 'access_denied' });
+  });
+
+  it('should fail the exchange when the code verifier is wrong', async () => {
+    const { params, transaction } = await authorize();
+    const tampered: OAuthTransaction = {
+      ...transaction,
+      codeVerifier: 'not-the-original-verifier',
+    };
+
+    await expect(
+      completeOAuthSignIn(provider, {
+        params,
+        transaction: tampered,
+        redirectUri,
+      })
+    ).rejects.toMatchObject({ code: 'token_exchange_failed' });
+  });
+
+  it('should reject an ID token issued for another nonce', async () => {
+    mockServer.state.nonceOverride = 'replayed-nonce';
+    const { params, transaction } = await authorize();
+
+    await expect(
+      completeOAuthSignIn(provider, { params, transaction, redirectUri })
+    ).rejects.toMatchObject({ code: 'invalid_id_token' });
+  });
+
+  it('should refuse to link accounts with an unverified email', async () => {
+    mockServer.state.user.email_verified = false;
+    const { params, transaction } = await authorize();
+
+    await expect(
+      completeOAuthSignIn(provider, { params, transaction, redirectUri })
+    ).rejects.toMatchObject({ code: 'email_not_verified' });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for the Redis Rate Limit Store
+ */
+
+import { RedisRateLimitStore } from '../../lib/rate-limit-redis';
+
+const connect = jest.fn();
+const evalScript = jest.fn();
+
+// Behaves like a lazyConnect client without an offline queue: a second
+// connect() while the first is in flight is rejected, and so are commands
+// sent before it's ready
+jest.mock('ioredis', () =>
+  jest.fn().mockImplementation(() => {
+    const client = {
+      status: 'wait',
+      on: jest.fn(),
+      eval: (...args: unknown[]) =>
+        client.status === 'ready'
+          ? evalScript(...args)
+          : Promise.reject(new Error("Stream isn't writeable")),
+      connect: () => {
+        connect();
+        if (client.status !== 'wait') {
+          return Promise.reject(new Error('Redis is already connecting'));
+        }
+        client.status = 'connecting';
+        return new Promise<void>((resolve) =>
+          setTimeout(() => {
+            client.status = 'ready';
+            resolve();
+          })
+        );
+      },
+    };
+    return client;
+  })
+);
+
+describe('RedisRateLimitStore', () => {
+  it('should connect once for concurrent first hits', async () => {
+    evalScript.mockResolvedValue([1, 1, 0]);
+    const store = new RedisRateLimitStore('redis://localhost:6379');
+    const policy = { max: 3, windowMs: 60 * 1000 };
+
+    const results = await Promise.all([
+      store.hit('a', policy, 0),
+      store.hit('b', policy, 0),
+      store.hit('c', policy, 0),
+    ]);
+
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(evalScript).toHaveBeenCalledTimes(3);
+    expect(results.every(({ allowed }) => allowed)).toBe(true);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Rate Limiting
+ */
+
+import { rateLimits } from '../../lib/auth';
+import {
+  MemoryRateLimitStore,
+  checkRateLimit,
+  getClientIp,
+  rateLimitHeaders,
+  setRateLimitStore,
+  withRateLimit,
+} from '../../lib/rate-limit';
+import { NextRequest, NextResponse } from 'next/server';
+
+jest.mock('../../lib/config', () => ({
+  isProduction: false,
+  config: { auth: { jwt: {} } },
+}));
+
+const policy = { max: 3, windowMs: 60 * 1000 };
+
+// The proxy appends the address it saw; anything before it is client-sent
+function createRequest(ip = '203.0.113.7', spoofed = '10.0.0.1') {
+  return new NextRequest('http://localhost:3000/api/auth/login', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': `${spoofed}, ${ip}` },
+  });
+}
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  describe('checkRateLimit', () => {
+    it('should allow hits up to the limit and reject the next one', async () => {
+      const now = 1_000_000;
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await checkRateLimit('key', policy, now + i * 1000));
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3].resetAt).toBe(now + policy.windowMs);
+    });
+
+    it('should slide the window as old hits expire', async () => {
+      const now = 1_000_000;
+      await checkRateLimit('key', policy, now);
+      await checkRateLimit('key', policy, now + 20_000);
+      await checkRateLimit('key', policy, now + 40_000);
+
+      expect((await checkRateLimit('key', policy, now + 59_000)).allowed).toBe(
+        false
+      );
+      // The first hit has left the window, the other two have not
+      const result = await checkRateLimit('key', policy, now + 61_000);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(0);
+      expect(result.resetAt).toBe(now + 20_000 + policy.windowMs);
+    });
+
+    it('should track keys independently', async () => {
+      for (let i = 0; i < 3; i++) await checkRateLimit('a', policy);
+
+      expect((await checkRateLimit('a', policy)).allowed).toBe(false);
+      expect((await checkRateLimit('b', policy)).allowed).toBe(true);
+    });
+
+    it("should keep each key's history for its own policy window", async () => {
+      const now = 1_000_000;
+      for (let i = 0; i < rateLimits.login.max; i++) {
+        await checkRateLimit('login:ip', rateLimits.login, now + i);
+      }
+
+      // An api hit well past the api window, but inside the login window,
+      // must not sweep away the login history
+      await checkRateLimit(
+        'api:ip',
+        rateLimits.api,
+        now + rateLimits.api.windowMs * 2
+      );
+
+      const result = await checkRateLimit(
+        'login:ip',
+        rateLimits.login,
+        now + rateLimits.api.windowMs * 3
+      );
+      expect(result.allowed).toBe(false);
+      expect(
+        (
+          await checkRateLimit(
+            'login:ip',
+            rateLimits.login,
+            now + rateLimits.login.windowMs + rateLimits.login.max
+          )
+        ).allowed
+      ).toBe(true);
+    });
+
+    it('should fail open when the store is unavailable', async () => {
+      setRateLimitStore({
+        hit: jest.fn().mockRejectedValue(new Error('connection refused')),
+        reset: jest.fn(),
+      });
+
+      const result = await checkRateLimit('key', policy);
+
+      expect(result.allowed).toBe(true);
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('rateLimitHeaders', () => {
+    it('should include Retry-After only when limited', () => {
+      const now = 1_000_000;
+      const base = { limit: 5, remaining: 0, resetAt: now + 90_500 };
+
+      expect(rateLimitHeaders({ ...base, allowed: true }, now)).toEqual({
+        'X-RateLimit-Limit': '5',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(Math.ceil((now + 90_500) / 1000)),
+      });
+      expect(
+        rateLimitHeaders({ ...base, allowed: false }, now)['Retry-After']
+      ).toBe('91');
+    });
+  });
+
+  describe('withRateLimit', () => {
+    const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+
+    beforeEach(() => handler.mockClear());
+
+    it('should answer 429 once the login budget is used up', async () => {
+      const limited = withRateLimit('login', handler);
+
+      for (let i = 0; i < rateLimits.login.max; i++) {
+        const response = await limited(createRequest());
+        expect(response.status).toBe(200);
+        expect(response.headers.get('X-RateLimit-Remaining')).toBe(
+          String(rateLimits.login.max - i - 1)
+        );
+      }
+
+      const response = await limited(createRequest());
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+      expect(response.headers.get('X-RateLimit-Limit')).toBe(
+        String(rateLimits.login.max)
+      );
+      expect(handler).toHaveBeenCalledTimes(rateLimits.login.max);
+    });
+
+    it('should key limits by client IP', async () => {
+      const limited = withRateLimit('login', handler);
+      for (let i = 0; i < rateLimits.login.max; i++) {
+        await limited(createRequest('198.51.100.1'));
+      }
+
+      const response = await limited(createRequest('198.51.100.2'));
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should not reset the budget when the client rotates forwarded addresses', async () => {
+      const limited = withRateLimit('login', handler);
+      for (let i = 0; i < rateLimits.login.max; i++) {
+        await limited(createRequest('198.51.100.1', `192.0.2.${i}`));
+      }
+
+      const response = await limited(
+        createRequest('198.51.100.1', '192.0.2.200')
+      );
+
+      expect(response.status).toBe(429);
+    });
+  });
+
+  it('should use the address our proxy appended as the client IP', () => {
+    expect(getClientIp(createRequest('192.0.2.10'))).toBe('192.0.2.10');
+    expect(
+      getClientIp(
+        new NextRequest('http://localhost:3000/', {
+          headers: { 'x-real-ip': '192.0.2.20' },
+        })
+      )
+    ).toBe('192.0.2.20');
+  });
+});
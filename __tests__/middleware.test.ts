@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Route Protection Middleware
+ */
+
+import { middleware } from '../middleware';
+import { AuthService, getRoutePermissions, Permission } from '../lib/auth';
+import { MemoryRateLimitStore, setRateLimitStore } from '../lib/rate-limit';
+import { SESSION_COOKIE } from '../lib/session';
+import { SignJWT } from 'jose';
+import { NextRequest } from 'next/server';
+
+jest.mock('@sentry/nextjs', () => ({
+  setTag: jest.fn(),
+  setContext: jest.fn(),
+  addBreadcrumb: jest.fn(),
+  captureException: jest.fn(),
+}));
+
+jest.mock('../lib/config', () => ({
+  isProduction: false,
+  config: {
+    auth: {
+      jwt: { secret: 'test-secret-that-is-at-least-32-characters' },
+    },
+  },
+}));
+
+async function sessionToken(role: string, active = true) {
+  return new SignJWT({ email: 'jane@example.com', role, active })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject('user-42')
+    .setIssuedAt()
+    .setExpirationTime('15m')
+    .sign(
+      new TextEncoder().encode('test-secret-that-is-at-least-32-characters')
+    );
+}
+
+function createRequest(url: string, token?: string) {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    headers: token ? { cookie: `${SESSION_COOKIE}=${token}` } : {},
+  });
+}
+
+describe('middleware route protection', () => {
+  it('should let guests through to public pages', async () => {
+    const response = await middleware(createRequest('/jobs'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Location')).toBeNull();
+  });
+
+  it.each(['/app', '/applications', '/bookmarks'])(
+    'should redirect guests from %s to login with a return URL',
+    async (path) => {
+      const response = await middleware(createRequest(`${path}?tab=open`));
+      const location = new URL(response.headers.get('Location')!);
+
+      expect(response.status).toBe(307);
+      expect(location.pathname).toBe('/login');
+      expect(location.searchParams.get('returnTo')).toBe(`${path}?tab=open`);
+    }
+  );
+
+  it('should try a token refresh when the session has expired', async () => {
+    const response = await middleware(createRequest('/app', 'expired.token'));
+    const location = new URL(response.headers.get('Location')!);
+
+    expect(response.status).toBe(307);
+    expect(location.pathname).toBe('/api/auth/refresh');
+    expect(location.searchParams.get('returnTo')).toBe('/app');
+  });
+
+  it('should redirect deactivated accounts to login', async () => {
+    const token = await sessionToken('user', false);
+    const response = await middleware(createRequest('/app', token));
+
+    expect(response.status).toBe(307);
+    expect(new URL(response.headers.get('Location')!).pathname).toBe('/login');
+  });
+
+  it('should allow signed-in users with the required permissions', async () => {
+    const token = await sessionToken('user');
+    const response = await middleware(createRequest('/app/settings', token));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-middleware-rewrite')).toBeNull();
+  });
+
+  it('should answer 403 when the role lacks a route permission', async () => {
+    const canAccess = jest
+      .spyOn(AuthService, 'canAccess')
+      .mockReturnValueOnce(false);
+    const token = await sessionToken('guest');
+    const response = await middleware(createRequest('/bookmarks', token));
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('x-middleware-rewrite')).toBe(
+      'http://localhost:3000/forbidden'
+    );
+    expect(canAccess).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'guest' }),
+      [Permission.READ_JOBS]
+    );
+  });
+
+  it('should send signed-in users away from the login page', async () => {
+    const token = await sessionToken('user');
+    const response = await middleware(
+      createRequest('/login?returnTo=%2Fbookmarks', token)
+    );
+
+    expect(response.headers.get('Location')).toBe(
+      'http://localhost:3000/bookmarks'
+    );
+  });
+
+  it('should ignore external return URLs', async () => {
+    const token = await sessionToken('user');
+    const response = await middleware(
+      createRequest('/login?returnTo=%2F%2Fevil.example.com', token)
+    );
+
+    expect(response.headers.get('Location')).toBe('http://localhost:3000/app');
+  });
+});
+
+describe('middleware rate limiting', () => {
+  afterEach(() => setRateLimitStore(new MemoryRateLimitStore()));
+
+  it('should add rate limit headers to auth API requests', async () => {
+    const response = await middleware(createRequest('/api/auth/session'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('100');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('99');
+  });
+
+  it('should answer 429 when the API budget is exhausted', async () => {
+    setRateLimitStore({
+      hit: jest.fn().mockResolvedValue({
+        allowed: false,
+        count: 100,
+        oldest: Date.now() - 30 * 1000,
+      }),
+      reset: jest.fn(),
+    });
+
+    const response = await middleware(createRequest('/api/auth/refresh'));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('30');
+  });
+});
+
+describe('getRoutePermissions', () => {
+  it('should match whole path segments only', () => {
+    expect(getRoutePermissions('/app')).toEqual([Permission.READ_JOBS]);
+    expect(getRoutePermissions('/app/settings')).toEqual([
+      Permission.READ_JOBS,
+    ]);
+    expect(getRoutePermissions('/application-tips')).toBeNull();
+    expect(getRoutePermissions('/jobs')).toBeNull();
+  });
+
+  it('should prefer the most specific prefix', () => {
+    expect(getRoutePermissions('/app/jobs/new')).toEqual([
+      Permission.READ_JOBS,
+      Permission.CREATE_JOBS,
+    ]);
+    expect(getRoutePermissions('/app/jobs')).toEqual([
+      Permission.READ_JOBS,
+      Permission.UPDATE_JOBS,
+    ]);
+  });
+});
@@ -1,6 +1,18 @@
 export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     await import('./sentry.server.config');
+
+    // Share rate limit windows across instances when Redis is configured.
+    // The edge runtime (middleware) keeps the in-memory store.
+    const { config } = await import('./lib/config');
+    if (config.database.redis) {
+      const [{ setRateLimitStore }, { RedisRateLimitStore }] =
+        await Promise.all([
+          import('./lib/rate-limit'),
+          import('./lib/rate-limit-redis'),
+        ]);
+      setRateLimitStore(new RedisRateLimitStore(config.database.redis));
+    }
   }
 
   if (process.env.NEXT_RUNTIME === 'edge') {
@@ -28,20 +28,22 @@ jest.mock('next/navigation', () => ({
   },
 }));
 
-// Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation((query) => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-});
+// Mock window.matchMedia (skipped for server tests using the node environment)
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation((query) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  });
+}
 
 // Mock IntersectionObserver
 global.IntersectionObserver = class IntersectionObserver {
@@ -177,15 +179,51 @@ if (typeof global.Response === 'undefined') {
 }
 
 // Mock Next.js NextResponse
-jest.mock('next/server', () => ({
-  NextRequest: class NextRequest extends global.Request {
+jest.mock('next/server', () => {
+  // Minimal stand-ins for RequestCookies / ResponseCookies
+  class MockCookies {
+    constructor(cookieHeader) {
+      this._cookies = new Map();
+      (cookieHeader || '').split(';').forEach((pair) => {
+        const [name, ...rest] = pair.trim().split('=');
+        if (name) this._cookies.set(name, { name, value: rest.join('=') });
+      });
+    }
+
+    get(name) {
+      return this._cookies.get(name);
+    }
+
+    getAll() {
+      return Array.from(this._cookies.values());
+    }
+
+    has(name) {
+      return this._cookies.has(name);
+    }
+
+    set(name, value, options = {}) {
+      this._cookies.set(name, { name, value, ...options });
+      return this;
+    }
+
+    delete(name) {
+      return this.set(name, '', { maxAge: 0 });
+    }
+  }
+
+  class NextRequest extends global.Request {
     constructor(input, init) {
       super(input, init);
+      this.nextUrl = new URL(typeof input === 'string' ? input : input.url);
+      this.cookies = new MockCookies(this.headers.get('cookie'));
     }
-  },
-  NextResponse: class NextResponse extends global.Response {
+  }
+
+  class NextResponse extends global.Response {
     constructor(body, init) {
       super(body, init);
+      this.cookies = new MockCookies();
     }
 
     static json(data, init) {
@@ -198,11 +236,31 @@ jest.mock('next/server', () => ({
       });
     }
 
-    static next() {
-      return new NextResponse(null, { status: 200 });
+    static next(init) {
+      return new NextResponse(null, { status: 200, ...init });
+    }
+
+    static redirect(url, status = 307) {
+      return new NextResponse(null, {
+        status,
+        headers: { Location: url.toString() },
+      });
     }
-  },
-}));
+
+    static rewrite(url, init) {
+      return new NextResponse(null, {
+        status: 200,
+        ...init,
+        headers: {
+          'x-middleware-rewrite': url.toString(),
+          ...(init?.headers || {}),
+        },
+      });
+    }
+  }
+
+  return { NextRequest, NextResponse };
+});
 
 // Mock console methods to reduce noise in tests
 global.console = {
@@ -227,38 +285,40 @@ process.env.NEXT_PUBLIC_API_URL = 'http://localhost:4000/api';
 process.env.NODE_ENV = 'test';
 
 // Handle expected errors from error boundary tests
-const originalWindowError = window.onerror;
-const originalUnhandledRejection = window.onunhandledrejection;
+if (typeof window !== 'undefined') {
+  const originalWindowError = window.onerror;
+  const originalUnhandledRejection = window.onunhandledrejection;
 
-window.onerror = function (message, source, lineno, colno, error) {
-  // If this looks like a test error from error boundary tests, ignore it
-  if (error && error.message === 'Test error message') {
-    return true; // Prevent the error from being logged
-  }
+  window.onerror = function (message, source, lineno, colno, error) {
+    // If this looks like a test error from error boundary tests, ignore it
+    if (error && error.message === 'Test error message') {
+      return true; // Prevent the error from being logged
+    }
 
-  // Otherwise, let the original handler deal with it
-  if (originalWindowError) {
-    return originalWindowError.call(
-      this,
-      message,
-      source,
-      lineno,
-      colno,
-      error
-    );
-  }
-  return false;
-};
+    // Otherwise, let the original handler deal with it
+    if (originalWindowError) {
+      return originalWindowError.call(
+        this,
+        message,
+        source,
+        lineno,
+        colno,
+        error
+      );
+    }
+    return false;
+  };
 
-window.onunhandledrejection = function (event) {
-  // If this looks like a test error from error boundary tests, ignore it
-  if (event.reason && event.reason.message === 'Test error message') {
-    event.preventDefault();
-    return;
-  }
+  window.onunhandledrejection = function (event) {
+    // If this looks like a test error from error boundary tests, ignore it
+    if (event.reason && event.reason.message === 'Test error message') {
+      event.preventDefault();
+      return;
+    }
 
-  // Otherwise, let the original handler deal with it
-  if (originalUnhandledRejection) {
-    return originalUnhandledRejection.call(this, event);
-  }
-};
+    // Otherwise, let the original handler deal with it
+    if (originalUnhandledRejection) {
+      return originalUnhandledRejection.call(this, event);
+    }
+  };
+}
@@ -3,7 +3,16 @@
  * Implements role-based access control and security measures
  */
 
+import {
+  createRemoteJWKSet,
+  errors as joseErrors,
+  jwtVerify,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+  type KeyLike,
+} from 'jose';
 import { NextRequest, NextResponse } from 'next/server';
+import { config } from './config';
 
 // User roles and permissions
 export enum UserRole {
@@ -41,6 +50,26 @@ export const rolePermissions: Record<UserRole, Permission[]> = {
   [UserRole.SUPER_ADMIN]: Object.values(Permission),
 };
 
+// Pages that require a signed-in user, with the permissions each one needs.
+// The most specific (longest) matching prefix wins.
+export const routePermissions: Record<string, Permission[]> = {
+  '/app': [Permission.READ_JOBS],
+  '/app/jobs': [Permission.READ_JOBS, Permission.UPDATE_JOBS],
+  '/app/jobs/new': [Permission.READ_JOBS, Permission.CREATE_JOBS],
+  '/applications': [Permission.READ_JOBS],
+  '/bookmarks': [Permission.READ_JOBS],
+};
+
+export function getRoutePermissions(pathname: string): Permission[] | null {
+  const match = Object.keys(routePermissions)
+    .filter(
+      (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+    )
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? routePermissions[match] : null;
+}
+
 // User interface
 export interface User {
   id: string;
@@ -101,7 +130,6 @@ export function withAuth(
 
       const token = authHeader.substring(7);
 
-      // Validate token (implement your token validation logic)
       const user = await validateToken(token);
       if (!user) {
         return NextResponse.json(
@@ -164,19 +192,177 @@ export const authSecurityHeaders = {
   Expires: '0',
 };
 
-// Token validation (implement based on your auth provider)
-async function validateToken(token: string): Promise<User | null> {
-  // This is a placeholder - implement your actual token validation
-  // For example, with JWT, NextAuth, or your preferred auth solution
-  try {
-    // Decode and verify token
-    // const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    // return await getUserById(decoded.sub);
+// Token verification configuration
+export interface TokenVerificationOptions {
+  // Explicit verification key (public key, secret bytes or key set)
+  key?: KeyLike | Uint8Array | JWTVerifyGetKey;
+  secret?: string;
+  jwksUrl?: string;
+  issuer?: string;
+  audience?: string;
+  clockTolerance?: number; // seconds
+}
 
-    // For now, return null (implement your logic)
-    return null;
+// Claims we understand on access tokens issued by the API
+export interface AccessTokenClaims extends JWTPayload {
+  email?: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+  roles?: string[];
+  active?: boolean;
+  auth_time?: number;
+  created_at?: number | string;
+  updated_at?: number | string;
+}
+
+const SYMMETRIC_ALGORITHMS = ['HS256', 'HS384', 'HS512'];
+const ASYMMETRIC_ALGORITHMS = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'ES256',
+  'ES384',
+  'EdDSA',
+];
+
+// Roles used by the API that don't match a UserRole value directly
+const roleAliases: Record<string, UserRole> = {
+  employer: UserRole.USER,
+  superadmin: UserRole.SUPER_ADMIN,
+};
+
+// Highest privilege first, used when a token carries several roles
+const rolePrecedence = [
+  UserRole.SUPER_ADMIN,
+  UserRole.ADMIN,
+  UserRole.USER,
+  UserRole.GUEST,
+];
+
+const remoteKeySets = new Map<string, JWTVerifyGetKey>();
+
+function resolveVerificationKey(options: TokenVerificationOptions): {
+  key: KeyLike | Uint8Array | JWTVerifyGetKey;
+  algorithms: string[];
+} {
+  if (options.key) {
+    return {
+      key: options.key,
+      algorithms:
+        options.key instanceof Uint8Array
+          ? SYMMETRIC_ALGORITHMS
+          : ASYMMETRIC_ALGORITHMS,
+    };
+  }
+
+  if (options.jwksUrl) {
+    let keySet = remoteKeySets.get(options.jwksUrl);
+    if (!keySet) {
+      keySet = createRemoteJWKSet(new URL(options.jwksUrl));
+      remoteKeySets.set(options.jwksUrl, keySet);
+    }
+    return { key: keySet, algorithms: ASYMMETRIC_ALGORITHMS };
+  }
+
+  if (options.secret) {
+    return {
+      key: new TextEncoder().encode(options.secret),
+      algorithms: SYMMETRIC_ALGORITHMS,
+    };
+  }
+
+  throw new Error('No token verification key configured');
+}
+
+export function parseUserRole(value?: string | string[]): UserRole {
+  const candidates = (Array.isArray(value) ? value : [value])
+    .filter((role): role is string => typeof role === 'string')
+    .map((role) => role.trim().toLowerCase().replace(/-/g, '_'))
+    .map(
+      (role) =>
+        roleAliases[role] ??
+        (Object.values(UserRole) as string[]).find((known) => known === role)
+    )
+    .filter((role): role is UserRole => !!role);
+
+  return (
+    rolePrecedence.find((role) => candidates.includes(role)) ?? UserRole.GUEST
+  );
+}
+
+function toDate(value?: number | string): Date | undefined {
+  if (value === undefined) return undefined;
+
+  // Numeric claims are NumericDate values (seconds since epoch)
+  const date =
+    typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Map verified token claims onto our User model
+export function mapClaimsToUser(claims: AccessTokenClaims): User {
+  if (!claims.sub) {
+    throw new Error('Token is missing the subject claim');
+  }
+
+  const firstName = claims.given_name ?? claims.firstName;
+  const lastName = claims.family_name ?? claims.lastName;
+  const fullName = [firstName, lastName].filter(Boolean).join(' ');
+  const issuedAt = toDate(claims.iat) ?? new Date();
+  const createdAt = toDate(claims.created_at) ?? issuedAt;
+
+  return {
+    id: claims.sub,
+    email: claims.email ?? '',
+    name: claims.name ?? (fullName || claims.email || claims.sub),
+    role: parseUserRole(claims.roles ?? claims.role),
+    isActive: claims.active ?? true,
+    lastLogin: toDate(claims.auth_time),
+    createdAt,
+    updatedAt: toDate(claims.updated_at) ?? createdAt,
+  };
+}
+
+// Verify signature, expiry, not-before, issuer and audience of a token.
+// Throws when the token is invalid; see validateToken for a null-returning variant.
+export async function verifyAccessToken(
+  token: string,
+  options: TokenVerificationOptions = config.auth.jwt
+): Promise<User> {
+  const { key, algorithms } = resolveVerificationKey(options);
+
+  const { payload } = await jwtVerify<AccessTokenClaims>(
+    token,
+    key as Parameters<typeof jwtVerify>[1],
+    {
+      algorithms,
+      issuer: options.issuer,
+      audience: options.audience,
+      clockTolerance: options.clockTolerance,
+      requiredClaims: ['sub', 'exp'],
+    }
+  );
+
+  return mapClaimsToUser(payload);
+}
+
+// Token validation used by withAuth
+export async function validateToken(
+  token: string,
+  options?: TokenVerificationOptions
+): Promise<User | null> {
+  try {
+    return await verifyAccessToken(token, options);
   } catch (error) {
-    console.error('Token validation error:', error);
+    // Expired, malformed or forged tokens are expected; only log the rest
+    if (!(error instanceof joseErrors.JOSEError)) {
+      console.error('Token validation error:', error);
+    }
     return null;
   }
 }
@@ -191,18 +377,49 @@ export const passwordRules = {
   maxLength: 128,
 } as const;
 
+export interface PasswordCheck {
+  label: string;
+  passed: boolean;
+}
+
+// Per-rule results, used for live feedback on password fields
+export function getPasswordChecks(password: string): PasswordCheck[] {
+  const checks: PasswordCheck[] = [
+    {
+      label: `At least ${passwordRules.minLength} characters`,
+      passed: password.length >= passwordRules.minLength,
+    },
+    {
+      label: `At most ${passwordRules.maxLength} characters`,
+      passed: password.length <= passwordRules.maxLength,
+    },
+  ];
+
+  if (passwordRules.requireUppercase) {
+    checks.push({
+      label: 'An uppercase letter',
+      passed: /[A-Z]/.test(password),
+    });
+  }
+  if (passwordRules.requireLowercase) {
+    checks.push({
+      label: 'A lowercase letter',
+      passed: /[a-z]/.test(password),
+    });
+  }
+  if (passwordRules.requireNumbers) {
+    checks.push({ label: 'A number', passed: /\d/.test(password) });
+  }
+  if (passwordRules.requireSpecialChars) {
+    checks.push({
+      label: 'A special character',
+      passed: /[!@#$%^&*(),.?":{}|<>]/.test(password),
+    });
+  }
+
+  return checks;
+}
+
 export function validatePassword(password: string): boolean {
-  if (password.length < passwordRules.minLength) return false;
-  if (password.length > passwordRules.maxLength) return false;
-
-  if (passwordRules.requireUppercase && !/[A-Z]/.test(password)) return false;
-  if (passwordRules.requireLowercase && !/[a-z]/.test(password)) return false;
-  if (passwordRules.requireNumbers && !/\d/.test(password)) return false;
-  if (
-    passwordRules.requireSpecialChars &&
-    !/[!@#$%^&*(),.?":{}|<>]/.test(password)
-  )
-    return false;
-
-  return true;
+  return getPasswordChecks(password).every((check) => check.passed);
 }
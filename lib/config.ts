@@ -27,6 +27,17 @@ const envSchema = z.object({
   NEXTAUTH_URL: z.string().url().optional(),
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
+  LINKEDIN_CLIENT_ID: z.string().optional(),
+  LINKEDIN_CLIENT_SECRET: z.string().optional(),
+
+  // Access token verification (falls back to NEXTAUTH_SECRET)
+  JWT_SECRET: z
+    .string()
+    .min(32, 'JWT_SECRET must be at least 32 characters')
+    .optional(),
+  JWT_JWKS_URL: z.string().url().optional(),
+  JWT_ISSUER: z.string().optional(),
+  JWT_AUDIENCE: z.string().optional(),
 
   // Database
   DATABASE_URL: z.string().optional(),
@@ -115,11 +126,22 @@ export const config = {
   auth: {
     secret: env.NEXTAUTH_SECRET,
     url: env.NEXTAUTH_URL,
+    jwt: {
+      secret: env.JWT_SECRET || env.NEXTAUTH_SECRET,
+      jwksUrl: env.JWT_JWKS_URL,
+      issuer: env.JWT_ISSUER,
+      audience: env.JWT_AUDIENCE,
+      clockTolerance: 5, // seconds
+    },
     providers: {
       google: {
         clientId: env.GOOGLE_CLIENT_ID,
         clientSecret: env.GOOGLE_CLIENT_SECRET,
       },
+      linkedin: {
+        clientId: env.LINKEDIN_CLIENT_ID,
+        clientSecret: env.LINKEDIN_CLIENT_SECRET,
+      },
     },
   },
   database: {
@@ -158,10 +180,21 @@ export const config = {
 // - SENDGRID_API_KEY
 // - AWS_ACCESS_KEY_ID
 // - AWS_SECRET_ACCESS_KEY
+// - JWT_SECRET
+// - GOOGLE_CLIENT_SECRET
+// - LINKEDIN_CLIENT_SECRET
 // - DATABASE_URL
 // - REDIS_URL
 // Access these directly via process.env in server-side code only.
 
+// Feature flag env vars accept both the NEXT_PUBLIC_FEATURE_ and NEXT_PUBLIC_ forms
+function isFlagSet(flag: string): boolean {
+  return (
+    (process.env[`NEXT_PUBLIC_FEATURE_${flag}`] ||
+      process.env[`NEXT_PUBLIC_${flag}`]) === 'true'
+  );
+}
+
 // Runtime configuration checks
 export function checkRequiredConfig() {
   const errors: string[] = [];
@@ -210,6 +243,26 @@ export function checkRequiredConfig() {
     );
   }
 
+  if (env.LINKEDIN_CLIENT_ID && !env.LINKEDIN_CLIENT_SECRET) {
+    errors.push(
+      'LINKEDIN_CLIENT_SECRET is required when LINKEDIN_CLIENT_ID is set'
+    );
+  }
+
+  if (isFlagSet('ENABLE_GOOGLE_AUTH') && !env.GOOGLE_CLIENT_ID) {
+    errors.push('GOOGLE_CLIENT_ID is required when ENABLE_GOOGLE_AUTH is on');
+  }
+
+  if (isFlagSet('ENABLE_LINKEDIN_AUTH') && !env.LINKEDIN_CLIENT_ID) {
+    errors.push(
+      'LINKEDIN_CLIENT_ID is required when ENABLE_LINKEDIN_AUTH is on'
+    );
+  }
+
+  if (env.JWT_SECRET && env.JWT_JWKS_URL) {
+    errors.push('Set either JWT_SECRET or JWT_JWKS_URL, not both');
+  }
+
   // Payment configuration checks
   if (env.STRIPE_PUBLIC_KEY && !env.STRIPE_SECRET_KEY) {
     errors.push('STRIPE_SECRET_KEY is required when STRIPE_PUBLIC_KEY is set');
@@ -38,6 +38,16 @@ export const browserSupport = {
     return typeof window !== 'undefined' && 'IntersectionObserver' in window;
   },
 
+  // Check for Notifications API support
+  hasNotifications: () => {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  },
+
+  // Check for IndexedDB support
+  hasIndexedDB: () => {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  },
+
   // Check for Service Worker support
   hasServiceWorker: () => {
     return typeof window !== 'undefined' && 'serviceWorker' in navigator;
@@ -0,0 +1,369 @@
+/**
+ * OAuth Sign-In
+ * Authorization code flow with PKCE against the Google and LinkedIn OpenID
+ * Connect endpoints. The ID token is verified here before the GraphQL API
+ * signs the user in and links the provider to any account with that email.
+ */
+
+import {
+  base64url,
+  createRemoteJWKSet,
+  errors as joseErrors,
+  jwtVerify,
+  JWTVerifyGetKey,
+} from 'jose';
+import { NextRequest, NextResponse } from 'next/server';
+import type { FeatureFlags } from '@/lib/feature-flags';
+import { config, isProduction } from './config';
+
+export type OAuthProviderId = 'google' | 'linkedin';
+
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  name: string;
+  flag: keyof FeatureFlags;
+  clientId: string;
+  clientSecret: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  jwksUrl: string;
+  issuer: string;
+  scopes: string[];
+}
+
+// Short-lived record of an authorization request, kept in an httpOnly cookie
+export interface OAuthTransaction {
+  provider: OAuthProviderId;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+// Verified identity returned by the provider
+export interface OAuthProfile {
+  provider: OAuthProviderId;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  idToken: string;
+}
+
+export type OAuthErrorCode =
+  | 'access_denied'
+  | 'invalid_state'
+  | 'token_exchange_failed'
+  | 'invalid_id_token'
+  | 'email_not_verified';
+
+export class OAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OAuthErrorCode
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export const OAUTH_STATE_COOKIE = 'jobpay_oauth';
+
+const OAUTH_COOKIE_PATH = '/api/auth/oauth';
+const OAUTH_STATE_MAX_AGE = 10 * 60; // 10 minutes
+
+const providerEndpoints: Record<
+  OAuthProviderId,
+  Omit<OAuthProvider, 'clientId' | 'clientSecret'>
+> = {
+  google: {
+    id: 'google',
+    name: 'Google',
+    flag: 'ENABLE_GOOGLE_AUTH',
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    jwksUrl: 'https://www.googleapis.com/oauth2/v3/certs',
+    issuer: 'https://accounts.google.com',
+    scopes: ['openid', 'email', 'profile'],
+  },
+  linkedin: {
+    id: 'linkedin',
+    name: 'LinkedIn',
+    flag: 'ENABLE_LINKEDIN_AUTH',
+    authorizationUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    jwksUrl: 'https://www.linkedin.com/oauth/openid/jwks',
+    issuer: 'https://www.linkedin.com/oauth',
+    scopes: ['openid', 'email', 'profile'],
+  },
+};
+
+// Provider with credentials, or null when unknown or not configured
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  if (!Object.prototype.hasOwnProperty.call(providerEndpoints, id)) {
+    return null;
+  }
+
+  const providerId = id as OAuthProviderId;
+  const { clientId, clientSecret } = config.auth.providers[providerId];
+  if (!clientId || !clientSecret) return null;
+
+  return { ...providerEndpoints[providerId], clientId, clientSecret };
+}
+
+export function getOAuthRedirectUri(providerId: OAuthProviderId): string {
+  return new URL(
+    `/api/auth/oauth/${providerId}/callback`,
+    config.app.url
+  ).toString();
+}
+
+function randomToken(byteLength = 32): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64url.encode(bytes);
+}
+
+// S256 code challenge (RFC 7636)
+export async function createCodeChallenge(
+  codeVerifier: string
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(codeVerifier)
+  );
+  return base64url.encode(new Uint8Array(digest));
+}
+
+// Build the provider authorization URL and the transaction to remember
+export async function createAuthorizationRequest(
+  provider: OAuthProvider,
+  { redirectUri, returnTo }: { redirectUri: string; returnTo: string }
+): Promise<{ url: string; transaction: OAuthTransaction }> {
+  const transaction: OAuthTransaction = {
+    provider: provider.id,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(48),
+    returnTo,
+  };
+
+  const url = new URL(provider.authorizationUrl);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scopes.join(' '),
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: await createCodeChallenge(transaction.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), transaction };
+}
+
+export function setOAuthTransaction(
+  response: NextResponse,
+  transaction: OAuthTransaction
+): NextResponse {
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify(transaction), {
+    httpOnly: true,
+    secure: isProduction,
+    // Lax so the cookie survives the top-level redirect back from the provider
+    sameSite: 'lax',
+    path: OAUTH_COOKIE_PATH,
+    maxAge: OAUTH_STATE_MAX_AGE,
+  });
+  return response;
+}
+
+export function getOAuthTransaction(
+  request: NextRequest
+): OAuthTransaction | null {
+  const value = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!value) return null;
+
+  try {
+    const transaction = JSON.parse(value) as OAuthTransaction;
+    return transaction.state && transaction.nonce && transaction.codeVerifier
+      ? transaction
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearOAuthTransaction(response: NextResponse): NextResponse {
+  response.cookies.set(OAUTH_STATE_COOKIE, '', {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax',
+    path: OAUTH_COOKIE_PATH,
+    maxAge: 0,
+  });
+  return response;
+}
+
+// Constant-time comparison for state values
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
+  {
+    code,
+    codeVerifier,
+    redirectUri,
+  }: { code: string; codeVerifier: string; redirectUri: string }
+): Promise<{ idToken: string; accessToken?: string }> {
+  let response: Response;
+  try {
+    response = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: codeVerifier,
+      }),
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error(`${provider.name} token request failed:`, error);
+    throw new OAuthError(
+      `Could not reach ${provider.name}`,
+      'token_exchange_failed'
+    );
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.id_token) {
+    console.warn(`${provider.name} token exchange rejected:`, body?.error);
+    throw new OAuthError(
+      `${provider.name} did not accept the sign-in`,
+      'token_exchange_failed'
+    );
+  }
+
+  return { idToken: body.id_token, accessToken: body.access_token };
+}
+
+const keySets = new Map<string, JWTVerifyGetKey>();
+
+function getKeySet(jwksUrl: string): JWTVerifyGetKey {
+  let keySet = keySets.get(jwksUrl);
+  if (!keySet) {
+    keySet = createRemoteJWKSet(new URL(jwksUrl));
+    keySets.set(jwksUrl, keySet);
+  }
+  return keySet;
+}
+
+export async function verifyIdToken(
+  provider: OAuthProvider,
+  idToken: string,
+  nonce: string
+): Promise<OAuthProfile> {
+  try {
+    const { payload } = await jwtVerify(idToken, getKeySet(provider.jwksUrl), {
+      issuer: provider.issuer,
+      audience: provider.clientId,
+      requiredClaims: ['sub', 'exp'],
+      clockTolerance: config.auth.jwt.clockTolerance,
+    });
+
+    if (typeof payload.nonce !== 'string' || !safeEqual(payload.nonce, nonce)) {
+      throw new OAuthError('ID token nonce mismatch', 'invalid_id_token');
+    }
+    if (typeof payload.email !== 'string') {
+      throw new OAuthError('ID token has no email', 'invalid_id_token');
+    }
+
+    return {
+      provider: provider.id,
+      subject: payload.sub as string,
+      email: payload.email.toLowerCase(),
+      // Google and LinkedIn send a boolean; some providers send a string
+      emailVerified:
+        payload.email_verified === true || payload.email_verified === 'true',
+      firstName:
+        typeof payload.given_name === 'string' ? payload.given_name : undefined,
+      lastName:
+        typeof payload.family_name === 'string'
+          ? payload.family_name
+          : undefined,
+      idToken,
+    };
+  } catch (error) {
+    if (error instanceof OAuthError) throw error;
+    if (!(error instanceof joseErrors.JOSEError)) {
+      console.error(`${provider.name} ID token verification failed:`, error);
+    }
+    throw new OAuthError('Invalid ID token', 'invalid_id_token');
+  }
+}
+
+// Validate the callback against the stored transaction and return the
+// verified profile. Only verified emails may be linked to existing accounts.
+export async function completeOAuthSignIn(
+  provider: OAuthProvider,
+  {
+    params,
+    transaction,
+    redirectUri,
+  }: {
+    params: URLSearchParams;
+    transaction: OAuthTransaction | null;
+    redirectUri: string;
+  }
+): Promise<OAuthProfile> {
+  if (params.get('error')) {
+    throw new OAuthError(
+      `${provider.name} sign-in was cancelled`,
+      'access_denied'
+    );
+  }
+
+  const state = params.get('state');
+  const code = params.get('code');
+  if (
+    !transaction ||
+    transaction.provider !== provider.id ||
+    !state ||
+    !safeEqual(state, transaction.state) ||
+    !code
+  ) {
+    throw new OAuthError('Sign-in request did not match', 'invalid_state');
+  }
+
+  const { idToken } = await exchangeAuthorizationCode(provider, {
+    code,
+    codeVerifier: transaction.codeVerifier,
+    redirectUri,
+  });
+  const profile = await verifyIdToken(provider, idToken, transaction.nonce);
+
+  if (!profile.emailVerified) {
+    throw new OAuthError(
+      `Your ${provider.name} email address is not verified`,
+      'email_not_verified'
+    );
+  }
+
+  return profile;
+}
@@ -0,0 +1,77 @@
+/**
+ * Redis Rate Limit Store
+ * Shares sliding windows across server instances. Node.js runtime only;
+ * registered from instrumentation.ts when REDIS_URL is set.
+ */
+
+import Redis from 'ioredis';
+import type { RateLimitPolicy, RateLimitStore } from './rate-limit';
+
+// Trim the window, then add the hit only if there is room (atomic)
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+
+if count < max then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')[2]
+return { allowed, count, tonumber(oldest) or now }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: Redis;
+  // Shared by hits that arrive while connecting; ioredis rejects a second
+  // connect() call
+  private connecting: Promise<void> | null = null;
+
+  constructor(
+    url: string,
+    private readonly prefix = 'ratelimit:'
+  ) {
+    this.client = new Redis(url, {
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+      lazyConnect: true,
+    });
+    this.client.on('error', (error) => {
+      console.warn('Redis rate limit store error:', error.message);
+    });
+  }
+
+  async hit(key: string, policy: RateLimitPolicy, now: number) {
+    if (this.client.status === 'wait') {
+      this.connecting = this.client.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    await this.connecting;
+
+    const member = `${now}-${Math.random().toString(36).slice(2)}`;
+    const [allowed, count, oldest] = (await this.client.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      `${this.prefix}${key}`,
+      now,
+      policy.windowMs,
+      policy.max,
+      member
+    )) as [number, number, number];
+
+    return { allowed: allowed === 1, count, oldest };
+  }
+
+  async reset(key: string) {
+    await this.client.del(`${this.prefix}${key}`);
+  }
+}
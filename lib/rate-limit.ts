@@ -0,0 +1,184 @@
+/**
+ * Rate Limiting
+ * Sliding-window limits for API routes and middleware, enforcing the
+ * `rateLimits` policy from lib/auth
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimits } from './auth';
+
+export type RateLimitPolicyName = keyof typeof rateLimits;
+
+export interface RateLimitPolicy {
+  max: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch milliseconds when the oldest hit leaves the window
+}
+
+// Storage backend for hit timestamps
+export interface RateLimitStore {
+  // Record a hit unless the window is full; returns the state after the hit
+  hit(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<{ allowed: boolean; count: number; oldest: number }>;
+  reset(key: string): Promise<void>;
+}
+
+// Per-process store, used when no Redis is configured and in the edge runtime
+export class MemoryRateLimitStore implements RateLimitStore {
+  // Each key keeps the window of the policy that wrote it, since one store
+  // serves policies with very different windows
+  private hits = new Map<string, { timestamps: number[]; windowMs: number }>();
+  private lastSweep = 0;
+
+  async hit(key: string, policy: RateLimitPolicy, now: number) {
+    this.sweep(now, policy.windowMs);
+
+    const windowStart = now - policy.windowMs;
+    const timestamps = (this.hits.get(key)?.timestamps || []).filter(
+      (timestamp) => timestamp > windowStart
+    );
+    const allowed = timestamps.length < policy.max;
+
+    if (allowed) timestamps.push(now);
+    this.hits.set(key, { timestamps, windowMs: policy.windowMs });
+
+    return { allowed, count: timestamps.length, oldest: timestamps[0] ?? now };
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  // Drop keys whose newest hit has left that key's own window
+  private sweep(now: number, interval: number) {
+    if (now - this.lastSweep < interval) return;
+    this.lastSweep = now;
+
+    this.hits.forEach(({ timestamps, windowMs }, key) => {
+      if ((timestamps[timestamps.length - 1] ?? 0) <= now - windowMs) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export async function checkRateLimit(
+  key: string,
+  policy: RateLimitPolicy,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  try {
+    const { allowed, count, oldest } = await store.hit(key, policy, now);
+
+    return {
+      allowed,
+      limit: policy.max,
+      remaining: Math.max(0, policy.max - count),
+      resetAt: oldest + policy.windowMs,
+    };
+  } catch (error) {
+    // Fail open: an unavailable store must not take the site down
+    console.error('Rate limit store error:', error);
+    return {
+      allowed: true,
+      limit: policy.max,
+      remaining: policy.max,
+      resetAt: now + policy.windowMs,
+    };
+  }
+}
+
+// The address the request came from, as seen by infrastructure we trust.
+// The platform-provided `request.ip` comes first. Otherwise it is the
+// right-most X-Forwarded-For entry, which our own proxy appended; entries
+// to its left are whatever the client sent and can be rotated at will.
+export function getClientIp(request: NextRequest): string {
+  const platformIp = (request as NextRequest & { ip?: string }).ip;
+  if (platformIp) return platformIp;
+
+  const forwardedFor = request.headers
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwardedFor?.length) return forwardedFor[forwardedFor.length - 1];
+
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  now = Date.now()
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(
+      Math.max(1, Math.ceil((result.resetAt - now) / 1000))
+    );
+  }
+
+  return headers;
+}
+
+export function rateLimitExceededResponse(
+  result: RateLimitResult
+): NextResponse {
+  return NextResponse.json(
+    { error: 'Too many requests. Please try again later.' },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
+}
+
+// Apply a named policy to a request, keyed by client IP
+export function limitRequest(
+  request: NextRequest,
+  policyName: RateLimitPolicyName
+): Promise<RateLimitResult> {
+  return checkRateLimit(
+    `${policyName}:${getClientIp(request)}`,
+    rateLimits[policyName]
+  );
+}
+
+// Middleware for API route rate limiting
+export function withRateLimit(
+  policyName: RateLimitPolicyName,
+  handler: (req: NextRequest) => Promise<NextResponse>
+) {
+  return async (req: NextRequest) => {
+    const result = await limitRequest(req, policyName);
+    if (!result.allowed) {
+      return rateLimitExceededResponse(result);
+    }
+
+    const response = await handler(req);
+    Object.entries(rateLimitHeaders(result)).forEach(([key, value]) =>
+      response.headers.set(key, value)
+    );
+    return response;
+  };
+}
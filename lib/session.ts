@@ -0,0 +1,233 @@
+/**
+ * Session Cookie Management
+ * Stores access and refresh tokens in httpOnly cookies and talks to the
+ * GraphQL auth service from API routes
+ */
+
+import type { DocumentNode } from 'graphql';
+import { print } from 'graphql';
+import { decodeJwt } from 'jose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authSecurityHeaders, User, validateToken } from './auth';
+import { isProduction } from './config';
+
+export const SESSION_COOKIE = 'jobpay_session';
+export const REFRESH_COOKIE = 'jobpay_refresh';
+export const TWO_FACTOR_COOKIE = 'jobpay_2fa_challenge';
+
+// Refresh tokens are only ever read by the auth API routes
+const REFRESH_COOKIE_PATH = '/api/auth';
+const DEFAULT_REFRESH_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+const TWO_FACTOR_CHALLENGE_MAX_AGE = 5 * 60; // 5 minutes
+
+const graphqlEndpoint =
+  process.env.NEXT_PUBLIC_GRAPHQL_ENDPOINT || 'http://localhost:4000/graphql';
+
+// Tokens returned by the login, register and refresh mutations
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn?: number | null; // seconds
+}
+
+// Login result when the account has two-factor authentication enabled
+export interface LoginResult extends Partial<AuthTokens> {
+  twoFactorRequired?: boolean | null;
+  challengeToken?: string | null;
+}
+
+// Session as exposed to the browser (never includes the refresh token)
+export interface SessionPayload {
+  user: User;
+  accessToken: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+export class AuthServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 401
+  ) {
+    super(message);
+    this.name = 'AuthServiceError';
+  }
+}
+
+// Execute an auth mutation against the GraphQL API
+export async function requestAuthService<T>(
+  document: DocumentNode,
+  variables: Record<string, unknown>,
+  accessToken?: string
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(graphqlEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessToken ? { authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify({ query: print(document), variables }),
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error('Auth service request failed:', error);
+    throw new AuthServiceError('Authentication service unavailable', 503);
+  }
+
+  const result = await response.json().catch(() => null);
+  const graphqlError = result?.errors?.[0];
+
+  if (graphqlError) {
+    const code = graphqlError.extensions?.code;
+    throw new AuthServiceError(
+      graphqlError.message || 'Authentication failed',
+      code === 'BAD_USER_INPUT' ? 400 : 401
+    );
+  }
+
+  if (!response.ok || !result?.data) {
+    throw new AuthServiceError('Authentication service error', 502);
+  }
+
+  return result.data as T;
+}
+
+function cookieOptions(maxAge: number, path = '/') {
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax' as const,
+    path,
+    maxAge,
+  };
+}
+
+function getTokenExpiry(accessToken: string, expiresIn?: number | null) {
+  const { exp } = decodeJwt(accessToken);
+  if (exp) return exp * 1000;
+  return Date.now() + (expiresIn ?? 15 * 60) * 1000;
+}
+
+// Build the browser session for a freshly issued access token
+export async function createSessionPayload(
+  tokens: Pick<AuthTokens, 'accessToken' | 'expiresIn'>
+): Promise<SessionPayload> {
+  const user = await validateToken(tokens.accessToken);
+  if (!user) {
+    throw new AuthServiceError('Received an invalid access token', 502);
+  }
+
+  return {
+    user,
+    accessToken: tokens.accessToken,
+    expiresAt: getTokenExpiry(tokens.accessToken, tokens.expiresIn),
+  };
+}
+
+export function getSessionToken(request: NextRequest): string | undefined {
+  return request.cookies.get(SESSION_COOKIE)?.value;
+}
+
+export function getRefreshToken(request: NextRequest): string | undefined {
+  return request.cookies.get(REFRESH_COOKIE)?.value;
+}
+
+// Respond with the session and persist the tokens in httpOnly cookies
+export function createSessionResponse(
+  session: SessionPayload,
+  tokens: AuthTokens,
+  status = 200
+): NextResponse {
+  return setSessionCookies(
+    NextResponse.json(session, { status, headers: authSecurityHeaders }),
+    tokens
+  );
+}
+
+// The session cookie outlives its access token so middleware can tell an
+// expired session (refreshable) apart from a guest
+export function setSessionCookies(
+  response: NextResponse,
+  tokens: AuthTokens
+): NextResponse {
+  response.cookies.set(
+    SESSION_COOKIE,
+    tokens.accessToken,
+    cookieOptions(DEFAULT_REFRESH_MAX_AGE)
+  );
+  response.cookies.set(
+    REFRESH_COOKIE,
+    tokens.refreshToken,
+    cookieOptions(DEFAULT_REFRESH_MAX_AGE, REFRESH_COOKIE_PATH)
+  );
+
+  return response;
+}
+
+export function clearSessionCookies(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', cookieOptions(0));
+  response.cookies.set(
+    REFRESH_COOKIE,
+    '',
+    cookieOptions(0, REFRESH_COOKIE_PATH)
+  );
+  return response;
+}
+
+// Password was accepted but a second factor is still needed. The challenge
+// token stays in an httpOnly cookie until the code is verified.
+export function createTwoFactorChallengeResponse(
+  challengeToken: string
+): NextResponse {
+  return setTwoFactorChallenge(
+    NextResponse.json(
+      { twoFactorRequired: true },
+      { headers: authSecurityHeaders }
+    ),
+    challengeToken
+  );
+}
+
+export function setTwoFactorChallenge(
+  response: NextResponse,
+  challengeToken: string
+): NextResponse {
+  response.cookies.set(
+    TWO_FACTOR_COOKIE,
+    challengeToken,
+    cookieOptions(TWO_FACTOR_CHALLENGE_MAX_AGE, REFRESH_COOKIE_PATH)
+  );
+  return response;
+}
+
+export function getTwoFactorChallenge(
+  request: NextRequest
+): string | undefined {
+  return request.cookies.get(TWO_FACTOR_COOKIE)?.value;
+}
+
+export function clearTwoFactorChallenge(response: NextResponse): NextResponse {
+  response.cookies.set(
+    TWO_FACTOR_COOKIE,
+    '',
+    cookieOptions(0, REFRESH_COOKIE_PATH)
+  );
+  return response;
+}
+
+// Consistent JSON error for the auth API routes
+export function authErrorResponse(error: unknown): NextResponse {
+  if (error instanceof AuthServiceError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status, headers: authSecurityHeaders }
+    );
+  }
+
+  console.error('Authentication error:', error);
+  return NextResponse.json(
+    { error: 'Authentication failed' },
+    { status: 500, headers: authSecurityHeaders }
+  );
+}
@@ -1,5 +1,73 @@
 import * as Sentry from '@sentry/nextjs';
 import { NextRequest, NextResponse } from 'next/server';
+import { getSafeReturnTo } from '@/lib/auth-client';
+import { AuthService, getRoutePermissions, validateToken } from './lib/auth';
+import {
+  limitRequest,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from './lib/rate-limit';
+import { SESSION_COOKIE } from './lib/session';
+
+// Pages that signed-in users are sent away from
+const GUEST_ONLY_ROUTES = ['/login', '/register'];
+
+// Send guests to login, and expired sessions through a token refresh first
+function redirectToLogin(request: NextRequest, hasSession: boolean) {
+  const url = new URL(hasSession ? '/api/auth/refresh' : '/login', request.url);
+  url.searchParams.set(
+    'returnTo',
+    `${request.nextUrl.pathname}${request.nextUrl.search}`
+  );
+  return NextResponse.redirect(url);
+}
+
+// Returns a response when the request must not reach the page
+async function protectRoute(
+  request: NextRequest
+): Promise<NextResponse | null> {
+  const { pathname, searchParams } = request.nextUrl;
+  const requiredPermissions = getRoutePermissions(pathname);
+  const isGuestOnly = GUEST_ONLY_ROUTES.includes(pathname);
+
+  if (!requiredPermissions && !isGuestOnly) return null;
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const user = token ? await validateToken(token) : null;
+
+  if (isGuestOnly) {
+    if (!user?.isActive) return null;
+    const destination = getSafeReturnTo(searchParams.get('returnTo'));
+    return NextResponse.redirect(new URL(destination, request.url));
+  }
+
+  if (!user || !user.isActive) {
+    return redirectToLogin(request, !!token && !user);
+  }
+
+  if (!AuthService.canAccess(user, requiredPermissions ?? [])) {
+    return NextResponse.rewrite(new URL('/forbidden', request.url), {
+      status: 403,
+    });
+  }
+
+  return null;
+}
+
+// Auth API routes get the general API budget here, and only here; login,
+// registration and two-factor handlers add the stricter login budget
+async function limitApiRoute(request: NextRequest): Promise<NextResponse> {
+  const result = await limitRequest(request, 'api');
+  if (!result.allowed) {
+    return rateLimitExceededResponse(result);
+  }
+
+  const response = NextResponse.next();
+  Object.entries(rateLimitHeaders(result)).forEach(([key, value]) =>
+    response.headers.set(key, value)
+  );
+  return response;
+}
 
 export async function middleware(request: NextRequest) {
   // Add request context to Sentry
@@ -23,7 +91,9 @@ export async function middleware(request: NextRequest) {
   });
 
   try {
-    const response = NextResponse.next();
+    const response = request.nextUrl.pathname.startsWith('/api/')
+      ? await limitApiRoute(request)
+      : ((await protectRoute(request)) ?? NextResponse.next());
 
     // Add response context
     Sentry.setContext('response', {
@@ -58,12 +128,13 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
+     * - api (API routes, other than the auth routes below)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - monitoring (Sentry tunnel)
      */
     '/((?!api|_next/static|_next/image|favicon.ico|monitoring).*)',
+    '/api/auth/:path*',
   ],
 };
@@ -0,0 +1,19 @@
+import Link from 'next/link';
+
+export default function AuthLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col items-center justify-center px-4 py-12">
+      <Link
+        href="/"
+        className="text-2xl font-bold text-gray-900 dark:text-white mb-8"
+      >
+        JobPay
+      </Link>
+      <div className="w-full max-w-md">{children}</div>
+    </div>
+  );
+}
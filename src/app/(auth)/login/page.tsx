@@ -0,0 +1,136 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import type { Route } from 'next';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { OAuthButtons } from '@/components/oauth-buttons';
+import { useSession } from '@/components/session-provider';
+import { getSafeReturnTo } from '@/lib/auth-client';
+
+// Reasons the OAuth callback sends people back here
+const oauthErrors: Record<string, string> = {
+  access_denied: 'Sign-in was cancelled.',
+  invalid_state: 'Your sign-in attempt expired. Please try again.',
+  email_not_verified:
+    'Verify your email address with the provider, then try again.',
+};
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { signIn } = useSession();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(() => {
+    const code = searchParams.get('error');
+    if (!code) return null;
+    return oauthErrors[code] ?? 'Could not sign you in. Please try again.';
+  });
+  const [submitting, setSubmitting] = useState(false);
+
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const result = await signIn({ email, password });
+      if (result.status === 'two_factor_required') {
+        router.replace(
+          `/login/two-factor?returnTo=${encodeURIComponent(returnTo)}` as Route
+        );
+        return;
+      }
+      router.replace(returnTo as Route);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="p-8">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+        Sign in
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        Welcome back. Sign in to manage your applications.
+      </p>
+
+      <OAuthButtons returnTo={returnTo} />
+
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <div>
+          <label
+            htmlFor="email"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Email
+          </label>
+          <Input
+            id="email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="password"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Password
+          </label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={submitting || !email || !password}
+        >
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </Button>
+      </form>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mt-6 text-center">
+        Don&apos;t have an account?{' '}
+        <Link
+          href={`/register?returnTo=${encodeURIComponent(returnTo)}` as Route}
+          className="text-blue-600 hover:underline"
+        >
+          Create one
+        </Link>
+      </p>
+    </Card>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
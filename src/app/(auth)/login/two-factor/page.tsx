@@ -0,0 +1,148 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import type { Route } from 'next';
+import { ShieldCheck } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useSession } from '@/components/session-provider';
+import { getSafeReturnTo } from '@/lib/auth-client';
+import { FeatureGate } from '@/lib/feature-flags';
+
+function TwoFactorForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { verifyTwoFactor } = useSession();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
+  const loginHref = `/login?returnTo=${encodeURIComponent(returnTo)}` as Route;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      await verifyTwoFactor(code);
+      router.replace(returnTo as Route);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode((prev) => !prev);
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <Card className="p-8">
+      <ShieldCheck className="w-10 h-10 text-blue-600 mb-4" />
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+        Two-factor authentication
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        {useRecoveryCode
+          ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+          : 'Enter the 6-digit code from your authenticator app.'}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <div>
+          <label
+            htmlFor="code"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          </label>
+          {useRecoveryCode ? (
+            <Input
+              id="code"
+              autoComplete="off"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+              autoFocus
+            />
+          ) : (
+            <Input
+              id="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              placeholder="123456"
+              className="tracking-widest"
+              autoFocus
+            />
+          )}
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={
+            submitting ||
+            (useRecoveryCode ? code.trim() === '' : code.length !== 6)
+          }
+        >
+          {submitting ? 'Verifying...' : 'Verify'}
+        </Button>
+      </form>
+
+      <div className="flex justify-between text-sm mt-6">
+        <button
+          type="button"
+          onClick={toggleMode}
+          className="text-blue-600 hover:underline"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <Link
+          href={loginHref}
+          className="text-gray-600 dark:text-gray-400 hover:underline"
+        >
+          Start over
+        </Link>
+      </div>
+    </Card>
+  );
+}
+
+export default function TwoFactorPage() {
+  return (
+    <FeatureGate
+      flag="ENABLE_TWO_FACTOR_AUTH"
+      fallback={
+        <Card className="p-8 text-center">
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            Two-factor authentication is not available.
+          </p>
+          <Button asChild>
+            <Link href="/login">Back to sign in</Link>
+          </Button>
+        </Card>
+      }
+    >
+      <Suspense>
+        <TwoFactorForm />
+      </Suspense>
+    </FeatureGate>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { Suspense, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import type { Route } from 'next';
+import { Check, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { OAuthButtons } from '@/components/oauth-buttons';
+import { useSession } from '@/components/session-provider';
+import { getSafeReturnTo } from '@/lib/auth-client';
+import {
+  getPasswordChecks,
+  passwordRules,
+  validatePassword,
+} from '../../../../lib/auth';
+
+function RegisterForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { signUp } = useSession();
+  const [form, setForm] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
+  const passwordChecks = useMemo(
+    () => getPasswordChecks(form.password),
+    [form.password]
+  );
+  const passwordValid = validatePassword(form.password);
+  const passwordsMatch =
+    form.confirmPassword.length > 0 && form.password === form.confirmPassword;
+  const canSubmit =
+    !!form.firstName.trim() &&
+    !!form.lastName.trim() &&
+    !!form.email &&
+    passwordValid &&
+    passwordsMatch;
+
+  const updateField =
+    (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      await signUp({
+        firstName: form.firstName.trim(),
+        lastName: form.lastName.trim(),
+        email: form.email,
+        password: form.password,
+      });
+      router.replace(returnTo as Route);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create account');
+      setSubmitting(false);
+    }
+  };
+
+  const labelClass =
+    'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+  return (
+    <Card className="p-8">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+        Create your account
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        Start applying to jobs and tracking your progress.
+      </p>
+
+      <OAuthButtons returnTo={returnTo} />
+
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="firstName" className={labelClass}>
+              First name
+            </label>
+            <Input
+              id="firstName"
+              autoComplete="given-name"
+              value={form.firstName}
+              onChange={updateField('firstName')}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="lastName" className={labelClass}>
+              Last name
+            </label>
+            <Input
+              id="lastName"
+              autoComplete="family-name"
+              value={form.lastName}
+              onChange={updateField('lastName')}
+              required
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="email" className={labelClass}>
+            Email
+          </label>
+          <Input
+            id="email"
+            type="email"
+            autoComplete="email"
+            value={form.email}
+            onChange={updateField('email')}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="password" className={labelClass}>
+            Password
+          </label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            maxLength={passwordRules.maxLength}
+            value={form.password}
+            onChange={updateField('password')}
+            aria-describedby="password-rules"
+            required
+          />
+          <ul id="password-rules" className="mt-2 space-y-1">
+            {passwordChecks.map((check) => (
+              <li
+                key={check.label}
+                className={`flex items-center text-xs ${
+                  check.passed
+                    ? 'text-green-600 dark:text-green-400'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {check.passed ? (
+                  <Check className="w-3 h-3 mr-1" />
+                ) : (
+                  <X className="w-3 h-3 mr-1" />
+                )}
+                {check.label}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className={labelClass}>
+            Confirm password
+          </label>
+          <Input
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            value={form.confirmPassword}
+            onChange={updateField('confirmPassword')}
+            required
+          />
+          {form.confirmPassword && !passwordsMatch && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+              Passwords do not match
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={submitting || !canSubmit}
+        >
+          {submitting ? 'Creating account...' : 'Create account'}
+        </Button>
+      </form>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mt-6 text-center">
+        Already have an account?{' '}
+        <Link
+          href={`/login?returnTo=${encodeURIComponent(returnTo)}` as Route}
+          className="text-blue-600 hover:underline"
+        >
+          Sign in
+        </Link>
+      </p>
+    </Card>
+  );
+}
+
+export default function RegisterPage() {
+  return (
+    <Suspense>
+      <RegisterForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Login API Endpoint
+ * Exchanges credentials for a session stored in httpOnly cookies
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { LOGIN } from '@/graphql/queries';
+import {
+  AuthServiceError,
+  AuthTokens,
+  LoginResult,
+  authErrorResponse,
+  createSessionPayload,
+  createSessionResponse,
+  createTwoFactorChallengeResponse,
+  requestAuthService,
+} from '../../../../../lib/session';
+import { withRateLimit } from '../../../../../lib/rate-limit';
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+// Limited to rateLimits.login to slow down credential stuffing
+export const POST = withRateLimit(
+  'login',
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const parsed = loginSchema.safeParse(
+        await request.json().catch(() => ({}))
+      );
+      if (!parsed.success) {
+        throw new AuthServiceError('Email and password are required', 400);
+      }
+
+      const { login } = await requestAuthService<{ login: LoginResult }>(
+        LOGIN,
+        { input: parsed.data }
+      );
+
+      if (login.twoFactorRequired && login.challengeToken) {
+        return createTwoFactorChallengeResponse(login.challengeToken);
+      }
+
+      if (!login.accessToken || !login.refreshToken) {
+        throw new AuthServiceError('Authentication service error', 502);
+      }
+
+      const tokens = login as AuthTokens;
+      const session = await createSessionPayload(tokens);
+
+      return createSessionResponse(session, tokens);
+    } catch (error) {
+      return authErrorResponse(error);
+    }
+  }
+);
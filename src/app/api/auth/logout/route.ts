@@ -0,0 +1,35 @@
+/**
+ * Logout API Endpoint
+ * Revokes the refresh token and clears the session cookies
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LOGOUT } from '@/graphql/queries';
+import { authSecurityHeaders } from '../../../../../lib/auth';
+import {
+  clearSessionCookies,
+  getRefreshToken,
+  getSessionToken,
+  requestAuthService,
+} from '../../../../../lib/session';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const refreshToken = getRefreshToken(request);
+
+  if (refreshToken) {
+    try {
+      await requestAuthService(
+        LOGOUT,
+        { refreshToken },
+        getSessionToken(request)
+      );
+    } catch (error) {
+      // The cookies are cleared regardless; the token will expire on its own
+      console.warn('Failed to revoke refresh token:', error);
+    }
+  }
+
+  return clearSessionCookies(
+    NextResponse.json({ success: true }, { headers: authSecurityHeaders })
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * OAuth Callback Endpoint
+ * Verifies the provider response, signs the user in through the GraphQL API
+ * and sets the session cookies before returning to the app
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OAUTH_SIGN_IN } from '@/graphql/queries';
+import { getSafeReturnTo } from '@/lib/auth-client';
+import { FeatureFlagManager } from '@/lib/feature-flags';
+import {
+  OAuthError,
+  clearOAuthTransaction,
+  completeOAuthSignIn,
+  getOAuthProvider,
+  getOAuthRedirectUri,
+  getOAuthTransaction,
+} from '../../../../../../../lib/oauth';
+import {
+  AuthServiceError,
+  AuthTokens,
+  LoginResult,
+  requestAuthService,
+  setSessionCookies,
+  setTwoFactorChallenge,
+} from '../../../../../../../lib/session';
+
+function redirectToLogin(
+  request: NextRequest,
+  returnTo: string,
+  error: string
+) {
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('returnTo', returnTo);
+  loginUrl.searchParams.set('error', error);
+  return NextResponse.redirect(loginUrl);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+): Promise<NextResponse> {
+  const provider = getOAuthProvider(params.provider);
+  if (!provider || !FeatureFlagManager.isEnabled(provider.flag)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const transaction = getOAuthTransaction(request);
+  const returnTo = getSafeReturnTo(transaction?.returnTo);
+
+  try {
+    const profile = await completeOAuthSignIn(provider, {
+      params: request.nextUrl.searchParams,
+      transaction,
+      redirectUri: getOAuthRedirectUri(provider.id),
+    });
+
+    const { oauthSignIn } = await requestAuthService<{
+      oauthSignIn: LoginResult;
+    }>(OAUTH_SIGN_IN, {
+      input: {
+        provider: provider.id.toUpperCase(),
+        idToken: profile.idToken,
+        providerAccountId: profile.subject,
+        email: profile.email,
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+      },
+    });
+
+    if (oauthSignIn.twoFactorRequired && oauthSignIn.challengeToken) {
+      const challengeUrl = new URL('/login/two-factor', request.url);
+      challengeUrl.searchParams.set('returnTo', returnTo);
+      return clearOAuthTransaction(
+        setTwoFactorChallenge(
+          NextResponse.redirect(challengeUrl),
+          oauthSignIn.challengeToken
+        )
+      );
+    }
+
+    if (!oauthSignIn.accessToken || !oauthSignIn.refreshToken) {
+      throw new AuthServiceError('Authentication service error', 502);
+    }
+
+    return clearOAuthTransaction(
+      setSessionCookies(
+        NextResponse.redirect(new URL(returnTo, request.url)),
+        oauthSignIn as AuthTokens
+      )
+    );
+  } catch (error) {
+    if (!(error instanceof OAuthError)) {
+      console.error(`${provider.name} sign-in failed:`, error);
+    }
+
+    return clearOAuthTransaction(
+      redirectToLogin(
+        request,
+        returnTo,
+        error instanceof OAuthError ? error.code : 'oauth_failed'
+      )
+    );
+  }
+}
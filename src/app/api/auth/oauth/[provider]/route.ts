@@ -0,0 +1,31 @@
+/**
+ * OAuth Start Endpoint
+ * Redirects to the provider's consent screen with state, nonce and PKCE
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSafeReturnTo } from '@/lib/auth-client';
+import { FeatureFlagManager } from '@/lib/feature-flags';
+import {
+  createAuthorizationRequest,
+  getOAuthProvider,
+  getOAuthRedirectUri,
+  setOAuthTransaction,
+} from '../../../../../../lib/oauth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+): Promise<NextResponse> {
+  const provider = getOAuthProvider(params.provider);
+  if (!provider || !FeatureFlagManager.isEnabled(provider.flag)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { url, transaction } = await createAuthorizationRequest(provider, {
+    redirectUri: getOAuthRedirectUri(provider.id),
+    returnTo: getSafeReturnTo(request.nextUrl.searchParams.get('returnTo')),
+  });
+
+  return setOAuthTransaction(NextResponse.redirect(url), transaction);
+}
@@ -0,0 +1,61 @@
+/**
+ * Token Refresh API Endpoint
+ * Rotates the refresh token and issues a new access token.
+ * POST is used by the Apollo client; GET is used by middleware redirects.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { REFRESH_TOKEN } from '@/graphql/queries';
+import { getSafeReturnTo } from '@/lib/auth-client';
+import {
+  AuthServiceError,
+  AuthTokens,
+  authErrorResponse,
+  clearSessionCookies,
+  createSessionPayload,
+  createSessionResponse,
+  getRefreshToken,
+  requestAuthService,
+  setSessionCookies,
+} from '../../../../../lib/session';
+
+async function rotateTokens(request: NextRequest) {
+  const refreshToken = getRefreshToken(request);
+  if (!refreshToken) {
+    throw new AuthServiceError('No refresh token', 401);
+  }
+
+  const { refreshToken: tokens } = await requestAuthService<{
+    refreshToken: AuthTokens;
+  }>(REFRESH_TOKEN, { refreshToken });
+
+  return { tokens, session: await createSessionPayload(tokens) };
+}
+
+// The general API budget is applied by middleware
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { tokens, session } = await rotateTokens(request);
+    return createSessionResponse(session, tokens);
+  } catch (error) {
+    return clearSessionCookies(authErrorResponse(error));
+  }
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const returnTo = getSafeReturnTo(
+    request.nextUrl.searchParams.get('returnTo')
+  );
+
+  try {
+    const { tokens } = await rotateTokens(request);
+    return setSessionCookies(
+      NextResponse.redirect(new URL(returnTo, request.url)),
+      tokens
+    );
+  } catch {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('returnTo', returnTo);
+    return clearSessionCookies(NextResponse.redirect(loginUrl));
+  }
+}
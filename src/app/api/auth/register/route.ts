@@ -0,0 +1,55 @@
+/**
+ * Registration API Endpoint
+ * Creates an account and signs the new user in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { REGISTER } from '@/graphql/queries';
+import { validatePassword } from '../../../../../lib/auth';
+import {
+  AuthServiceError,
+  AuthTokens,
+  authErrorResponse,
+  createSessionPayload,
+  createSessionResponse,
+  requestAuthService,
+} from '../../../../../lib/session';
+import { withRateLimit } from '../../../../../lib/rate-limit';
+
+const registerSchema = z.object({
+  firstName: z.string().trim().min(1).max(100),
+  lastName: z.string().trim().min(1).max(100),
+  email: z.string().email(),
+  password: z.string().refine(validatePassword, {
+    message: 'Password does not meet the requirements',
+  }),
+});
+
+// Shares the login budget so sign-ups cannot be used to bypass it
+export const POST = withRateLimit(
+  'login',
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const parsed = registerSchema.safeParse(
+        await request.json().catch(() => ({}))
+      );
+      if (!parsed.success) {
+        throw new AuthServiceError(
+          parsed.error.issues[0]?.message || 'Invalid registration details',
+          400
+        );
+      }
+
+      const { register } = await requestAuthService<{ register: AuthTokens }>(
+        REGISTER,
+        { input: parsed.data }
+      );
+      const session = await createSessionPayload(register);
+
+      return createSessionResponse(session, register, 201);
+    } catch (error) {
+      return authErrorResponse(error);
+    }
+  }
+);
@@ -0,0 +1,32 @@
+/**
+ * Session API Endpoint
+ * Returns the current session so the client can restore it after a reload
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authSecurityHeaders } from '../../../../../lib/auth';
+import {
+  createSessionPayload,
+  getSessionToken,
+} from '../../../../../lib/session';
+
+function unauthenticated() {
+  return NextResponse.json(
+    { user: null },
+    { status: 401, headers: authSecurityHeaders }
+  );
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const accessToken = getSessionToken(request);
+
+  if (!accessToken) return unauthenticated();
+
+  try {
+    const session = await createSessionPayload({ accessToken });
+    return NextResponse.json(session, { headers: authSecurityHeaders });
+  } catch {
+    // Expired or revoked; the client decides whether to refresh
+    return unauthenticated();
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Two-Factor Login API Endpoint
+ * Completes a login that was paused for a TOTP or recovery code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { VERIFY_TWO_FACTOR_LOGIN } from '@/graphql/queries';
+import { FeatureFlagManager } from '@/lib/feature-flags';
+import {
+  AuthServiceError,
+  AuthTokens,
+  authErrorResponse,
+  clearTwoFactorChallenge,
+  createSessionPayload,
+  createSessionResponse,
+  getTwoFactorChallenge,
+  requestAuthService,
+} from '../../../../../lib/session';
+import { withRateLimit } from '../../../../../lib/rate-limit';
+
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+// Shares the login budget so codes cannot be brute-forced
+export const POST = withRateLimit(
+  'login',
+  async (request: NextRequest): Promise<NextResponse> => {
+    if (!FeatureFlagManager.isEnabled('ENABLE_TWO_FACTOR_AUTH')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    try {
+      const challengeToken = getTwoFactorChallenge(request);
+      if (!challengeToken) {
+        throw new AuthServiceError(
+          'Your sign-in attempt expired. Please sign in again.',
+          401
+        );
+      }
+
+      const parsed = twoFactorSchema.safeParse(
+        await request.json().catch(() => ({}))
+      );
+      if (!parsed.success) {
+        throw new AuthServiceError('Enter the code from your app', 400);
+      }
+
+      const { verifyTwoFactorLogin } = await requestAuthService<{
+        verifyTwoFactorLogin: AuthTokens;
+      }>(VERIFY_TWO_FACTOR_LOGIN, {
+        challengeToken,
+        code: parsed.data.code.replace(/\s/g, ''),
+      });
+      const session = await createSessionPayload(verifyTwoFactorLogin);
+
+      return clearTwoFactorChallenge(
+        createSessionResponse(session, verifyTwoFactorLogin)
+      );
+    } catch (error) {
+      return authErrorResponse(error);
+    }
+  }
+);
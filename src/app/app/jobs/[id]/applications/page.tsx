@@ -0,0 +1,408 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import Link from 'next/link';
+import { ArrowLeft, FileText, Mail } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ApplicationStatusBadge,
+  applicationStatusConfig,
+} from '@/components/application-status';
+import {
+  GET_JOB_APPLICATIONS,
+  GET_JOB_BY_ID,
+  UPDATE_APPLICATION_STATUS,
+} from '@/graphql/queries';
+import {
+  PIPELINE_STATUSES,
+  PipelineStatus,
+  getAdjacentStatus,
+  getResumeFileName,
+  groupApplicationsByStatus,
+} from '@/lib/applications';
+import { parseJobId } from '@/lib/jobs';
+import { cn } from '@/lib/utils';
+
+interface JobApplication {
+  id: number;
+  jobId: number;
+  status: string;
+  coverLetter: string | null;
+  resumeUrl: string | null;
+  appliedAt: string;
+  updatedAt: string;
+  reviewedAt: string | null;
+  applicant: {
+    id: number;
+    firstName: string | null;
+    lastName: string | null;
+    email: string;
+  };
+  [field: string]: unknown;
+}
+
+interface ApplicationPipelineProps {
+  params: { id: string };
+}
+
+const DRAG_TYPE = 'application/x-jobpay-application';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const getApplicantName = (applicant: JobApplication['applicant']) => {
+  return (
+    [applicant.firstName, applicant.lastName].filter(Boolean).join(' ') ||
+    applicant.email
+  );
+};
+
+export default function ApplicationPipelinePage({
+  params,
+}: ApplicationPipelineProps) {
+  const jobId = parseJobId(params.id);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<PipelineStatus | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  // Card to refocus after a keyboard move re-renders it in another column
+  const [focusId, setFocusId] = useState<number | null>(null);
+
+  const { data: jobData } = useQuery(GET_JOB_BY_ID, {
+    variables: { id: jobId },
+    skip: jobId === null,
+  });
+  const { loading, error, data, refetch } = useQuery(GET_JOB_APPLICATIONS, {
+    variables: { jobId },
+    skip: jobId === null,
+  });
+  const [updateApplicationStatus] = useMutation(UPDATE_APPLICATION_STATUS);
+
+  const applications: JobApplication[] = data?.jobApplications ?? [];
+  const columns = groupApplicationsByStatus(applications);
+  const selected = applications.find(({ id }) => id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (focusId === null) return;
+    const card = document.querySelector<HTMLElement>(
+      `[data-application-id="${focusId}"]`
+    );
+    if (card && card !== document.activeElement) {
+      card.focus();
+      setFocusId(null);
+    }
+  }, [focusId, data]);
+
+  // The card moves straight away; Apollo restores the previous status if
+  // the server rejects the change
+  const moveApplication = async (
+    application: JobApplication,
+    status: PipelineStatus
+  ) => {
+    if (application.status === status) return;
+
+    const name = getApplicantName(application.applicant);
+    const label = applicationStatusConfig[status].label;
+    const now = new Date().toISOString();
+    setUpdateError(null);
+    setAnnouncement(`Moved ${name} to ${label}`);
+
+    try {
+      await updateApplicationStatus({
+        variables: { input: { applicationId: application.id, status } },
+        optimisticResponse: {
+          updateApplicationStatus: {
+            ...application,
+            __typename: 'Application',
+            status,
+            updatedAt: now,
+            reviewedAt: application.reviewedAt ?? now,
+          },
+        },
+      });
+    } catch (err) {
+      console.error('Failed to update application status:', err);
+      setUpdateError(`Could not move ${name} to ${label}. Please try again.`);
+      setAnnouncement(`Could not move ${name}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: PipelineStatus) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const id = Number(e.dataTransfer.getData(DRAG_TYPE));
+    const application = applications.find((a) => a.id === id);
+    if (application) moveApplication(application, status);
+  };
+
+  const handleCardKeyDown = (
+    e: React.KeyboardEvent,
+    application: JobApplication
+  ) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      setSelectedId(application.id);
+      return;
+    }
+
+    const direction =
+      e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : null;
+    if (!direction) return;
+
+    e.preventDefault();
+    const target = getAdjacentStatus(application.status, direction);
+    if (!target) return;
+
+    setFocusId(application.id);
+    moveApplication(application, target);
+  };
+
+  const backLink = (
+    <Button variant="ghost" asChild className="mb-4">
+      <Link href="/app/jobs">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Back to My Jobs
+      </Link>
+    </Button>
+  );
+
+  if (jobId === null) {
+    return (
+      <div>
+        {backLink}
+        <p className="text-gray-600 dark:text-gray-400">Job not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        {backLink}
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Applicants
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          {jobData?.job?.title ?? 'Review candidates for this job'}
+        </p>
+      </div>
+
+      <p id="pipeline-instructions" className="sr-only">
+        Drag a candidate to another column, or focus it and press the left or
+        right arrow key to move it. Press Enter to see the application.
+      </p>
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {updateError && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {updateError}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : error ? (
+        <Card className="p-6 text-center">
+          <p className="text-red-600 dark:text-red-400">
+            Failed to load applications. Please try again.
+          </p>
+          <Button onClick={() => refetch()} className="mt-4">
+            Retry
+          </Button>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-5">
+          {PIPELINE_STATUSES.map((status) => {
+            const config = applicationStatusConfig[status];
+            return (
+              <section
+                key={status}
+                aria-label={config.label}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTarget(status);
+                }}
+                onDragLeave={(e) => {
+                  // Ignore moves between the column's own children
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                    setDropTarget(null);
+                  }
+                }}
+                onDrop={(e) => handleDrop(e, status)}
+                className={cn(
+                  'rounded-lg border-2 border-dashed border-transparent bg-gray-100 dark:bg-gray-800 p-3 min-h-[12rem]',
+                  dropTarget === status && 'border-blue-400 bg-blue-50'
+                )}
+              >
+                <h2 className="flex items-center justify-between mb-3 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  <span
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${config.color}`}
+                  >
+                    {config.icon}
+                    {config.label}
+                  </span>
+                  <span>{columns[status].length}</span>
+                </h2>
+                <ul className="space-y-2">
+                  {columns[status].map((application) => (
+                    <li key={application.id}>
+                      <Card
+                        role="button"
+                        tabIndex={0}
+                        data-application-id={application.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData(
+                            DRAG_TYPE,
+                            String(application.id)
+                          );
+                          e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        onClick={() => setSelectedId(application.id)}
+                        onKeyDown={(e) => handleCardKeyDown(e, application)}
+                        aria-describedby="pipeline-instructions"
+                        className="p-3 cursor-grab hover:shadow-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <p className="font-medium text-gray-900 dark:text-white truncate">
+                          {getApplicantName(application.applicant)}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Applied {formatDate(application.appliedAt)}
+                        </p>
+                        {application.resumeUrl && (
+                          <p className="flex items-center mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            <FileText className="w-3 h-3 mr-1" />
+                            Resume attached
+                          </p>
+                        )}
+                      </Card>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      )}
+
+      {!loading && !error && applications.length === 0 && (
+        <Card className="p-12 text-center">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            No applications yet
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Candidates will appear here as soon as they apply.
+          </p>
+        </Card>
+      )}
+
+      {/* Application side panel */}
+      <Dialog
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      >
+        <DialogContent className="left-auto right-0 top-0 h-full max-w-md translate-x-0 translate-y-0 content-start overflow-y-auto sm:rounded-none">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {getApplicantName(selected.applicant)}
+                </DialogTitle>
+                <DialogDescription className="flex items-center">
+                  <Mail className="w-4 h-4 mr-1" />
+                  <a
+                    href={`mailto:${selected.applicant.email}`}
+                    className="hover:underline"
+                  >
+                    {selected.applicant.email}
+                  </a>
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <ApplicationStatusBadge status={selected.status} />
+                <span>Applied {formatDate(selected.appliedAt)}</span>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Move to
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {PIPELINE_STATUSES.map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={
+                        selected.status === status ? 'default' : 'outline'
+                      }
+                      aria-pressed={selected.status === status}
+                      onClick={() => moveApplication(selected, status)}
+                    >
+                      {applicationStatusConfig[status].label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Resume
+                </h3>
+                {selected.resumeUrl ? (
+                  <a
+                    href={selected.resumeUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <FileText className="w-4 h-4 mr-1" />
+                    {getResumeFileName(selected.resumeUrl)}
+                  </a>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                    No resume attached.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Cover letter
+                </h3>
+                {selected.coverLetter ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed whitespace-pre-line">
+                    {selected.coverLetter}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                    No cover letter.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import { useRouter } from 'next/navigation';
+import type { Route } from 'next';
+import { Check, ChevronLeft, ChevronRight, Save } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Markdown } from '@/components/markdown';
+import { PermissionGate } from '@/components/permission-gate';
+import { SkillsInput } from '@/components/skills-input';
+import { useSession } from '@/components/session-provider';
+import { CREATE_JOB, GET_MY_JOBS } from '@/graphql/queries';
+import {
+  COMMON_SKILLS,
+  JOB_DESCRIPTION_MAX_LENGTH,
+  JOB_MAX_SKILLS,
+  JOB_TITLE_MAX_LENGTH,
+  JobPostingErrors,
+  JobPostingForm,
+  addJobToMyJobsCache,
+  clearJobPostingDraft,
+  emptyJobPostingForm,
+  jobPostingSchema,
+  loadJobPostingDraft,
+  saveJobPostingDraft,
+  toJobPostingInput,
+  validateJobPosting,
+} from '@/lib/jobs';
+import { cn } from '@/lib/utils';
+import type { Job } from '@/types';
+import { Permission } from '../../../../../lib/auth';
+
+const steps: { label: string; fields: (keyof JobPostingForm)[] }[] = [
+  { label: 'Title', fields: ['title'] },
+  { label: 'Description', fields: ['description'] },
+  { label: 'Budget & skills', fields: ['budget', 'skills'] },
+  { label: 'Preview', fields: [] },
+];
+
+const formatBudget = (budget: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(budget);
+};
+
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return (
+    <p
+      id={id}
+      role="alert"
+      className="mt-1 text-sm text-red-600 dark:text-red-400"
+    >
+      {message}
+    </p>
+  );
+}
+
+function PostJobWizard() {
+  const router = useRouter();
+  const { user } = useSession();
+  const userId = user?.id ?? null;
+  const [form, setForm] = useState<JobPostingForm>(emptyJobPostingForm);
+  const [step, setStep] = useState(0);
+  const [errors, setErrors] = useState<JobPostingErrors>({});
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+  const [previewDescription, setPreviewDescription] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Also primes the myJobs cache the new job is inserted into
+  const { data } = useQuery(GET_MY_JOBS);
+  const [createJob] = useMutation(CREATE_JOB);
+
+  const skillPool = useMemo(() => {
+    const myJobs: Job[] = data?.myJobs ?? [];
+    return [...myJobs.flatMap((job) => job.skills), ...COMMON_SKILLS];
+  }, [data]);
+
+  useEffect(() => {
+    const draft = userId ? loadJobPostingDraft(userId) : null;
+    if (!draft) return;
+
+    const { savedAt, ...saved } = draft;
+    setForm(saved);
+    setDraftSavedAt(savedAt || null);
+  }, [userId]);
+
+  const updateField = <K extends keyof JobPostingForm>(
+    field: K,
+    value: JobPostingForm[K]
+  ) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  // Shows the errors on the first invalid step; true when all fields pass
+  const checkSteps = (fields?: (keyof JobPostingForm)[]) => {
+    const stepErrors = validateJobPosting(form, fields);
+    if (Object.keys(stepErrors).length === 0) return true;
+
+    setErrors(stepErrors);
+    setStep(steps.findIndex((s) => s.fields.some((f) => stepErrors[f])));
+    return false;
+  };
+
+  const goToStep = (target: number) => {
+    // Moving forward requires every step in between to be valid
+    const fields = steps.slice(0, target).flatMap((s) => s.fields);
+    if (target > step && !checkSteps(fields)) return;
+
+    setErrors({});
+    setStep(target);
+  };
+
+  const handleSaveDraft = () => {
+    const saved = userId ? saveJobPostingDraft(userId, form) : null;
+    setDraftSavedAt(saved?.savedAt ?? null);
+    if (!saved) setSubmitError('Could not save your draft in this browser.');
+  };
+
+  const handleDiscardDraft = () => {
+    if (userId) clearJobPostingDraft(userId);
+    setForm(emptyJobPostingForm);
+    setDraftSavedAt(null);
+    setErrors({});
+    setStep(0);
+  };
+
+  const handlePublish = async () => {
+    const parsed = jobPostingSchema.safeParse(toJobPostingInput(form));
+    if (!parsed.success) {
+      checkSteps();
+      return;
+    }
+
+    setSubmitError(null);
+    setSubmitting(true);
+    try {
+      const { data } = await createJob({
+        variables: { input: parsed.data },
+        update: (cache, { data }) => {
+          if (data?.createJob) {
+            addJobToMyJobsCache(cache, data.createJob);
+          }
+        },
+      });
+
+      if (userId) clearJobPostingDraft(userId);
+      router.push(`/jobs/${data.createJob.id}` as Route);
+    } catch (err) {
+      setSubmitting(false);
+      console.error('Failed to create job:', err);
+      setSubmitError(
+        'Could not publish your job. Save it as a draft and try again.'
+      );
+    }
+  };
+
+  const budget = Number(form.budget);
+  const isLastStep = step === steps.length - 1;
+
+  return (
+    <div className="space-y-6">
+      {/* Step indicator */}
+      <ol className="flex flex-wrap gap-4">
+        {steps.map((s, index) => (
+          <li key={s.label}>
+            <button
+              type="button"
+              onClick={() => goToStep(index)}
+              aria-current={index === step ? 'step' : undefined}
+              className={cn(
+                'flex items-center text-sm font-medium',
+                index === step
+                  ? 'text-blue-600 dark:text-blue-400'
+                  : 'text-gray-500 dark:text-gray-400'
+              )}
+            >
+              <span
+                className={cn(
+                  'w-6 h-6 mr-2 rounded-full flex items-center justify-center border',
+                  index < step
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : index === step
+                      ? 'border-blue-600'
+                      : 'border-gray-300 dark:border-gray-600'
+                )}
+              >
+                {index < step ? <Check className="w-3 h-3" /> : index + 1}
+              </span>
+              {s.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <Card className="p-6">
+        {step === 0 && (
+          <div>
+            <label
+              htmlFor="job-title"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Job title
+            </label>
+            <Input
+              id="job-title"
+              value={form.title}
+              maxLength={JOB_TITLE_MAX_LENGTH}
+              onChange={(e) => updateField('title', e.target.value)}
+              placeholder="e.g. Senior React Developer for a fintech dashboard"
+              aria-invalid={Boolean(errors.title)}
+              aria-describedby="job-title-error"
+            />
+            <FieldError id="job-title-error" message={errors.title} />
+          </div>
+        )}
+
+        {step === 1 && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label
+                htmlFor="job-description"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Description
+              </label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setPreviewDescription((value) => !value)}
+              >
+                {previewDescription ? 'Edit' : 'Preview'}
+              </Button>
+            </div>
+            {previewDescription ? (
+              <div className="min-h-[16rem] rounded-md border border-input p-3">
+                {form.description.trim() ? (
+                  <Markdown>{form.description}</Markdown>
+                ) : (
+                  <p className="text-gray-500 dark:text-gray-400 italic">
+                    Nothing to preview yet.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <Textarea
+                id="job-description"
+                rows={12}
+                value={form.description}
+                onChange={(e) => updateField('description', e.target.value)}
+                placeholder="Describe the work, deliverables and timeline. Markdown is supported."
+                aria-invalid={Boolean(errors.description)}
+                aria-describedby="job-description-error"
+              />
+            )}
+            <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+              <span>Supports **bold**, _italic_, lists and links</span>
+              <span>
+                {form.description.length.toLocaleString()} /{' '}
+                {JOB_DESCRIPTION_MAX_LENGTH.toLocaleString()}
+              </span>
+            </div>
+            <FieldError
+              id="job-description-error"
+              message={errors.description}
+            />
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-5">
+            <div>
+              <label
+                htmlFor="job-budget"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Budget (₹)
+              </label>
+              <Input
+                id="job-budget"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                step={500}
+                value={form.budget}
+                onChange={(e) => updateField('budget', e.target.value)}
+                placeholder="50000"
+                aria-invalid={Boolean(errors.budget)}
+                aria-describedby="job-budget-error"
+              />
+              <FieldError id="job-budget-error" message={errors.budget} />
+            </div>
+            <div>
+              <label
+                htmlFor="job-skills"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Skills ({form.skills.length}/{JOB_MAX_SKILLS})
+              </label>
+              <SkillsInput
+                id="job-skills"
+                value={form.skills}
+                onChange={(skills) => updateField('skills', skills)}
+                suggestions={skillPool}
+                max={JOB_MAX_SKILLS}
+                invalid={Boolean(errors.skills)}
+                describedBy="job-skills-error"
+              />
+              <FieldError id="job-skills-error" message={errors.skills} />
+            </div>
+          </div>
+        )}
+
+        {isLastStep && (
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              This is how your job will appear to freelancers.
+            </p>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-3">
+              {form.title}
+            </h2>
+            <div className="flex flex-wrap gap-2 mb-6">
+              <span className="px-3 py-1 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded-full text-sm">
+                {Number.isFinite(budget) ? formatBudget(budget) : form.budget}
+              </span>
+              {form.skills.map((skill) => (
+                <span
+                  key={skill}
+                  className="px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full text-sm"
+                >
+                  {skill}
+                </span>
+              ))}
+            </div>
+            <Markdown>{form.description}</Markdown>
+          </div>
+        )}
+      </Card>
+
+      {submitError && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {submitError}
+        </p>
+      )}
+
+      <div className="flex flex-col-reverse sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+          <Button type="button" variant="outline" onClick={handleSaveDraft}>
+            <Save className="w-4 h-4 mr-2" />
+            Save as draft
+          </Button>
+          {draftSavedAt && (
+            <>
+              <span>
+                Draft saved {new Date(draftSavedAt).toLocaleString('en-IN')}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleDiscardDraft}
+              >
+                Discard
+              </Button>
+            </>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {step > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => goToStep(step - 1)}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Back
+            </Button>
+          )}
+          {isLastStep ? (
+            <Button type="button" onClick={handlePublish} disabled={submitting}>
+              {submitting ? 'Publishing...' : 'Publish job'}
+            </Button>
+          ) : (
+            <Button type="button" onClick={() => goToStep(step + 1)}>
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function PostJobPage() {
+  const { status } = useSession();
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Post a Job
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Describe the work and find the right freelancer
+        </p>
+      </div>
+
+      {status === 'loading' ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <PermissionGate
+          permission={Permission.CREATE_JOBS}
+          fallback={
+            <Card className="p-6">
+              <p className="text-gray-600 dark:text-gray-400">
+                Your account can&apos;t post jobs. Contact support if you think
+                this is a mistake.
+              </p>
+            </Card>
+          }
+        >
+          <PostJobWizard />
+        </PermissionGate>
+      )}
+    </div>
+  );
+}
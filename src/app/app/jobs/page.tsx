@@ -0,0 +1,383 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import Link from 'next/link';
+import type { Route } from 'next';
+import { Bookmark, Briefcase, Clock, Plus, Users } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { GET_MY_JOBS, UPDATE_JOB_STATUS } from '@/graphql/queries';
+import {
+  JOB_STATUS_STYLES,
+  JOB_STATUS_TRANSITIONS,
+  canTransitionJob,
+  getTransitionableJobs,
+} from '@/lib/jobs';
+import { useJobUpdates } from '@/lib/subscriptions';
+import { cn } from '@/lib/utils';
+import type { Job, JobStatus } from '@/types';
+
+type StatusFilter = JobStatus | 'ALL';
+
+interface PendingChange {
+  jobs: Job[];
+  status: JobStatus;
+}
+
+const statusFilters: StatusFilter[] = [
+  'ALL',
+  'OPEN',
+  'PAUSED',
+  'CLOSED',
+  'FILLED',
+];
+
+// Button label for moving a job into each status
+const transitionLabels: Record<JobStatus, string> = {
+  OPEN: 'Resume',
+  PAUSED: 'Pause',
+  CLOSED: 'Close',
+  FILLED: 'Mark filled',
+};
+
+// Closing and filling can't be undone, so they are confirmed first
+const confirmedStatuses: JobStatus[] = ['CLOSED', 'FILLED'];
+
+export default function MyJobsPage() {
+  const [filter, setFilter] = useState<StatusFilter>('ALL');
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(
+    null
+  );
+  const [updateError, setUpdateError] = useState<string | null>(null);
+
+  const { loading, error, data } = useQuery(GET_MY_JOBS);
+  const [updateJobStatus] = useMutation(UPDATE_JOB_STATUS);
+  // Keep job statuses current without refetching; the layout's
+  // notification center applies application updates to the cache
+  useJobUpdates();
+
+  const jobs: Job[] = useMemo(() => data?.myJobs ?? [], [data]);
+  const visibleJobs =
+    filter === 'ALL' ? jobs : jobs.filter((job) => job.status === filter);
+  const closableSelection = getTransitionableJobs(jobs, selectedIds, 'CLOSED');
+  const selectableIds = visibleJobs
+    .filter((job) => canTransitionJob(job.status, 'CLOSED'))
+    .map((job) => job.id);
+  const allSelected =
+    selectableIds.length > 0 &&
+    selectableIds.every((id) => selectedIds.has(id));
+
+  const formatBudget = (budget: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0,
+    }).format(budget);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const toggleSelected = (jobId: number) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(jobId)) {
+        next.delete(jobId);
+      } else {
+        next.add(jobId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(selectableIds));
+  };
+
+  // Each change shows immediately; Apollo drops the optimistic result and
+  // restores the cached status if the server rejects it
+  const changeStatus = async (targets: Job[], status: JobStatus) => {
+    setUpdateError(null);
+    const now = new Date().toISOString();
+
+    const results = await Promise.allSettled(
+      targets.map((job) =>
+        updateJobStatus({
+          variables: { id: job.id, status },
+          optimisticResponse: {
+            updateJobStatus: {
+              ...job,
+              __typename: 'Job',
+              status,
+              updatedAt: now,
+            },
+          },
+        })
+      )
+    );
+
+    const failed = results.filter((result) => result.status === 'rejected');
+    if (failed.length > 0) {
+      failed.forEach((result) =>
+        console.error(
+          'Failed to update job status:',
+          (result as PromiseRejectedResult).reason
+        )
+      );
+      setUpdateError(
+        targets.length === 1
+          ? `Could not update "${targets[0].title}". Its previous status has been restored.`
+          : `Could not update ${failed.length} of ${targets.length} jobs. Their previous status has been restored.`
+      );
+    }
+
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      targets.forEach((job) => next.delete(job.id));
+      return next;
+    });
+  };
+
+  const requestChange = (targets: Job[], status: JobStatus) => {
+    if (targets.length === 0) return;
+    if (confirmedStatuses.includes(status)) {
+      setPendingChange({ jobs: targets, status });
+    } else {
+      changeStatus(targets, status);
+    }
+  };
+
+  const renderConfirmDescription = (change: PendingChange) => {
+    const subject =
+      change.jobs.length === 1
+        ? `"${change.jobs[0].title}"`
+        : `${change.jobs.length} jobs`;
+    return change.status === 'FILLED'
+      ? `${subject} will be marked as filled and stop accepting applications. This can't be undone.`
+      : `${subject} will be closed and stop accepting applications. This can't be undone.`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-red-600 dark:text-red-400">
+        Error loading your jobs: {error.message}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            My Jobs
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Manage your postings and their applications
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/app/jobs/new">
+            <Plus className="w-4 h-4 mr-2" />
+            Post a Job
+          </Link>
+        </Button>
+      </div>
+
+      {jobs.length === 0 ? (
+        <Card className="p-12 text-center">
+          <Briefcase className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            You haven&apos;t posted any jobs yet
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            Post your first job to start receiving applications.
+          </p>
+          <Button asChild>
+            <Link href="/app/jobs/new">Post a Job</Link>
+          </Button>
+        </Card>
+      ) : (
+        <>
+          {/* Status filter */}
+          <div className="flex flex-wrap gap-2">
+            {statusFilters.map((status) => {
+              const count =
+                status === 'ALL'
+                  ? jobs.length
+                  : jobs.filter((job) => job.status === status).length;
+              return (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={filter === status ? 'default' : 'outline'}
+                  onClick={() => setFilter(status)}
+                >
+                  {status === 'ALL' ? 'All' : status} ({count})
+                </Button>
+              );
+            })}
+          </div>
+
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                disabled={selectableIds.length === 0}
+                onChange={toggleAll}
+              />
+              Select all
+            </label>
+            {selectedIds.size > 0 && (
+              <>
+                <span>{selectedIds.size} selected</span>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={closableSelection.length === 0}
+                  onClick={() => requestChange(closableSelection, 'CLOSED')}
+                >
+                  Close selected
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setSelectedIds(new Set())}
+                >
+                  Clear selection
+                </Button>
+              </>
+            )}
+          </div>
+
+          {updateError && (
+            <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+              {updateError}
+            </p>
+          )}
+
+          {visibleJobs.length === 0 ? (
+            <Card className="p-8 text-center text-gray-600 dark:text-gray-400">
+              No {filter.toLowerCase()} jobs.
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {visibleJobs.map((job) => {
+                const transitions = JOB_STATUS_TRANSITIONS[job.status] ?? [];
+                return (
+                  <Card key={job.id} className="p-6">
+                    <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+                      <input
+                        type="checkbox"
+                        className="self-start mt-1.5"
+                        checked={selectedIds.has(job.id)}
+                        disabled={!canTransitionJob(job.status, 'CLOSED')}
+                        onChange={() => toggleSelected(job.id)}
+                        aria-label={`Select ${job.title}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          <Link
+                            href={`/jobs/${job.id}` as Route}
+                            className="text-lg font-semibold text-gray-900 dark:text-white hover:text-blue-600 truncate"
+                          >
+                            {job.title}
+                          </Link>
+                          <span
+                            className={cn(
+                              'px-2 py-0.5 rounded-full text-xs',
+                              JOB_STATUS_STYLES[job.status] ??
+                                JOB_STATUS_STYLES.CLOSED
+                            )}
+                          >
+                            {job.status}
+                          </span>
+                        </div>
+                        <div className="flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-400">
+                          <span>{formatBudget(job.budget)}</span>
+                          <span className="flex items-center">
+                            <Users className="w-4 h-4 mr-1" />
+                            {job.applicationCount} applications
+                          </span>
+                          <span className="flex items-center">
+                            <Bookmark className="w-4 h-4 mr-1" />
+                            {job.bookmarkCount} saved
+                          </span>
+                          <span className="flex items-center">
+                            <Clock className="w-4 h-4 mr-1" />
+                            Posted {formatDate(job.createdAt)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button size="sm" variant="outline" asChild>
+                          <Link
+                            href={`/app/jobs/${job.id}/applications` as Route}
+                          >
+                            Review applicants
+                          </Link>
+                        </Button>
+                        {transitions.map((status) => (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant={
+                              confirmedStatuses.includes(status)
+                                ? 'outline'
+                                : 'secondary'
+                            }
+                            onClick={() => requestChange([job], status)}
+                          >
+                            {transitionLabels[status]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {pendingChange && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setPendingChange(null)}
+          title={
+            pendingChange.status === 'FILLED'
+              ? 'Mark as filled?'
+              : pendingChange.jobs.length === 1
+                ? 'Close this job?'
+                : `Close ${pendingChange.jobs.length} jobs?`
+          }
+          description={renderConfirmDescription(pendingChange)}
+          confirmLabel={transitionLabels[pendingChange.status]}
+          destructive
+          onConfirm={() =>
+            changeStatus(pendingChange.jobs, pendingChange.status)
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
 import { Metadata } from 'next';
+import { NotificationCenter } from '@/components/notification-center';
+import { PermissionGate } from '@/components/permission-gate';
+import { UserMenu } from '@/components/user-menu';
+import { Permission } from '../../../lib/auth';
 
 export const metadata: Metadata = {
   title: 'Dashboard - JobPay',
@@ -35,39 +39,19 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
                 >
                   Applications
                 </a>
+                <PermissionGate permission={Permission.CREATE_JOBS}>
+                  <a
+                    href="/app/jobs"
+                    className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+                  >
+                    My Jobs
+                  </a>
+                </PermissionGate>
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <button className="p-2 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white">
-                <svg
-                  className="w-5 h-5"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 17h5l-5 5v-5z"
-                  />
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 7h6l-6-6v6z"
-                  />
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 7h5l-5-5v5z"
-                  />
-                </svg>
-              </button>
-              <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-                <span className="text-white text-sm font-medium">JD</span>
-              </div>
+              <NotificationCenter />
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -1,122 +1,282 @@
 'use client';
 
+import { useQuery } from '@apollo/client';
+import Link from 'next/link';
+import { Bookmark, Send } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import {
+  ApplicationStatusBadge,
+  applicationStatusConfig,
+} from '@/components/application-status';
+import { useSession } from '@/components/session-provider';
+import { GET_MY_APPLICATIONS, GET_MY_BOOKMARKS } from '@/graphql/queries';
+import {
+  ActivityItem,
+  DashboardApplication,
+  DashboardBookmark,
+  TREND_WINDOW_DAYS,
+  Trend,
+  formatTrend,
+  getDashboardStats,
+  getRecentActivity,
+} from '@/lib/dashboard';
+import { formatNotificationTime } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+
+const trendStyles = {
+  up: 'text-green-600 dark:text-green-400',
+  down: 'text-red-600 dark:text-red-400',
+  flat: 'text-gray-500 dark:text-gray-400',
+};
+
+function describeActivity(item: ActivityItem) {
+  switch (item.kind) {
+    case 'applied':
+      return 'You applied';
+    case 'bookmarked':
+      return 'You saved this job';
+    case 'status':
+      return `Moved to ${applicationStatusConfig[item.status]?.label ?? item.status}`;
+  }
+}
 
 export default function AppDashboard() {
-  const stats = [
-    { label: 'Applications Sent', value: '23', change: '+12%' },
-    { label: 'Interviews Scheduled', value: '5', change: '+25%' },
-    { label: 'Job Offers', value: '2', change: '+100%' },
-    { label: 'Response Rate', value: '68%', change: '+8%' },
-  ];
+  const { user } = useSession();
+  const applicationsQuery = useQuery(GET_MY_APPLICATIONS);
+  const bookmarksQuery = useQuery(GET_MY_BOOKMARKS);
+
+  const applications: DashboardApplication[] =
+    applicationsQuery.data?.myApplications || [];
+  const bookmarks: DashboardBookmark[] = bookmarksQuery.data?.myBookmarks || [];
 
-  const recentApplications = [
+  const loading =
+    (applicationsQuery.loading && !applicationsQuery.data) ||
+    (bookmarksQuery.loading && !bookmarksQuery.data);
+  const error = applicationsQuery.error || bookmarksQuery.error;
+  const isEmpty = applications.length === 0 && bookmarks.length === 0;
+
+  const stats = getDashboardStats(applications, bookmarks);
+  const recentActivity = getRecentActivity(applications, bookmarks);
+  const bookmarksTrend = formatTrend(stats.bookmarks.trend);
+  const firstName = user?.name.split(' ')[0];
+
+  const statCards: {
+    label: string;
+    value: string;
+    trend: Trend | null;
+    unit?: 'percent' | 'points';
+  }[] = [
+    {
+      label: 'Applications Sent',
+      value: String(stats.applications.total),
+      trend: stats.applications.trend,
+    },
     {
-      company: 'Google',
-      position: 'Frontend Developer',
-      status: 'Interview',
-      date: '2 days ago',
+      label: 'Interviews',
+      value: String(stats.interviews.total),
+      trend: stats.interviews.trend,
     },
     {
-      company: 'Microsoft',
-      position: 'React Developer',
-      status: 'Applied',
-      date: '5 days ago',
+      label: 'Job Offers',
+      value: String(stats.offers.total),
+      trend: stats.offers.trend,
     },
     {
-      company: 'Netflix',
-      position: 'UI Engineer',
-      status: 'Offer',
-      date: '1 week ago',
+      label: 'Response Rate',
+      value:
+        stats.responseRate.value === null
+          ? '—'
+          : `${stats.responseRate.value}%`,
+      trend: stats.responseRate.trend,
+      unit: 'points',
     },
   ];
 
+  const retry = () => {
+    applicationsQuery.refetch();
+    bookmarksQuery.refetch();
+  };
+
   return (
     <div className="space-y-8">
       <div>
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-          Welcome back, John!
+          {firstName ? `Welcome back, ${firstName}!` : 'Welcome back!'}
         </h1>
         <p className="text-gray-600 dark:text-gray-400">
           Here&apos;s an overview of your job search progress.
         </p>
       </div>
 
-      {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {stats.map((stat, index) => (
-          <div key={stat.label}>
-            <Card className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
+      {/* Loading State */}
+      {loading && (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {/* Error State */}
+      {!loading && error && (
+        <Card className="p-6 text-center">
+          <p className="text-red-600 dark:text-red-400">
+            Failed to load your dashboard. Please try again.
+          </p>
+          <Button onClick={retry} className="mt-4">
+            Retry
+          </Button>
+        </Card>
+      )}
+
+      {/* Empty State */}
+      {!loading && !error && isEmpty && (
+        <Card className="p-12 text-center">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Start Your Job Search
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            Apply to jobs or save the ones you like and your progress will show
+            up here.
+          </p>
+          <Button asChild>
+            <Link href="/jobs">Browse Jobs</Link>
+          </Button>
+        </Card>
+      )}
+
+      {!loading && !error && !isEmpty && (
+        <>
+          {/* Stats Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {statCards.map((stat) => {
+              const trend = stat.trend && formatTrend(stat.trend, stat.unit);
+
+              return (
+                <Card key={stat.label} className="p-6">
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">
                     {stat.label}
                   </p>
-                  <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    {stat.value}
-                  </p>
-                </div>
-                <span className="text-sm font-medium text-green-600 dark:text-green-400">
-                  {stat.change}
-                </span>
+                  <div className="flex items-baseline justify-between">
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {stat.value}
+                    </p>
+                    {trend && (
+                      <span
+                        className={cn(
+                          'text-sm font-medium',
+                          trendStyles[trend.direction]
+                        )}
+                        title={`Last ${TREND_WINDOW_DAYS} days against the ${TREND_WINDOW_DAYS} days before`}
+                      >
+                        {trend.label}
+                      </span>
+                    )}
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Recent Activity */}
+            <Card className="p-6 lg:col-span-2">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                  Recent Activity
+                </h2>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/applications">View All</Link>
+                </Button>
               </div>
+              <ul className="space-y-4">
+                {recentActivity.map((item) => (
+                  <li
+                    key={item.id}
+                    className="flex items-center justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg"
+                  >
+                    <div className="flex items-center space-x-4 min-w-0">
+                      <div className="w-10 h-10 shrink-0 bg-blue-100 dark:bg-blue-900 rounded-lg flex items-center justify-center text-blue-600 dark:text-blue-400">
+                        {item.kind === 'bookmarked' ? (
+                          <Bookmark className="w-5 h-5" />
+                        ) : (
+                          <Send className="w-5 h-5" />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <Link
+                          href={`/jobs/${item.jobId}`}
+                          className="block font-medium text-gray-900 dark:text-white hover:text-blue-600 truncate"
+                        >
+                          {item.title}
+                        </Link>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {describeActivity(item)}
+                        </p>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 shrink-0">
+                      {formatNotificationTime(item.timestamp)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
             </Card>
-          </div>
-        ))}
-      </div>
 
-      {/* Recent Applications */}
-      <Card className="p-6">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-            Recent Applications
-          </h2>
-          <Button variant="outline" size="sm">
-            View All
-          </Button>
-        </div>
-        <div className="space-y-4">
-          {recentApplications.map((app, index) => (
-            <div
-              key={index}
-              className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg"
-            >
-              <div className="flex items-center space-x-4">
-                <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900 rounded-lg flex items-center justify-center">
-                  <span className="text-blue-600 dark:text-blue-400 font-medium text-sm">
-                    {app.company.charAt(0)}
-                  </span>
-                </div>
-                <div>
-                  <p className="font-medium text-gray-900 dark:text-white">
-                    {app.position}
+            <div className="space-y-6">
+              {/* Applications by Status */}
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  By Status
+                </h2>
+                {applications.length === 0 ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    You haven&apos;t applied to any jobs yet.
                   </p>
+                ) : (
+                  <ul className="space-y-3">
+                    {Object.keys(applicationStatusConfig)
+                      .filter((status) => stats.byStatus[status])
+                      .map((status) => (
+                        <li
+                          key={status}
+                          className="flex items-center justify-between"
+                        >
+                          <ApplicationStatusBadge status={status} />
+                          <span className="font-medium text-gray-900 dark:text-white">
+                            {stats.byStatus[status]}
+                          </span>
+                        </li>
+                      ))}
+                  </ul>
+                )}
+              </Card>
+
+              {/* Saved Jobs */}
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-1">
                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {app.company}
+                    Saved Jobs
                   </p>
+                  <span
+                    className={cn(
+                      'text-sm font-medium',
+                      trendStyles[bookmarksTrend.direction]
+                    )}
+                  >
+                    {bookmarksTrend.label}
+                  </span>
                 </div>
-              </div>
-              <div className="text-right">
-                <span
-                  className={`px-2 py-1 rounded-full text-xs font-medium ${
-                    app.status === 'Offer'
-                      ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                      : app.status === 'Interview'
-                        ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                        : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
-                  }`}
-                >
-                  {app.status}
-                </span>
-                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                  {app.date}
+                <p className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+                  {stats.bookmarks.total}
                 </p>
-              </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/bookmarks">View Saved Jobs</Link>
+                </Button>
+              </Card>
             </div>
-          ))}
-        </div>
-      </Card>
+          </div>
+        </>
+      )}
     </div>
   );
 }
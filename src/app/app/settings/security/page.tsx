@@ -0,0 +1,363 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RecoveryCodes } from '@/components/recovery-codes';
+import { useSession } from '@/components/session-provider';
+import {
+  DISABLE_TWO_FACTOR,
+  ENABLE_TWO_FACTOR,
+  GET_TWO_FACTOR_STATUS,
+  REGENERATE_RECOVERY_CODES,
+  SETUP_TWO_FACTOR,
+} from '@/graphql/queries';
+import { FeatureGate } from '@/lib/feature-flags';
+import { buildOtpAuthUri, formatSecret, verifyTotp } from '@/lib/totp';
+import type { TwoFactorStatus } from '@/types';
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+type PendingAction = 'regenerate' | 'disable';
+
+function CodeInput({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Input
+      id={id}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={6}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+      placeholder="123456"
+      className="tracking-widest max-w-[10rem]"
+    />
+  );
+}
+
+function EnrollTwoFactor({ onEnabled }: { onEnabled: () => void }) {
+  const { user } = useSession();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const [setupTwoFactor, { loading: starting }] = useMutation(SETUP_TWO_FACTOR);
+  const [enableTwoFactor, { loading: enabling }] =
+    useMutation(ENABLE_TWO_FACTOR);
+
+  useEffect(() => {
+    if (!enrollment) return;
+
+    QRCode.toDataURL(enrollment.otpauthUrl, { margin: 1, width: 200 })
+      .then(setQrCode)
+      .catch((err) => console.error('Failed to render QR code:', err));
+  }, [enrollment]);
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      const { data } = await setupTwoFactor();
+      const { secret, otpauthUrl } = data.setupTwoFactor;
+      setEnrollment({
+        secret,
+        otpauthUrl:
+          otpauthUrl ||
+          buildOtpAuthUri({ secret, accountName: user?.email ?? 'account' }),
+      });
+    } catch (err) {
+      console.error('Failed to start two-factor setup:', err);
+      setError('Could not start setup. Please try again.');
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+    setError(null);
+
+    // Catch typos and clock drift before asking the API
+    if (!(await verifyTotp(enrollment.secret, code))) {
+      setError(
+        "That code doesn't match. Check that your device's clock is correct."
+      );
+      return;
+    }
+
+    try {
+      const { data } = await enableTwoFactor({ variables: { code } });
+      setRecoveryCodes(data.enableTwoFactor.recoveryCodes);
+    } catch (err) {
+      console.error('Failed to enable two-factor authentication:', err);
+      setError('Could not verify the code. Please try again.');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="font-medium text-green-700 dark:text-green-400">
+          Two-factor authentication is on.
+        </p>
+        <RecoveryCodes codes={recoveryCodes} onDone={onEnabled} />
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Protect your account with a code from an authenticator app such as
+          Google Authenticator, 1Password or Authy whenever you sign in.
+        </p>
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+        <Button onClick={handleStart} disabled={starting}>
+          {starting ? 'Starting...' : 'Set up two-factor authentication'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-6">
+      <div>
+        <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+          1. Scan this QR code with your authenticator app
+        </p>
+        {qrCode ? (
+          <Image
+            src={qrCode}
+            alt="QR code for your authenticator app"
+            width={200}
+            height={200}
+            unoptimized
+            className="rounded-md border bg-white"
+          />
+        ) : (
+          <div className="w-[200px] h-[200px] rounded-md bg-gray-200 dark:bg-gray-700 animate-pulse" />
+        )}
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-3">
+          Can&apos;t scan it? Enter this key manually:
+        </p>
+        <code className="block mt-1 font-mono text-sm text-gray-900 dark:text-white break-all">
+          {formatSecret(enrollment.secret)}
+        </code>
+      </div>
+
+      <div>
+        <label
+          htmlFor="enroll-code"
+          className="block text-sm font-medium text-gray-900 dark:text-white mb-2"
+        >
+          2. Enter the 6-digit code it shows
+        </label>
+        <CodeInput id="enroll-code" value={code} onChange={setCode} />
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" disabled={enabling || code.length !== 6}>
+        {enabling ? 'Verifying...' : 'Turn on'}
+      </Button>
+    </form>
+  );
+}
+
+function ManageTwoFactor({
+  status,
+  onChange,
+}: {
+  status: TwoFactorStatus;
+  onChange: () => void;
+}) {
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const [regenerateCodes, { loading: regenerating }] = useMutation(
+    REGENERATE_RECOVERY_CODES
+  );
+  const [disableTwoFactor, { loading: disabling }] =
+    useMutation(DISABLE_TWO_FACTOR);
+
+  const startAction = (action: PendingAction) => {
+    setPending(action);
+    setCode('');
+    setError(null);
+    setRecoveryCodes(null);
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      if (pending === 'regenerate') {
+        const { data } = await regenerateCodes({ variables: { code } });
+        setRecoveryCodes(data.regenerateRecoveryCodes.recoveryCodes);
+        setPending(null);
+        onChange();
+      } else if (pending === 'disable') {
+        await disableTwoFactor({ variables: { code } });
+        setPending(null);
+        onChange();
+      }
+    } catch (err) {
+      console.error('Failed to update two-factor authentication:', err);
+      setError('That code was not accepted. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center text-green-700 dark:text-green-400">
+        <ShieldCheck className="w-5 h-5 mr-2" />
+        <span className="font-medium">Two-factor authentication is on</span>
+      </div>
+
+      {recoveryCodes ? (
+        <RecoveryCodes
+          codes={recoveryCodes}
+          onDone={() => setRecoveryCodes(null)}
+        />
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {status.recoveryCodesRemaining} recovery{' '}
+          {status.recoveryCodesRemaining === 1 ? 'code' : 'codes'} remaining.
+        </p>
+      )}
+
+      {pending ? (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <label
+            htmlFor="confirm-code"
+            className="block text-sm font-medium text-gray-900 dark:text-white"
+          >
+            {pending === 'disable'
+              ? 'Enter a code from your authenticator app to turn off two-factor authentication'
+              : 'Enter a code from your authenticator app to replace your recovery codes'}
+          </label>
+          <CodeInput id="confirm-code" value={code} onChange={setCode} />
+          {error && (
+            <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+              {error}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              variant={pending === 'disable' ? 'destructive' : 'default'}
+              disabled={regenerating || disabling || code.length !== 6}
+            >
+              {pending === 'disable' ? 'Turn off' : 'Regenerate codes'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setPending(null)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => startAction('regenerate')}>
+            Regenerate recovery codes
+          </Button>
+          <Button variant="outline" onClick={() => startAction('disable')}>
+            <ShieldOff className="w-4 h-4 mr-2" />
+            Turn off two-factor authentication
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TwoFactorSettings() {
+  const { loading, error, data, refetch } = useQuery(GET_TWO_FACTOR_STATUS);
+  const status: TwoFactorStatus | undefined = data?.twoFactorStatus;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !status) {
+    return (
+      <p className="text-red-600 dark:text-red-400">
+        Error loading two-factor settings: {error?.message ?? 'Unknown error'}
+      </p>
+    );
+  }
+
+  return status.enabled ? (
+    <ManageTwoFactor status={status} onChange={() => refetch()} />
+  ) : (
+    <EnrollTwoFactor onEnabled={() => refetch()} />
+  );
+}
+
+export default function SecuritySettingsPage() {
+  return (
+    <div className="max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Security
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Manage how you sign in to JobPay
+        </p>
+      </div>
+
+      <FeatureGate
+        flag="ENABLE_TWO_FACTOR_AUTH"
+        fallback={
+          <Card className="p-6">
+            <p className="text-gray-600 dark:text-gray-400">
+              Two-factor authentication is not available yet.
+            </p>
+          </Card>
+        }
+      >
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Two-factor authentication
+          </h2>
+          <TwoFactorSettings />
+        </Card>
+      </FeatureGate>
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
 'use client';
 
-import { useQuery, useMutation } from '@apollo/client';
+import { useState } from 'react';
+import { useQuery } from '@apollo/client';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { GET_MY_APPLICATIONS, WITHDRAW_APPLICATION } from '@/graphql/queries';
+import { ApplicationStatusBadge } from '@/components/application-status';
+import { PendingSyncBadge } from '@/components/pending-sync-badge';
+import { useSession } from '@/components/session-provider';
+import { GET_MY_APPLICATIONS } from '@/graphql/queries';
+import { useWithdrawalQueue } from '@/lib/bookmark-queue';
+import { useMyApplicationUpdates } from '@/lib/subscriptions';
 import Link from 'next/link';
-import { Clock, CheckCircle, XCircle, AlertCircle, ArrowLeft } from 'lucide-react';
+import { ArrowLeft } from 'lucide-react';
 
 interface Application {
   id: number;
@@ -26,53 +32,28 @@ interface Application {
   };
 }
 
-const statusConfig: Record<string, { color: string; icon: React.ReactNode; label: string }> = {
-  PENDING: {
-    color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-    icon: <Clock className="w-4 h-4" />,
-    label: 'Pending Review',
-  },
-  REVIEWED: {
-    color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-    icon: <AlertCircle className="w-4 h-4" />,
-    label: 'Under Review',
-  },
-  SHORTLISTED: {
-    color: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-    icon: <CheckCircle className="w-4 h-4" />,
-    label: 'Shortlisted',
-  },
-  ACCEPTED: {
-    color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-    icon: <CheckCircle className="w-4 h-4" />,
-    label: 'Accepted',
-  },
-  REJECTED: {
-    color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-    icon: <XCircle className="w-4 h-4" />,
-    label: 'Rejected',
-  },
-  WITHDRAWN: {
-    color: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
-    icon: <XCircle className="w-4 h-4" />,
-    label: 'Withdrawn',
-  },
-};
-
 export default function MyApplicationsPage() {
+  const { user } = useSession();
   const { loading, error, data, refetch } = useQuery(GET_MY_APPLICATIONS);
-  const [withdrawApplication, { loading: withdrawing }] = useMutation(WITHDRAW_APPLICATION, {
-    onCompleted: () => refetch(),
-  });
+  // Withdrawals and employer status changes update the cached applications.
+  // Withdrawals made offline wait in the queue until the connection is back.
+  const { pending: pendingWithdrawals, withdraw } = useWithdrawalQueue(
+    user?.id ?? null
+  );
+  const [withdrawing, setWithdrawing] = useState(false);
+  useMyApplicationUpdates();
 
   const applications: Application[] = data?.myApplications || [];
 
   const handleWithdraw = async (applicationId: number) => {
     if (confirm('Are you sure you want to withdraw this application?')) {
+      setWithdrawing(true);
       try {
-        await withdrawApplication({ variables: { applicationId } });
+        await withdraw(applicationId);
       } catch (err) {
         console.error('Failed to withdraw:', err);
+      } finally {
+        setWithdrawing(false);
       }
     }
   };
@@ -138,8 +119,6 @@ export default function MyApplicationsPage() {
         {/* Applications List */}
         <div className="space-y-4">
           {applications.map((application) => {
-            const status = statusConfig[application.status] || statusConfig.PENDING;
-
             return (
               <Card key={application.id} className="p-6">
                 <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
@@ -152,25 +131,31 @@ export default function MyApplicationsPage() {
                           </h2>
                         </Link>
                         <p className="text-gray-600 dark:text-gray-400">
-                          {application.job.poster.firstName} {application.job.poster.lastName}
+                          {application.job.poster.firstName}{' '}
+                          {application.job.poster.lastName}
                         </p>
                       </div>
-                      <span className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm ${status.color}`}>
-                        {status.icon}
-                        {status.label}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        {pendingWithdrawals.has(application.id) && (
+                          <PendingSyncBadge />
+                        )}
+                        <ApplicationStatusBadge status={application.status} />
+                      </div>
                     </div>
 
                     <div className="flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-400">
                       <span>
-                        Budget: <strong>{formatBudget(application.job.budget)}</strong>
+                        Budget:{' '}
+                        <strong>{formatBudget(application.job.budget)}</strong>
                       </span>
                       <span>
-                        Applied: <strong>{formatDate(application.appliedAt)}</strong>
+                        Applied:{' '}
+                        <strong>{formatDate(application.appliedAt)}</strong>
                       </span>
                       {application.reviewedAt && (
                         <span>
-                          Reviewed: <strong>{formatDate(application.reviewedAt)}</strong>
+                          Reviewed:{' '}
+                          <strong>{formatDate(application.reviewedAt)}</strong>
                         </span>
                       )}
                     </div>
@@ -178,7 +163,8 @@ export default function MyApplicationsPage() {
                     {application.coverLetter && (
                       <div className="mt-3">
                         <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-                          <span className="font-medium">Cover Letter:</span> {application.coverLetter}
+                          <span className="font-medium">Cover Letter:</span>{' '}
+                          {application.coverLetter}
                         </p>
                       </div>
                     )}
@@ -188,16 +174,17 @@ export default function MyApplicationsPage() {
                     <Button variant="outline" asChild>
                       <Link href={`/jobs/${application.job.id}`}>View Job</Link>
                     </Button>
-                    {canWithdraw(application.status) && (
-                      <Button
-                        variant="outline"
-                        onClick={() => handleWithdraw(application.id)}
-                        disabled={withdrawing}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        Withdraw
-                      </Button>
-                    )}
+                    {canWithdraw(application.status) &&
+                      !pendingWithdrawals.has(application.id) && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleWithdraw(application.id)}
+                          disabled={withdrawing}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          Withdraw
+                        </Button>
+                      )}
                   </div>
                 </div>
               </Card>
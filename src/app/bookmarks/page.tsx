@@ -1,44 +1,81 @@
 'use client';
 
-import { useQuery, useMutation } from '@apollo/client';
+import { useState } from 'react';
+import { useQuery } from '@apollo/client';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { GET_MY_BOOKMARKS, TOGGLE_BOOKMARK } from '@/graphql/queries';
+import { BookmarkDetailsDialog } from '@/components/bookmark-details-dialog';
+import { CompareButton, CompareTray } from '@/components/compare-tray';
+import { PendingSyncBadge } from '@/components/pending-sync-badge';
+import { useSession } from '@/components/session-provider';
+import { GET_MY_BOOKMARKS } from '@/graphql/queries';
+import {
+  BOOKMARK_SORT_OPTIONS,
+  BookmarkDetails,
+  BookmarkSort,
+  BookmarkView,
+  NO_COLLECTION,
+  emptyBookmarkDetails,
+  getBookmarkCollections,
+  isReminderDue,
+  organizeBookmarks,
+  useBookmarkDetails,
+} from '@/lib/bookmark-details';
+import { useBookmarkQueue } from '@/lib/bookmark-queue';
+import type { MyBookmark } from '@/lib/bookmarks';
+import { cn } from '@/lib/utils';
 import Link from 'next/link';
-import { ArrowLeft, Trash2, Bookmark } from 'lucide-react';
-
-interface BookmarkedJob {
-  id: number;
-  jobId: number;
-  createdAt: string;
-  job: {
-    id: number;
-    title: string;
-    description: string | null;
-    budget: number;
-    status: string;
-    skills: string[];
-    applicationCount: number;
-    poster: {
-      firstName: string | null;
-      lastName: string | null;
-    };
-  };
-}
+import {
+  ArrowLeft,
+  Bell,
+  Bookmark,
+  FolderOpen,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
 
 export default function BookmarksPage() {
-  const { loading, error, data, refetch } = useQuery(GET_MY_BOOKMARKS);
-  const [toggleBookmark, { loading: removing }] = useMutation(TOGGLE_BOOKMARK, {
-    onCompleted: () => refetch(),
+  const { user } = useSession();
+  // Bookmarks added elsewhere reach the cached list only when their job is
+  // cached too, so check with the server on every visit
+  const { loading, error, data, refetch } = useQuery(GET_MY_BOOKMARKS, {
+    fetchPolicy: 'cache-and-network',
+  });
+  const { pending, setBookmarked } = useBookmarkQueue(user?.id ?? null);
+  const { details, saveDetails, storedLocally } = useBookmarkDetails(
+    user?.id ?? null
+  );
+  const [removingId, setRemovingId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<MyBookmark | null>(null);
+  const [view, setView] = useState<BookmarkView>({
+    collection: null,
+    sort: 'SAVED_NEWEST',
   });
 
-  const bookmarks: BookmarkedJob[] = data?.myBookmarks || [];
+  const bookmarks: MyBookmark[] = data?.myBookmarks || [];
+  // Details kept for jobs that have since been unbookmarked are ignored
+  const bookmarkDetails = new Map(
+    bookmarks.map((bookmark): [number, BookmarkDetails] => [
+      bookmark.jobId,
+      details.get(bookmark.jobId) ?? emptyBookmarkDetails,
+    ])
+  );
+  const collections = getBookmarkCollections(bookmarkDetails);
+  const visibleBookmarks = organizeBookmarks(bookmarks, bookmarkDetails, view);
+  const collectionFilters: { value: string | null; label: string }[] = [
+    { value: null, label: 'All' },
+    ...collections.map((name) => ({ value: name, label: name })),
+    { value: NO_COLLECTION, label: 'No collection' },
+  ];
 
   const handleRemove = async (jobId: number) => {
+    setRemovingId(jobId);
     try {
-      await toggleBookmark({ variables: { jobId } });
+      await setBookmarked(jobId, false);
     } catch (err) {
       console.error('Failed to remove bookmark:', err);
+    } finally {
+      setRemovingId(null);
     }
   };
 
@@ -50,6 +87,9 @@ export default function BookmarksPage() {
     });
   };
 
+  // Reminder dates are calendar dates, so read them as local midnight
+  const formatReminder = (remindAt: string) => formatDate(`${remindAt}T00:00`);
+
   const formatBudget = (budget: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -77,8 +117,63 @@ export default function BookmarksPage() {
           </p>
         </div>
 
+        {/* Collections and Sort */}
+        {bookmarks.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex flex-wrap gap-2">
+              {collections.length > 0 &&
+                collectionFilters.map((option) => (
+                  <button
+                    key={option.value ?? 'all'}
+                    onClick={() =>
+                      setView({ ...view, collection: option.value })
+                    }
+                    aria-pressed={view.collection === option.value}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-sm transition-colors',
+                      view.collection === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+            </div>
+
+            <div className="flex items-center gap-2 ml-auto">
+              <label
+                htmlFor="bookmarks-sort"
+                className="text-sm text-gray-600 dark:text-gray-400"
+              >
+                Sort by
+              </label>
+              <select
+                id="bookmarks-sort"
+                value={view.sort}
+                onChange={(e) =>
+                  setView({ ...view, sort: e.target.value as BookmarkSort })
+                }
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                {BOOKMARK_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {storedLocally && (
+              <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+                Collections, notes and reminders are saved on this device only.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Loading State */}
-        {loading && (
+        {loading && !data && (
           <div className="flex justify-center items-center py-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
@@ -98,88 +193,160 @@ export default function BookmarksPage() {
 
         {/* Bookmarks Grid */}
         <div className="grid gap-6 md:grid-cols-2">
-          {bookmarks.map((bookmark) => (
-            <Card key={bookmark.id} className="p-6 hover:shadow-lg transition-shadow">
-              <div className="flex flex-col h-full">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex-1">
-                    <Link href={`/jobs/${bookmark.job.id}`}>
-                      <h2 className="text-lg font-semibold text-gray-900 dark:text-white hover:text-blue-600 transition-colors">
-                        {bookmark.job.title}
-                      </h2>
-                    </Link>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">
-                      {bookmark.job.poster.firstName} {bookmark.job.poster.lastName}
-                    </p>
-                  </div>
-                  <button
-                    onClick={() => handleRemove(bookmark.job.id)}
-                    disabled={removing}
-                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors text-gray-400 hover:text-red-600"
-                    title="Remove bookmark"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                </div>
-
-                <div className="flex flex-wrap gap-2 mb-3">
-                  <span className="px-2 py-1 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded text-sm font-medium">
-                    {formatBudget(bookmark.job.budget)}
-                  </span>
-                  <span className={`px-2 py-1 rounded text-sm ${
-                    bookmark.job.status === 'OPEN'
-                      ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                      : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
-                  }`}>
-                    {bookmark.job.status}
-                  </span>
-                  <span className="px-2 py-1 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded text-sm">
-                    {bookmark.job.applicationCount} applied
-                  </span>
-                </div>
+          {visibleBookmarks.map((bookmark) => {
+            // Removed offline; the card stays until the removal syncs
+            const removalPending = pending.get(bookmark.job.id) === false;
+            const { collection, note, remindAt } =
+              bookmarkDetails.get(bookmark.jobId) ?? emptyBookmarkDetails;
 
-                {bookmark.job.description && (
-                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3 line-clamp-2 flex-1">
-                    {bookmark.job.description}
-                  </p>
+            return (
+              <Card
+                key={bookmark.id}
+                className={cn(
+                  'p-6 hover:shadow-lg transition-shadow',
+                  removalPending && 'opacity-60'
                 )}
+              >
+                <div className="flex flex-col h-full">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <Link href={`/jobs/${bookmark.job.id}`}>
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white hover:text-blue-600 transition-colors">
+                          {bookmark.job.title}
+                        </h2>
+                      </Link>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {bookmark.job.poster.firstName}{' '}
+                        {bookmark.job.poster.lastName}
+                      </p>
+                    </div>
+                    {pending.has(bookmark.job.id) && <PendingSyncBadge />}
+                    <CompareButton job={bookmark.job} />
+                    <button
+                      onClick={() => setEditing(bookmark)}
+                      disabled={bookmark.id < 0}
+                      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                      title="Collection, note and reminder"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(bookmark.job.id)}
+                      disabled={removingId !== null || removalPending}
+                      className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors text-gray-400 hover:text-red-600"
+                      title="Remove bookmark"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
 
-                <div className="flex flex-wrap gap-1 mb-4">
-                  {bookmark.job.skills.slice(0, 3).map((skill) => (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    <span className="px-2 py-1 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded text-sm font-medium">
+                      {formatBudget(bookmark.job.budget)}
+                    </span>
                     <span
-                      key={skill}
-                      className="px-2 py-0.5 bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded text-xs"
+                      className={`px-2 py-1 rounded text-sm ${
+                        bookmark.job.status === 'OPEN'
+                          ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                          : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                      }`}
                     >
-                      {skill}
+                      {bookmark.job.status}
                     </span>
-                  ))}
-                  {bookmark.job.skills.length > 3 && (
-                    <span className="text-xs text-gray-500">
-                      +{bookmark.job.skills.length - 3}
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded text-sm">
+                      {bookmark.job.applicationCount} applied
                     </span>
+                  </div>
+
+                  {(collection || remindAt) && (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {collection && (
+                        <button
+                          onClick={() => setView({ ...view, collection })}
+                          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200 text-xs font-medium hover:bg-blue-100"
+                        >
+                          <FolderOpen className="w-3 h-3" />
+                          {collection}
+                        </button>
+                      )}
+                      {remindAt && (
+                        <span
+                          className={cn(
+                            'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+                            isReminderDue(remindAt)
+                              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                              : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                          )}
+                        >
+                          <Bell className="w-3 h-3" />
+                          {isReminderDue(remindAt)
+                            ? 'Reminder due'
+                            : 'Remind'}{' '}
+                          {formatReminder(remindAt)}
+                        </span>
+                      )}
+                    </div>
                   )}
-                </div>
 
-                <div className="flex items-center justify-between pt-3 border-t border-gray-100 dark:border-gray-700">
-                  <span className="text-xs text-gray-500 dark:text-gray-400">
-                    Saved {formatDate(bookmark.createdAt)}
-                  </span>
-                  <div className="flex gap-2">
-                    <Button size="sm" variant="outline" asChild>
-                      <Link href={`/jobs/${bookmark.job.id}`}>View</Link>
-                    </Button>
-                    {bookmark.job.status === 'OPEN' && (
-                      <Button size="sm" asChild>
-                        <Link href={`/jobs/${bookmark.job.id}?apply=true`}>Apply</Link>
-                      </Button>
+                  {note && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded p-2 mb-3 whitespace-pre-wrap line-clamp-3">
+                      {note}
+                    </p>
+                  )}
+
+                  {bookmark.job.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-3 line-clamp-2 flex-1">
+                      {bookmark.job.description}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-1 mb-4">
+                    {bookmark.job.skills.slice(0, 3).map((skill) => (
+                      <span
+                        key={skill}
+                        className="px-2 py-0.5 bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded text-xs"
+                      >
+                        {skill}
+                      </span>
+                    ))}
+                    {bookmark.job.skills.length > 3 && (
+                      <span className="text-xs text-gray-500">
+                        +{bookmark.job.skills.length - 3}
+                      </span>
                     )}
                   </div>
+
+                  <div className="flex items-center justify-between pt-3 border-t border-gray-100 dark:border-gray-700">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      Saved {formatDate(bookmark.createdAt)}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/jobs/${bookmark.job.id}`}>View</Link>
+                      </Button>
+                      {bookmark.job.status === 'OPEN' && (
+                        <Button size="sm" asChild>
+                          <Link href={`/jobs/${bookmark.job.id}?apply=true`}>
+                            Apply
+                          </Link>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </Card>
-          ))}
+              </Card>
+            );
+          })}
         </div>
 
+        {bookmarks.length > 0 && visibleBookmarks.length === 0 && (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 dark:text-gray-400">
+              No saved jobs in this collection.
+            </p>
+          </Card>
+        )}
+
         {/* Empty State */}
         {!loading && bookmarks.length === 0 && (
           <Card className="p-12 text-center">
@@ -197,6 +364,23 @@ export default function BookmarksPage() {
             </Button>
           </Card>
         )}
+
+        <BookmarkDetailsDialog
+          open={editing !== null}
+          onOpenChange={(open) => !open && setEditing(null)}
+          jobTitle={editing?.job.title ?? ''}
+          details={
+            (editing && bookmarkDetails.get(editing.jobId)) ??
+            emptyBookmarkDetails
+          }
+          collections={collections}
+          onSave={(changes) =>
+            editing ? saveDetails(editing, changes) : Promise.resolve()
+          }
+        />
+
+        {/* Compare Tray */}
+        <CompareTray />
       </div>
     </div>
   );
@@ -0,0 +1,25 @@
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+      <Card className="p-12 text-center max-w-md">
+        <div className="flex justify-center mb-4">
+          <ShieldAlert className="w-12 h-12 text-red-500" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+          Access denied
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          Your account doesn&apos;t have permission to view this page.
+        </p>
+        <Button asChild>
+          <Link href="/app">Back to Dashboard</Link>
+        </Button>
+      </Card>
+    </div>
+  );
+}
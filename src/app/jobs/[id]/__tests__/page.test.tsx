@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for the Job Detail Page
+ */
+
+import { ApolloError, useQuery } from '@apollo/client';
+import { GraphQLError } from 'graphql';
+import JobDetailPage from '@/app/jobs/[id]/page';
+import { GET_JOB_BY_ID } from '@/graphql/queries';
+import { render, screen } from '@/lib/test-utils';
+
+// react-markdown is ESM only, and none of these states render a description
+jest.mock('@/components/markdown', () => ({
+  Markdown: ({ children }: { children: string }) => <div>{children}</div>,
+}));
+
+jest.mock('@/components/session-provider', () => ({
+  useSession: () => ({ user: null, status: 'unauthenticated' }),
+}));
+
+jest.mock('@/lib/bookmark-queue', () => ({
+  useBookmarkQueue: () => ({ pending: new Map(), setBookmarked: jest.fn() }),
+}));
+
+const mockUseQuery = useQuery as jest.Mock;
+const refetch = jest.fn();
+
+// The job query gets `result`; the signed-out visitor's other queries are
+// skipped
+function mockJobQuery(result: { data?: unknown; error?: ApolloError }) {
+  mockUseQuery.mockImplementation((query) =>
+    query === GET_JOB_BY_ID
+      ? { loading: false, refetch, ...result }
+      : { loading: false, data: undefined }
+  );
+}
+
+describe('JobDetailPage', () => {
+  const originalError = console.error;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    console.error = jest.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalError;
+  });
+
+  it('should show not found for an id that is not a job id', () => {
+    mockJobQuery({ data: undefined });
+
+    render(<JobDetailPage params={{ id: '12abc' }} />);
+
+    expect(screen.getByText('Job not found')).toBeInTheDocument();
+    expect(mockUseQuery).toHaveBeenCalledWith(
+      GET_JOB_BY_ID,
+      expect.objectContaining({ skip: true })
+    );
+  });
+
+  it('should show not found when the server has no such job', () => {
+    mockJobQuery({ data: { job: null } });
+
+    render(<JobDetailPage params={{ id: '12' }} />);
+
+    expect(screen.getByText('Job not found')).toBeInTheDocument();
+    expect(mockUseQuery).toHaveBeenCalledWith(GET_JOB_BY_ID, {
+      variables: { id: 12 },
+      skip: false,
+    });
+  });
+
+  it('should show not found for a NOT_FOUND error', () => {
+    mockJobQuery({
+      error: new ApolloError({
+        graphQLErrors: [
+          new GraphQLError('Job not found', {
+            extensions: { code: 'NOT_FOUND' },
+          }),
+        ],
+      }),
+    });
+
+    render(<JobDetailPage params={{ id: '12' }} />);
+
+    expect(screen.getByText('Job not found')).toBeInTheDocument();
+  });
+
+  it('should offer a retry when the job fails to load', () => {
+    mockJobQuery({
+      error: new ApolloError({ networkError: new Error('Network down') }),
+    });
+
+    render(<JobDetailPage params={{ id: '12' }} />);
+
+    expect(screen.getByText("We couldn't load this job")).toBeInTheDocument();
+    expect(screen.getByText('Network down')).toBeInTheDocument();
+    expect(screen.queryByText('Job not found')).not.toBeInTheDocument();
+
+    screen.getByRole('button', { name: 'Try again' }).click();
+    expect(refetch).toHaveBeenCalled();
+  });
+});
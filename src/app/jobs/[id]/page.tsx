@@ -1,69 +1,141 @@
 'use client';
 
+import { useEffect } from 'react';
 import { useQuery } from '@apollo/client';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { Route } from 'next';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { GET_JOB_BY_ID } from '@/graphql/queries';
+import { ApplyDialog } from '@/components/apply-dialog';
+import { Markdown } from '@/components/markdown';
+import { useSession } from '@/components/session-provider';
+import { PendingSyncBadge } from '@/components/pending-sync-badge';
+import {
+  GET_JOB_BY_ID,
+  GET_MY_APPLICATIONS,
+  IS_JOB_BOOKMARKED,
+} from '@/graphql/queries';
+import { MyApplication, findActiveApplication } from '@/lib/applications';
+import { useBookmarkQueue } from '@/lib/bookmark-queue';
+import { JOB_STATUS_STYLES, parseJobId } from '@/lib/jobs';
+import type { Job } from '@/types';
 import Link from 'next/link';
-import { ArrowLeft, MapPin, Clock, DollarSign, Building } from 'lucide-react';
+import {
+  AlertCircle,
+  ArrowLeft,
+  Bookmark,
+  BookmarkCheck,
+  Clock,
+  IndianRupee,
+  SearchX,
+  User,
+  Users,
+} from 'lucide-react';
 
 interface JobDetailProps {
   params: { id: string };
 }
 
 export default function JobDetailPage({ params }: JobDetailProps) {
-  const { loading, error, data } = useQuery(GET_JOB_BY_ID, {
-    variables: { id: params.id },
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { user, status } = useSession();
+  const jobId = parseJobId(params.id);
+
+  const { loading, error, data, refetch } = useQuery(GET_JOB_BY_ID, {
+    variables: { id: jobId },
+    skip: jobId === null,
+  });
+  const { data: applicationsData } = useQuery(GET_MY_APPLICATIONS, {
+    skip: !user,
   });
+  const { data: bookmarkedData } = useQuery(IS_JOB_BOOKMARKED, {
+    variables: { jobId },
+    skip: !user || jobId === null,
+  });
+  const { pending: pendingBookmarks, setBookmarked } = useBookmarkQueue(
+    user?.id ?? null
+  );
+
+  const job: Job | null = data?.job ?? null;
+  const myApplications: MyApplication[] | undefined =
+    applicationsData?.myApplications;
+  const hasApplied =
+    jobId !== null && Boolean(findActiveApplication(myApplications, jobId));
+  const notFound =
+    jobId === null ||
+    (!loading && !error && !job) ||
+    error?.graphQLErrors.some(
+      (graphQLError) => graphQLError.extensions?.code === 'NOT_FOUND'
+    );
+
+  // The dialog is driven by ?apply=true so links from the jobs list open it
+  const applyOpen = searchParams.get('apply') === 'true';
+  const applyHref = `${pathname}?apply=true`;
+
+  useEffect(() => {
+    if (applyOpen && status === 'unauthenticated') {
+      router.replace(
+        `/login?returnTo=${encodeURIComponent(applyHref)}` as Route
+      );
+    }
+  }, [applyOpen, status, applyHref, router]);
 
-  // Mock data for demonstration
-  const mockJob = {
-    id: params.id,
-    title: 'Senior Frontend Developer',
-    company: 'TechCorp Inc.',
-    location: 'San Francisco, CA',
-    type: 'Full-time',
-    salary: '$120,000 - $150,000',
-    description: `We are looking for a Senior Frontend Developer to join our innovative team at TechCorp Inc. 
-    You will be responsible for building and maintaining our cutting-edge web applications using modern 
-    technologies like React, TypeScript, and Next.js.`,
-    requirements: [
-      '5+ years of experience with React and TypeScript',
-      'Strong knowledge of modern JavaScript (ES6+)',
-      'Experience with state management (Redux, Zustand)',
-      'Familiarity with testing frameworks (Jest, React Testing Library)',
-      'Knowledge of CSS-in-JS solutions (styled-components, emotion)',
-      'Experience with GraphQL and Apollo Client',
-      'Understanding of web performance optimization',
-      "Bachelor's degree in Computer Science or equivalent experience",
-    ],
-    responsibilities: [
-      'Develop and maintain high-quality React applications',
-      'Collaborate with design and backend teams',
-      'Write clean, maintainable, and testable code',
-      'Participate in code reviews and technical discussions',
-      'Mentor junior developers',
-      'Stay up-to-date with the latest frontend technologies',
-    ],
-    benefits: [
-      'Competitive salary and equity package',
-      'Health, dental, and vision insurance',
-      'Flexible working hours and remote work options',
-      'Professional development budget',
-      '401(k) with company matching',
-      'Unlimited PTO policy',
-      'Modern office with free snacks and drinks',
-    ],
-    postedAt: '2 days ago',
-    companyInfo: {
-      size: '100-500 employees',
-      industry: 'Technology',
-      founded: '2015',
-      website: 'https://techcorp.com',
-    },
+  // A change waiting to sync shows as already made
+  const pendingBookmark =
+    jobId === null ? undefined : pendingBookmarks.get(jobId);
+  const isBookmarked =
+    pendingBookmark ?? Boolean(bookmarkedData?.isJobBookmarked);
+
+  const handleToggleBookmark = async () => {
+    if (jobId === null) return;
+    if (!user) {
+      router.push(`/login?returnTo=${encodeURIComponent(pathname)}` as Route);
+      return;
+    }
+    try {
+      await setBookmarked(jobId, !isBookmarked);
+    } catch (err) {
+      console.error('Failed to toggle bookmark:', err);
+    }
+  };
+
+  const setApplyOpen = (open: boolean) => {
+    router.replace((open ? applyHref : pathname) as Route, { scroll: false });
+  };
+
+  const formatBudget = (budget: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0,
+    }).format(budget);
   };
 
-  const job = data?.job || mockJob;
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const getPosterName = (poster: Job['poster']) => {
+    return (
+      [poster.firstName, poster.lastName].filter(Boolean).join(' ') ||
+      'Anonymous employer'
+    );
+  };
+
+  const backLink = (
+    <Button variant="ghost" asChild className="mb-6">
+      <Link href="/jobs">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Back to Jobs
+      </Link>
+    </Button>
+  );
 
   if (loading) {
     return (
@@ -77,62 +149,125 @@ export default function JobDetailPage({ params }: JobDetailProps) {
     );
   }
 
-  if (error) {
-    console.error('GraphQL Error:', error);
-    // Continue with mock data
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+        <div className="container mx-auto px-4">
+          {backLink}
+          <Card className="p-12 text-center">
+            <SearchX className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              Job not found
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              This job may have been removed, or the link is incorrect.
+            </p>
+            <Button asChild>
+              <Link href="/jobs">Browse open jobs</Link>
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
   }
 
+  if (error || !job) {
+    console.error('Failed to load job:', error);
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+        <div className="container mx-auto px-4">
+          {backLink}
+          <Card className="p-12 text-center">
+            <AlertCircle className="w-16 h-16 text-red-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              We couldn&apos;t load this job
+            </h1>
+            <p className="text-red-600 dark:text-red-400 mb-6">
+              {error?.message ?? 'Unknown error'}
+            </p>
+            <Button onClick={() => refetch()}>Try again</Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = job.status === 'OPEN';
+  const canApply = isOpen && !hasApplied;
+  const applyLabel = hasApplied
+    ? 'Applied'
+    : isOpen
+      ? 'Apply Now'
+      : 'Not accepting applications';
+  const posterName = getPosterName(job.poster);
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
       <div className="container mx-auto px-4">
-        {/* Back Button */}
-        <div className="mb-6">
-          <Button variant="ghost" asChild className="mb-4">
-            <Link href="/jobs">
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Jobs
-            </Link>
-          </Button>
-        </div>
+        {backLink}
 
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
             {/* Job Header */}
             <Card className="p-6">
-              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between mb-4">
                 <div>
                   <h1 className="text-2xl lg:text-3xl font-bold text-gray-900 dark:text-white mb-2">
                     {job.title}
                   </h1>
                   <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-gray-600 dark:text-gray-400">
                     <div className="flex items-center">
-                      <Building className="w-4 h-4 mr-1" />
-                      {job.company}
-                    </div>
-                    <div className="flex items-center">
-                      <MapPin className="w-4 h-4 mr-1" />
-                      {job.location}
+                      <User className="w-4 h-4 mr-1" />
+                      {posterName}
                     </div>
                     <div className="flex items-center">
                       <Clock className="w-4 h-4 mr-1" />
-                      {job.postedAt}
+                      Posted {formatDate(job.createdAt)}
                     </div>
                   </div>
                 </div>
-                <div className="flex flex-col sm:flex-row gap-2 mt-4 sm:mt-0">
-                  <Button variant="outline">Save Job</Button>
-                  <Button>Apply Now</Button>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-4 sm:mt-0">
+                  {pendingBookmark !== undefined && <PendingSyncBadge />}
+                  <Button variant="outline" onClick={handleToggleBookmark}>
+                    {isBookmarked ? (
+                      <>
+                        <BookmarkCheck className="w-4 h-4 mr-2 text-blue-600" />
+                        Saved
+                      </>
+                    ) : (
+                      <>
+                        <Bookmark className="w-4 h-4 mr-2" />
+                        Save Job
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    onClick={() => setApplyOpen(true)}
+                    disabled={!canApply}
+                  >
+                    {applyLabel}
+                  </Button>
                 </div>
               </div>
 
               <div className="flex flex-wrap gap-2">
-                <span className="px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full text-sm">
-                  {job.type}
+                <span
+                  className={`px-3 py-1 rounded-full text-sm ${JOB_STATUS_STYLES[job.status] ?? JOB_STATUS_STYLES.CLOSED}`}
+                >
+                  {job.status}
                 </span>
                 <span className="px-3 py-1 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded-full text-sm flex items-center">
-                  <DollarSign className="w-3 h-3 mr-1" />
-                  {job.salary}
+                  <IndianRupee className="w-3 h-3 mr-1" />
+                  {formatBudget(job.budget)}
+                </span>
+                <span className="px-3 py-1 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-full text-sm flex items-center">
+                  <Users className="w-3 h-3 mr-1" />
+                  {job.applicationCount} applications
+                </span>
+                <span className="px-3 py-1 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-full text-sm flex items-center">
+                  <Bookmark className="w-3 h-3 mr-1" />
+                  {job.bookmarkCount} saved
                 </span>
               </div>
             </Card>
@@ -142,117 +277,108 @@ export default function JobDetailPage({ params }: JobDetailProps) {
               <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
                 Job Description
               </h2>
-              <p className="text-gray-600 dark:text-gray-400 leading-relaxed">
-                {job.description}
-              </p>
-            </Card>
-
-            {/* Requirements */}
-            <Card className="p-6">
-              <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-                Requirements
-              </h2>
-              <ul className="space-y-2">
-                {job.requirements.map((req: string, index: number) => (
-                  <li
-                    key={index}
-                    className="flex items-start text-gray-600 dark:text-gray-400"
-                  >
-                    <span className="w-2 h-2 bg-blue-600 rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                    {req}
-                  </li>
-                ))}
-              </ul>
+              {job.description ? (
+                <Markdown>{job.description}</Markdown>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400 italic">
+                  The employer hasn&apos;t added a description yet.
+                </p>
+              )}
             </Card>
 
-            {/* Responsibilities */}
-            <Card className="p-6">
-              <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-                Responsibilities
-              </h2>
-              <ul className="space-y-2">
-                {job.responsibilities.map((resp: string, index: number) => (
-                  <li
-                    key={index}
-                    className="flex items-start text-gray-600 dark:text-gray-400"
-                  >
-                    <span className="w-2 h-2 bg-green-600 rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                    {resp}
-                  </li>
-                ))}
-              </ul>
-            </Card>
+            {/* Skills */}
+            {job.skills.length > 0 && (
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+                  Skills
+                </h2>
+                <div className="flex flex-wrap gap-2">
+                  {job.skills.map((skill) => (
+                    <span
+                      key={skill}
+                      className="px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full text-sm"
+                    >
+                      {skill}
+                    </span>
+                  ))}
+                </div>
+              </Card>
+            )}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
-            {/* Company Info */}
+            {/* Poster */}
             <Card className="p-6">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                About {job.company}
+                Posted by
               </h3>
               <div className="space-y-3 text-sm">
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">
-                    Industry:
+                    Name:
                   </span>
                   <span className="text-gray-900 dark:text-white">
-                    {job.companyInfo.industry}
+                    {posterName}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">
-                    Company Size:
+                    Posted:
                   </span>
                   <span className="text-gray-900 dark:text-white">
-                    {job.companyInfo.size}
+                    {formatDate(job.createdAt)}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">
-                    Founded:
+                    Last updated:
                   </span>
                   <span className="text-gray-900 dark:text-white">
-                    {job.companyInfo.founded}
+                    {formatDate(job.updatedAt)}
                   </span>
                 </div>
               </div>
             </Card>
 
-            {/* Benefits */}
-            <Card className="p-6">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                Benefits & Perks
-              </h3>
-              <ul className="space-y-2">
-                {job.benefits.map((benefit: string, index: number) => (
-                  <li
-                    key={index}
-                    className="flex items-start text-sm text-gray-600 dark:text-gray-400"
-                  >
-                    <span className="w-1.5 h-1.5 bg-blue-600 rounded-full mt-2 mr-2 flex-shrink-0"></span>
-                    {benefit}
-                  </li>
-                ))}
-              </ul>
-            </Card>
-
             {/* Apply Card */}
             <Card className="p-6">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                Ready to Apply?
+                {hasApplied ? 'You have applied' : 'Ready to Apply?'}
               </h3>
               <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                Join {job.company} and be part of an innovative team building
-                the future.
+                {hasApplied
+                  ? 'Track the status of your application from My Applications.'
+                  : isOpen
+                    ? `${job.applicationCount} people have applied so far.`
+                    : 'This job is no longer accepting applications.'}
               </p>
-              <Button className="w-full" size="lg">
-                Apply Now
-              </Button>
+              {hasApplied ? (
+                <Button className="w-full" size="lg" variant="outline" asChild>
+                  <Link href="/applications">View my applications</Link>
+                </Button>
+              ) : (
+                <Button
+                  className="w-full"
+                  size="lg"
+                  onClick={() => setApplyOpen(true)}
+                  disabled={!canApply}
+                >
+                  {applyLabel}
+                </Button>
+              )}
             </Card>
           </div>
         </div>
       </div>
+
+      {status === 'authenticated' && (
+        <ApplyDialog
+          job={job}
+          open={applyOpen && isOpen}
+          onOpenChange={setApplyOpen}
+        />
+      )}
     </div>
   );
 }
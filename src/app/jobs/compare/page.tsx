@@ -0,0 +1,11 @@
+import { JobComparison } from '@/components/job-comparison';
+import { parseCompareParams } from '@/lib/job-compare';
+import type { SearchParamsInput } from '@/lib/job-search';
+
+interface ComparePageProps {
+  searchParams: Exclude<SearchParamsInput, URLSearchParams>;
+}
+
+export default function ComparePage({ searchParams }: ComparePageProps) {
+  return <JobComparison ids={parseCompareParams(searchParams)} />;
+}
@@ -21,7 +21,7 @@ export default function HomePage() {
               <Link href="/jobs">Browse Jobs</Link>
             </Button>
             <Button variant="outline" size="lg" asChild>
-              <Link href="/app">Sign In</Link>
+              <Link href="/login">Sign In</Link>
             </Button>
           </div>
         </div>
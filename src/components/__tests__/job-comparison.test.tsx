@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Job Comparison
+ */
+
+import { GraphQLError } from 'graphql';
+import { JobComparison } from '@/components/job-comparison';
+import { GET_JOB_BY_ID } from '@/graphql/queries';
+import { mockJob, render, screen } from '@/lib/test-utils';
+
+const jobResult = (id: number) => ({
+  request: { query: GET_JOB_BY_ID, variables: { id } },
+  result: {
+    data: {
+      job: {
+        __typename: 'Job',
+        ...mockJob,
+        id,
+        title: `Job ${id}`,
+        poster: { __typename: 'User', ...mockJob.poster },
+      },
+    },
+  },
+});
+
+const notFound = (id: number) => ({
+  request: { query: GET_JOB_BY_ID, variables: { id } },
+  result: {
+    errors: [
+      new GraphQLError('Job not found', {
+        extensions: { code: 'NOT_FOUND' },
+      }),
+    ],
+  },
+});
+
+describe('JobComparison', () => {
+  const originalError = console.error;
+
+  beforeEach(() => {
+    console.error = jest.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalError;
+  });
+
+  it('should leave out jobs that no longer exist', async () => {
+    render(<JobComparison ids={[1, 2, 3]} />, {
+      mocks: [jobResult(1), notFound(2), jobResult(3)],
+    });
+
+    expect(
+      await screen.findByText(
+        'One job is no longer available and has been left out.'
+      )
+    ).toBeInTheDocument();
+    expect(screen.getByText('Job 1')).toBeInTheDocument();
+    expect(screen.getByText('Job 3')).toBeInTheDocument();
+    expect(screen.queryByText(/Failed to load/)).not.toBeInTheDocument();
+  });
+
+  it('should show an error when a job fails to load', async () => {
+    render(<JobComparison ids={[1, 2]} />, {
+      mocks: [
+        jobResult(1),
+        {
+          request: { query: GET_JOB_BY_ID, variables: { id: 2 } },
+          error: new Error('Network down'),
+        },
+      ],
+    });
+
+    expect(
+      await screen.findByText('Failed to load these jobs. Please try again.')
+    ).toBeInTheDocument();
+    expect(screen.queryByText('Job 1')).not.toBeInTheDocument();
+  });
+});
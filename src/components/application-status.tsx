@@ -0,0 +1,54 @@
+import { AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
+
+// Badge styling for each application status, shared by applicants and employers
+export const applicationStatusConfig: Record<
+  string,
+  { color: string; icon: React.ReactNode; label: string }
+> = {
+  PENDING: {
+    color:
+      'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+    icon: <Clock className="w-4 h-4" />,
+    label: 'Pending Review',
+  },
+  REVIEWED: {
+    color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+    icon: <AlertCircle className="w-4 h-4" />,
+    label: 'Under Review',
+  },
+  SHORTLISTED: {
+    color:
+      'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+    icon: <CheckCircle className="w-4 h-4" />,
+    label: 'Shortlisted',
+  },
+  ACCEPTED: {
+    color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+    icon: <CheckCircle className="w-4 h-4" />,
+    label: 'Accepted',
+  },
+  REJECTED: {
+    color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+    icon: <XCircle className="w-4 h-4" />,
+    label: 'Rejected',
+  },
+  WITHDRAWN: {
+    color: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+    icon: <XCircle className="w-4 h-4" />,
+    label: 'Withdrawn',
+  },
+};
+
+export function ApplicationStatusBadge({ status }: { status: string }) {
+  const config =
+    applicationStatusConfig[status] || applicationStatusConfig.PENDING;
+
+  return (
+    <span
+      className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm ${config.color}`}
+    >
+      {config.icon}
+      {config.label}
+    </span>
+  );
+}
@@ -0,0 +1,404 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import Link from 'next/link';
+import { CheckCircle, FileText, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { useSession } from '@/components/session-provider';
+import {
+  APPLY_TO_JOB,
+  CREATE_RESUME_UPLOAD,
+  GET_MY_APPLICATIONS,
+} from '@/graphql/queries';
+import {
+  COVER_LETTER_MAX_LENGTH,
+  MyApplication,
+  addApplicationToCache,
+  clearApplicationDraft,
+  findActiveApplication,
+  getPreviousResumes,
+  getResumeFileName,
+  loadApplicationDraft,
+  saveApplicationDraft,
+  uploadResumeFile,
+  validateResumeFile,
+} from '@/lib/applications';
+import type { Job } from '@/types';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+export type ApplyDialogJob = Pick<
+  Job,
+  'id' | 'title' | 'budget' | 'status' | 'poster'
+>;
+
+interface ApplyDialogProps {
+  job: ApplyDialogJob;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Apply to a job
+ * Cover letter with autosaved draft, resume selection or upload, and a
+ * guard against applying twice
+ */
+export function ApplyDialog({ job, open, onOpenChange }: ApplyDialogProps) {
+  const { user } = useSession();
+  const [coverLetter, setCoverLetter] = useState('');
+  const [resumeUrl, setResumeUrl] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+  // Edited since the dialog opened; restoring the draft doesn't count
+  const [edited, setEdited] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Stops a pending autosave from resurrecting a submitted draft
+  const submittedRef = useRef(false);
+
+  const { data, loading } = useQuery(GET_MY_APPLICATIONS, { skip: !user });
+  const applications: MyApplication[] | undefined = data?.myApplications;
+  const existing = findActiveApplication(applications, job.id);
+  const previousResumes = getPreviousResumes(applications);
+
+  const [applyToJob] = useMutation(APPLY_TO_JOB);
+  const [createResumeUpload] = useMutation(CREATE_RESUME_UPLOAD);
+
+  const userId = user?.id ?? null;
+
+  // Restore the draft each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const draft = userId ? loadApplicationDraft(userId, job.id) : null;
+    setCoverLetter(draft?.coverLetter ?? '');
+    setResumeUrl(draft?.resumeUrl ?? null);
+    setDraftSavedAt(draft?.savedAt ?? null);
+    setEdited(false);
+    setError(null);
+    setSubmitting(false);
+    setSubmitted(false);
+    submittedRef.current = false;
+  }, [open, job.id, userId]);
+
+  // Autosave a moment after the last edit, and straight away on close
+  useEffect(() => {
+    if (!edited || !userId || submittedRef.current) return;
+
+    const save = () =>
+      setDraftSavedAt(
+        saveApplicationDraft(userId, job.id, { coverLetter, resumeUrl })
+          ?.savedAt ?? null
+      );
+    if (!open) {
+      save();
+      return;
+    }
+
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [coverLetter, edited, job.id, open, resumeUrl, userId]);
+
+  const editCoverLetter = (value: string) => {
+    setCoverLetter(value);
+    setEdited(true);
+  };
+
+  const chooseResume = (url: string | null) => {
+    setResumeUrl(url);
+    setEdited(true);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const validationError = validateResumeFile(file);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    setUploading(true);
+    try {
+      const { data } = await createResumeUpload({
+        variables: {
+          input: {
+            fileName: file.name,
+            contentType: file.type,
+            size: file.size,
+          },
+        },
+      });
+      const { uploadUrl, fileUrl } = data.createResumeUpload;
+      await uploadResumeFile(uploadUrl, file);
+      chooseResume(fileUrl);
+    } catch (err) {
+      console.error('Failed to upload resume:', err);
+      setError('Could not upload your resume. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || existing || submitting) return;
+    setError(null);
+    setSubmitting(true);
+
+    const [firstName, ...rest] = user.name.split(' ');
+    const now = new Date().toISOString();
+
+    try {
+      await applyToJob({
+        variables: {
+          input: {
+            jobId: job.id,
+            coverLetter: coverLetter.trim() || null,
+            resumeUrl,
+          },
+        },
+        optimisticResponse: {
+          applyToJob: {
+            __typename: 'Application',
+            id: -job.id, // temporary until the server responds
+            coverLetter: coverLetter.trim() || null,
+            resumeUrl,
+            status: 'PENDING',
+            appliedAt: now,
+            updatedAt: now,
+            reviewedAt: null,
+            applicantId: Number(user.id),
+            jobId: job.id,
+            applicant: {
+              __typename: 'User',
+              id: Number(user.id),
+              firstName: firstName || null,
+              lastName: rest.join(' ') || null,
+              email: user.email,
+            },
+            job: {
+              __typename: 'Job',
+              id: job.id,
+              title: job.title,
+              budget: job.budget,
+              status: job.status,
+              poster: {
+                __typename: 'User',
+                id: job.poster.id,
+                firstName: job.poster.firstName,
+                lastName: job.poster.lastName,
+              },
+            },
+          },
+        },
+        update: (cache, { data }) => {
+          if (data?.applyToJob) {
+            addApplicationToCache(cache, data.applyToJob);
+          }
+        },
+      });
+
+      submittedRef.current = true;
+      clearApplicationDraft(user.id, job.id);
+      setSubmitted(true);
+    } catch (err) {
+      setSubmitting(false);
+      console.error('Failed to apply:', err);
+      setError(
+        err instanceof Error && /already applied/i.test(err.message)
+          ? 'You have already applied to this job.'
+          : 'Could not submit your application. Your draft has been kept.'
+      );
+    }
+  };
+
+  const remaining = COVER_LETTER_MAX_LENGTH - coverLetter.length;
+  const overLimit = remaining < 0;
+
+  const renderBody = () => {
+    if (submitted) {
+      return (
+        <div className="text-center py-6">
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+          <p className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            Application sent
+          </p>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            We&apos;ll let you know when the employer reviews it.
+          </p>
+          <Button asChild>
+            <Link href="/applications">View my applications</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (loading) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    // The optimistic insert would otherwise trip the duplicate guard
+    if (existing && !submitting) {
+      return (
+        <div className="text-center py-6">
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            You applied to this job on{' '}
+            {new Date(String(existing.appliedAt)).toLocaleDateString()}.
+          </p>
+          <Button variant="outline" asChild>
+            <Link href="/applications">View my applications</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label
+            htmlFor="cover-letter"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Cover letter
+          </label>
+          <Textarea
+            id="cover-letter"
+            rows={8}
+            value={coverLetter}
+            onChange={(e) => editCoverLetter(e.target.value)}
+            placeholder="Tell the employer why you're a great fit for this role"
+            aria-describedby="cover-letter-count"
+            aria-invalid={overLimit}
+          />
+          <div className="flex justify-between mt-1 text-xs">
+            <span className="text-gray-500 dark:text-gray-400">
+              {draftSavedAt
+                ? `Draft saved at ${new Date(draftSavedAt).toLocaleTimeString()}`
+                : 'Drafts are saved automatically'}
+            </span>
+            <span
+              id="cover-letter-count"
+              className={
+                overLimit
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-gray-500 dark:text-gray-400'
+              }
+            >
+              {remaining.toLocaleString()} characters left
+            </span>
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Resume
+          </legend>
+          <div className="space-y-2">
+            {previousResumes.map((url) => (
+              <label
+                key={url}
+                className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+              >
+                <input
+                  type="radio"
+                  name="resume"
+                  checked={resumeUrl === url}
+                  onChange={() => chooseResume(url)}
+                />
+                <FileText className="w-4 h-4" />
+                {getResumeFileName(url)}
+              </label>
+            ))}
+            {resumeUrl && !previousResumes.includes(resumeUrl) && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="radio" name="resume" checked readOnly />
+                <FileText className="w-4 h-4" />
+                {getResumeFileName(resumeUrl)}
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="resume"
+                checked={resumeUrl === null}
+                onChange={() => chooseResume(null)}
+              />
+              Don&apos;t attach a resume
+            </label>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,.doc,.docx"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="mt-3"
+            disabled={uploading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {uploading ? 'Uploading...' : 'Upload a new resume'}
+          </Button>
+        </fieldset>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Save draft &amp; close
+          </Button>
+          <Button type="submit" disabled={submitting || uploading || overLimit}>
+            {submitting ? 'Submitting...' : 'Submit application'}
+          </Button>
+        </DialogFooter>
+      </form>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply for {job.title}</DialogTitle>
+          <DialogDescription>
+            Your profile details are shared with the employer.
+          </DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  BOOKMARK_NOTE_MAX_LENGTH,
+  BookmarkDetails,
+  COLLECTION_NAME_MAX_LENGTH,
+  toDateInputValue,
+} from '@/lib/bookmark-details';
+
+interface BookmarkDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobTitle: string;
+  details: BookmarkDetails;
+  // Existing collections, offered as suggestions
+  collections: string[];
+  onSave: (details: BookmarkDetails) => Promise<void>;
+}
+
+/**
+ * Edit the collection, note and reminder date of a bookmark
+ */
+export function BookmarkDetailsDialog({
+  open,
+  onOpenChange,
+  jobTitle,
+  details,
+  collections,
+  onSave,
+}: BookmarkDetailsDialogProps) {
+  const [collection, setCollection] = useState('');
+  const [note, setNote] = useState('');
+  const [remindAt, setRemindAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved details each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setCollection(details.collection ?? '');
+    setNote(details.note ?? '');
+    setRemindAt(details.remindAt ?? '');
+    setError(null);
+  }, [open, details]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ collection, note, remindAt });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to save bookmark details:', err);
+      setError('Could not save your changes. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Organize bookmark</DialogTitle>
+            <DialogDescription>{jobTitle}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label
+                htmlFor="bookmark-collection"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Collection
+              </label>
+              <Input
+                id="bookmark-collection"
+                list="bookmark-collections"
+                value={collection}
+                maxLength={COLLECTION_NAME_MAX_LENGTH}
+                onChange={(e) => setCollection(e.target.value)}
+                placeholder="e.g. Apply this week"
+              />
+              <datalist id="bookmark-collections">
+                {collections.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <label
+                htmlFor="bookmark-note"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Note
+              </label>
+              <Textarea
+                id="bookmark-note"
+                rows={4}
+                value={note}
+                maxLength={BOOKMARK_NOTE_MAX_LENGTH}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Only you can see this"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="bookmark-remind-at"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Remind me on
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="bookmark-remind-at"
+                  type="date"
+                  value={remindAt}
+                  min={toDateInputValue(new Date())}
+                  onChange={(e) => setRemindAt(e.target.value)}
+                />
+                {remindAt && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => setRemindAt('')}
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
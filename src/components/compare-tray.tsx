@@ -0,0 +1,106 @@
+'use client';
+
+import Link from 'next/link';
+import type { Route } from 'next';
+import { Columns3, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  COMPARE_MAX_JOBS,
+  COMPARE_MIN_JOBS,
+  CompareItem,
+  getCompareHref,
+  useCompareSelection,
+} from '@/lib/job-compare';
+import { cn } from '@/lib/utils';
+
+/**
+ * Adds a job to the compare tray, or takes it out again
+ */
+export function CompareButton({ job }: { job: CompareItem }) {
+  const { isSelected, isFull, toggle } = useCompareSelection();
+  const selected = isSelected(job.id);
+
+  return (
+    <button
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggle(job);
+      }}
+      disabled={!selected && isFull}
+      aria-pressed={selected}
+      className={cn(
+        'p-2 rounded-full transition-colors disabled:opacity-40',
+        selected
+          ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/40'
+          : 'text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+      )}
+      title={
+        selected
+          ? 'Remove from comparison'
+          : isFull
+            ? `You can compare up to ${COMPARE_MAX_JOBS} jobs`
+            : 'Add to comparison'
+      }
+    >
+      <Columns3 className="w-5 h-5" />
+    </button>
+  );
+}
+
+/**
+ * The jobs picked for comparison, pinned to the bottom of the page
+ */
+export function CompareTray() {
+  const { items, remove, clear } = useCompareSelection();
+  if (items.length === 0) return null;
+
+  const ready = items.length >= COMPARE_MIN_JOBS;
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the tray */}
+      <div className="h-20" aria-hidden />
+      <div className="fixed inset-x-0 bottom-0 z-40 border-t border-gray-200 dark:border-gray-700 bg-white/95 dark:bg-gray-800/95 backdrop-blur">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-gray-900 dark:text-white">
+            Compare ({items.length}/{COMPARE_MAX_JOBS})
+          </span>
+          <ul className="flex flex-wrap gap-2 flex-1 min-w-0">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className="flex items-center gap-1 max-w-[14rem] px-2 py-1 rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 text-sm"
+              >
+                <span className="truncate">{item.title}</span>
+                <button
+                  onClick={() => remove(item.id)}
+                  className="hover:text-red-600"
+                  aria-label={`Remove ${item.title} from comparison`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={clear}>
+              Clear
+            </Button>
+            {ready ? (
+              <Button size="sm" asChild>
+                <Link href={getCompareHref(items.map(({ id }) => id)) as Route}>
+                  Compare
+                </Link>
+              </Button>
+            ) : (
+              <Button size="sm" disabled>
+                Add {COMPARE_MIN_JOBS - items.length} more to compare
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
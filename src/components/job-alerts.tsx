@@ -0,0 +1,46 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import type { Route } from 'next';
+import { useSession } from '@/components/session-provider';
+import { useFeatureFlag } from '@/lib/feature-flags';
+import {
+  addNotification,
+  markNotificationRead,
+  showBrowserNotification,
+  toNotification,
+  updateNotifications,
+} from '@/lib/notifications';
+import { useJobAlerts } from '@/lib/saved-searches';
+
+/**
+ * Matches new jobs against the signed-in user's saved searches on every
+ * page, /jobs included, and files alerts into the notification feed
+ */
+export function JobAlerts() {
+  const router = useRouter();
+  const { user } = useSession();
+  const enabled = useFeatureFlag('ENABLE_JOB_ALERTS');
+  const userId = user?.id ?? null;
+
+  useJobAlerts({
+    userId,
+    enabled,
+    onAlert: (event, href) => {
+      if (!userId) return;
+
+      const notification = toNotification(event, href);
+      updateNotifications(userId, (current) =>
+        addNotification(current, notification)
+      );
+      showBrowserNotification(notification, () => {
+        updateNotifications(userId, (current) =>
+          markNotificationRead(current, notification.id)
+        );
+        router.push(href as Route);
+      });
+    },
+  });
+
+  return null;
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ApolloError, useApolloClient } from '@apollo/client';
+import { useRouter } from 'next/navigation';
+import type { Route } from 'next';
+import Link from 'next/link';
+import { ArrowLeft, Check, Link2, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { GET_JOB_BY_ID } from '@/graphql/queries';
+import {
+  COMPARE_MIN_JOBS,
+  getBestIndexes,
+  getCompareHref,
+  getJobAgeDays,
+  getSharedSkills,
+  hasDifferences,
+} from '@/lib/job-compare';
+import { cn } from '@/lib/utils';
+import type { Job } from '@/types';
+
+interface JobComparisonProps {
+  // From the query string, already parsed
+  ids: number[];
+}
+
+interface ComparisonRow {
+  label: string;
+  // What's compared to decide whether the row differs
+  values: (string | number)[];
+  cells: React.ReactNode[];
+  best?: number[];
+}
+
+const formatBudget = (budget: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(budget);
+};
+
+const formatAge = (days: number) => {
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return `${days} days ago`;
+};
+
+const getPosterName = (poster: Job['poster']) => {
+  return (
+    [poster.firstName, poster.lastName].filter(Boolean).join(' ') ||
+    'Anonymous employer'
+  );
+};
+
+// Removed jobs come back as null or, from some servers, a NOT_FOUND error
+const isNotFound = (reason: unknown) =>
+  reason instanceof ApolloError &&
+  reason.graphQLErrors.some(
+    (graphQLError) => graphQLError.extensions?.code === 'NOT_FOUND'
+  );
+
+/**
+ * Jobs side by side for /jobs/compare
+ * Rows whose values differ are highlighted, and the best budget, fewest
+ * applications and newest posting are called out.
+ */
+export function JobComparison({ ids }: JobComparisonProps) {
+  const client = useApolloClient();
+  const router = useRouter();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [missing, setMissing] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  // ids is a new array each render; its contents are what matter
+  const idsKey = ids.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const jobIds = idsKey ? idsKey.split(',').map(Number) : [];
+    setLoading(true);
+    setError(null);
+
+    Promise.allSettled(
+      jobIds.map((id) =>
+        client.query<{ job: Job | null }>({
+          query: GET_JOB_BY_ID,
+          variables: { id },
+        })
+      )
+    )
+      .then((results) => {
+        if (cancelled) return;
+
+        // Missing jobs are left out; anything else means we can't compare
+        const failed = results.filter(
+          (result) => result.status === 'rejected' && !isNotFound(result.reason)
+        );
+        if (failed.length > 0) {
+          console.error(
+            'Failed to load jobs to compare:',
+            (failed[0] as PromiseRejectedResult).reason
+          );
+          setError('Failed to load these jobs. Please try again.');
+          return;
+        }
+
+        const found = results.flatMap((result) =>
+          result.status === 'fulfilled' && result.value.data?.job
+            ? [result.value.data.job]
+            : []
+        );
+        setJobs(found);
+        setMissing(jobIds.length - found.length);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt, client, idsKey]);
+
+  const removeJob = (id: number) => {
+    router.replace(
+      getCompareHref(
+        jobs.map((job) => job.id).filter((jobId) => jobId !== id)
+      ) as Route,
+      { scroll: false }
+    );
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy comparison link:', err);
+    }
+  };
+
+  const now = Date.now();
+  const sharedSkills = getSharedSkills(jobs);
+  const isShared = (skill: string) =>
+    sharedSkills.some((shared) => shared.toLowerCase() === skill.toLowerCase());
+  const ages = jobs.map((job) => getJobAgeDays(job.createdAt, now));
+
+  const rows: ComparisonRow[] = [
+    {
+      label: 'Budget',
+      values: jobs.map((job) => job.budget),
+      cells: jobs.map((job) => formatBudget(job.budget)),
+      best: getBestIndexes(
+        jobs.map((job) => job.budget),
+        'highest'
+      ),
+    },
+    {
+      label: 'Status',
+      values: jobs.map((job) => job.status),
+      cells: jobs.map((job) => job.status),
+    },
+    {
+      label: 'Skills',
+      values: jobs.map((job) =>
+        job.skills
+          .map((skill) => skill.toLowerCase())
+          .sort()
+          .join(',')
+      ),
+      cells: jobs.map((job) => (
+        <div key={job.id} className="flex flex-wrap gap-1">
+          {job.skills.map((skill) => (
+            <span
+              key={skill}
+              className={cn(
+                'px-2 py-0.5 rounded text-xs',
+                isShared(skill)
+                  ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+              )}
+            >
+              {skill}
+            </span>
+          ))}
+        </div>
+      )),
+    },
+    {
+      label: 'Applications',
+      values: jobs.map((job) => job.applicationCount),
+      cells: jobs.map((job) => job.applicationCount),
+      best: getBestIndexes(
+        jobs.map((job) => job.applicationCount),
+        'lowest'
+      ),
+    },
+    {
+      label: 'Posted by',
+      values: jobs.map((job) => job.poster.id),
+      cells: jobs.map((job) => getPosterName(job.poster)),
+    },
+    {
+      label: 'Posted',
+      values: ages,
+      cells: ages.map(formatAge),
+      best: getBestIndexes(ages, 'lowest'),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="container mx-auto px-4">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" asChild className="mb-4">
+            <Link href="/jobs">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Jobs
+            </Link>
+          </Button>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Compare Jobs
+            </h1>
+            {jobs.length >= COMPARE_MIN_JOBS && (
+              <Button variant="outline" onClick={copyLink}>
+                {copied ? (
+                  <Check className="w-4 h-4 mr-2" />
+                ) : (
+                  <Link2 className="w-4 h-4 mr-2" />
+                )}
+                {copied ? 'Link copied' : 'Copy link'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex justify-center items-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && (
+          <Card className="p-6 text-center">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+            <Button
+              onClick={() => setAttempt((count) => count + 1)}
+              className="mt-4"
+            >
+              Retry
+            </Button>
+          </Card>
+        )}
+
+        {!loading && !error && missing > 0 && (
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            {missing === 1
+              ? 'One job is no longer available and has been left out.'
+              : `${missing} jobs are no longer available and have been left out.`}
+          </p>
+        )}
+
+        {/* Not enough jobs */}
+        {!loading && !error && jobs.length < COMPARE_MIN_JOBS && (
+          <Card className="p-12 text-center">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              Pick at least {COMPARE_MIN_JOBS} jobs to compare
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Add jobs to the compare tray from the jobs list or your saved
+              jobs.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button asChild>
+                <Link href="/jobs">Browse Jobs</Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href="/bookmarks">Saved Jobs</Link>
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Comparison */}
+        {!loading && !error && jobs.length >= COMPARE_MIN_JOBS && (
+          <Card className="p-0 overflow-x-auto">
+            <table className="w-full table-fixed text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="w-32 p-4" />
+                  {jobs.map((job) => (
+                    <th key={job.id} className="p-4 text-left align-top">
+                      <div className="flex items-start justify-between gap-2">
+                        <Link
+                          href={`/jobs/${job.id}`}
+                          className="font-semibold text-gray-900 dark:text-white hover:text-blue-600"
+                        >
+                          {job.title}
+                        </Link>
+                        <button
+                          onClick={() => removeJob(job.id)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={`Remove ${job.title} from comparison`}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const differs = hasDifferences(row.values);
+
+                  return (
+                    <tr
+                      key={row.label}
+                      className={cn(
+                        'border-b border-gray-100 dark:border-gray-700 last:border-0',
+                        differs && 'bg-yellow-50 dark:bg-yellow-900/20'
+                      )}
+                    >
+                      <th
+                        scope="row"
+                        className="p-4 text-left font-medium text-gray-600 dark:text-gray-400 align-top"
+                      >
+                        {row.label}
+                        {differs && <span className="sr-only"> (differs)</span>}
+                      </th>
+                      {row.cells.map((cell, index) => (
+                        <td
+                          key={jobs[index].id}
+                          className={cn(
+                            'p-4 align-top text-gray-900 dark:text-white',
+                            row.best?.includes(index) &&
+                              'font-semibold text-green-700 dark:text-green-400'
+                          )}
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </Card>
+        )}
+
+        {!loading && !error && jobs.length >= COMPARE_MIN_JOBS && (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Highlighted rows differ between jobs.{' '}
+            {sharedSkills.length > 0
+              ? `Skills in green are wanted by every job (${sharedSkills.join(', ')}).`
+              : 'These jobs have no skills in common.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
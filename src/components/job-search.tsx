@@ -0,0 +1,745 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NetworkStatus, useApolloClient, useQuery } from '@apollo/client';
+import { useSearchParams } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SavedSearches } from '@/components/saved-searches';
+import { CompareButton, CompareTray } from '@/components/compare-tray';
+import { PendingSyncBadge } from '@/components/pending-sync-badge';
+import { SkillsInput } from '@/components/skills-input';
+import { useSession } from '@/components/session-provider';
+import { SEARCH_JOBS, GET_BOOKMARKED_JOB_IDS } from '@/graphql/queries';
+import {
+  JOBS_PAGE_SIZE,
+  JOB_SORT_OPTIONS,
+  JobSearchState,
+  SEARCH_DEBOUNCE_MS,
+  SEARCH_MIN_LENGTH,
+  defaultJobSearchState,
+  getJobSearchHref,
+  getLoadedPages,
+  getSkillFacets,
+  isSearchTermReady,
+  parseBudgetInput,
+  parseJobSearchParams,
+  saveJobSearchScroll,
+  sortJobs,
+  takeJobSearchScroll,
+  toJobSearchFilter,
+  toSearchJobsVariables,
+} from '@/lib/job-search';
+import { useBookmarkQueue } from '@/lib/bookmark-queue';
+import { FeatureGate } from '@/lib/feature-flags';
+import { COMMON_SKILLS } from '@/lib/jobs';
+import { cn } from '@/lib/utils';
+import { browserSupport } from '../../lib/cross-browser';
+import type { Job, JobSearchResult, JobSort, SkillsMatch } from '@/types';
+import Link from 'next/link';
+import { Bookmark, BookmarkCheck, Search, Filter, X } from 'lucide-react';
+
+const SKILLS_MATCH_OPTIONS: { value: SkillsMatch; label: string }[] = [
+  { value: 'ALL', label: 'All skills' },
+  { value: 'ANY', label: 'Any skill' },
+];
+
+interface JobSearchProps {
+  // First page as rendered on the server, seeded into the Apollo cache
+  initialData: JobSearchResult | null;
+}
+
+/**
+ * Job search for /jobs
+ * Filters and the number of pages loaded live in the query string; updates
+ * go through the History API so they don't round-trip to the server. More
+ * results load as the end of the list scrolls into view, or from a button
+ * where IntersectionObserver is missing. Search and budget apply as you
+ * type, and the previous results stay up while the next ones load.
+ */
+export function JobSearch({ initialData }: JobSearchProps) {
+  const client = useApolloClient();
+  const { user } = useSession();
+  const searchParams = useSearchParams();
+  const state = parseJobSearchParams(searchParams);
+  const variables = toSearchJobsVariables(state);
+  const limit = JOBS_PAGE_SIZE;
+
+  const [searchTerm, setSearchTerm] = useState(state.search);
+  const [budgetMinInput, setBudgetMinInput] = useState(
+    state.budgetMin?.toString() ?? ''
+  );
+  const [budgetMaxInput, setBudgetMaxInput] = useState(
+    state.budgetMax?.toString() ?? ''
+  );
+  const [showFilters, setShowFilters] = useState(
+    state.skills.length > 0 ||
+      state.budgetMin !== null ||
+      state.budgetMax !== null
+  );
+
+  // Seed the server-rendered page into the cache on the first render. It
+  // can't wait for an effect: the query below reads the cache while
+  // rendering and would start its own request first.
+  const seeded = useRef(false);
+  if (!seeded.current) {
+    seeded.current = true;
+    if (initialData) {
+      client.writeQuery({
+        query: SEARCH_JOBS,
+        variables,
+        data: { searchJobs: initialData },
+      });
+    }
+  }
+
+  // Back and forward restore the inputs along with the results. Inputs
+  // that already say the same thing are left alone mid-typing.
+  useEffect(() => {
+    setSearchTerm((current) =>
+      current.trim() === state.search ? current : state.search
+    );
+  }, [state.search]);
+
+  useEffect(() => {
+    setBudgetMinInput((current) =>
+      parseBudgetInput(current) === state.budgetMin
+        ? current
+        : (state.budgetMin?.toString() ?? '')
+    );
+    setBudgetMaxInput((current) =>
+      parseBudgetInput(current) === state.budgetMax
+        ? current
+        : (state.budgetMax?.toString() ?? '')
+    );
+  }, [state.budgetMin, state.budgetMax]);
+
+  // A new search unsubscribes from the one in flight, and HttpLink aborts
+  // the fetch of any request nothing is waiting on
+  const { loading, error, data, refetch, fetchMore, networkStatus } = useQuery(
+    SEARCH_JOBS,
+    {
+      variables,
+      notifyOnNetworkStatusChange: true,
+    }
+  );
+  const loadingMore = networkStatus === NetworkStatus.fetchMore;
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  // Decided after mounting so the server and first client render agree
+  const [autoLoad, setAutoLoad] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const restoredScroll = useRef(false);
+  // The last results shown, and the filter they were for
+  const lastResult = useRef<{
+    filterKey: string;
+    result: JobSearchResult;
+  } | null>(null);
+
+  const { data: bookmarksData } = useQuery(GET_BOOKMARKED_JOB_IDS, {
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const { pending: pendingBookmarks, setBookmarked } = useBookmarkQueue(
+    user?.id ?? null
+  );
+
+  const bookmarkedIds = new Set(bookmarksData?.bookmarkedJobIds || []);
+  // Changes waiting to sync show as already made
+  const isBookmarked = (jobId: number) =>
+    pendingBookmarks.get(jobId) ?? bookmarkedIds.has(jobId);
+
+  // Filter changes start again from the first page
+  const updateSearch = useCallback(
+    (changes: Partial<JobSearchState>, { replace = false } = {}) => {
+      const href = getJobSearchHref({
+        ...parseJobSearchParams(new URLSearchParams(window.location.search)),
+        page: 1,
+        ...changes,
+      });
+      if (replace) {
+        window.history.replaceState(null, '', href);
+      } else {
+        window.history.pushState(null, '', href);
+      }
+    },
+    []
+  );
+
+  const handleToggleBookmark = async (jobId: number, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await setBookmarked(jobId, !isBookmarked(jobId));
+    } catch (err) {
+      console.error('Failed to toggle bookmark:', err);
+    }
+  };
+
+  // The typed inputs as of the last render, read when the debounce fires
+  const typed = useRef({ searchTerm, budgetMinInput, budgetMaxInput });
+  typed.current = { searchTerm, budgetMinInput, budgetMaxInput };
+
+  const typedTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Applies whatever has been typed once typing pauses. It replaces the
+  // history entry rather than adding one per pause, and does nothing if
+  // the inputs already match the URL (say, after a submit or a clear).
+  const applyTyped = useCallback(() => {
+    clearTimeout(typedTimer.current);
+    typedTimer.current = setTimeout(() => {
+      const applied = parseJobSearchParams(
+        new URLSearchParams(window.location.search)
+      );
+      const { searchTerm, budgetMinInput, budgetMaxInput } = typed.current;
+      const changes: Partial<JobSearchState> = {};
+
+      if (
+        isSearchTermReady(searchTerm) &&
+        searchTerm.trim() !== applied.search
+      ) {
+        changes.search = searchTerm;
+      }
+      const budgetMin = parseBudgetInput(budgetMinInput);
+      const budgetMax = parseBudgetInput(budgetMaxInput);
+      if (budgetMin !== applied.budgetMin) changes.budgetMin = budgetMin;
+      if (budgetMax !== applied.budgetMax) changes.budgetMax = budgetMax;
+
+      if (Object.keys(changes).length > 0) {
+        updateSearch(changes, { replace: true });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+  }, [updateSearch]);
+
+  // A wait still pending when the user follows a link would otherwise
+  // rewrite the next page's URL
+  useEffect(() => () => clearTimeout(typedTimer.current), []);
+
+  // Submitting skips the wait, or reloads a search that's already applied
+  const handleSearch = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!isSearchTermReady(searchTerm)) return;
+      // Budgets still waiting on the debounce go in with the search
+      const typedChanges = {
+        budgetMin: parseBudgetInput(budgetMinInput),
+        budgetMax: parseBudgetInput(budgetMaxInput),
+      };
+      if (
+        searchTerm.trim() === state.search &&
+        typedChanges.budgetMin === state.budgetMin &&
+        typedChanges.budgetMax === state.budgetMax
+      ) {
+        refetch();
+      } else {
+        updateSearch({ search: searchTerm, ...typedChanges });
+      }
+    },
+    [
+      budgetMaxInput,
+      budgetMinInput,
+      refetch,
+      searchTerm,
+      state.budgetMax,
+      state.budgetMin,
+      state.search,
+      updateSearch,
+    ]
+  );
+
+  const clearFilters = useCallback(() => {
+    setSearchTerm('');
+    setBudgetMinInput('');
+    setBudgetMaxInput('');
+    updateSearch(defaultJobSearchState);
+  }, [updateSearch]);
+
+  const toggleSkill = useCallback(
+    (skill: string) => {
+      const key = skill.toLowerCase();
+      const selected = state.skills.some((s) => s.toLowerCase() === key);
+      updateSearch({
+        skills: selected
+          ? state.skills.filter((s) => s.toLowerCase() !== key)
+          : [...state.skills, skill],
+      });
+    },
+    [state.skills, updateSearch]
+  );
+
+  // While a new search loads, the last results stay on screen. A new sort
+  // order for the same filter shows them sorted here until the server's
+  // order arrives.
+  const filterKey = JSON.stringify(variables.filter);
+  if (data?.searchJobs) {
+    lastResult.current = { filterKey, result: data.searchJobs };
+  }
+  const previous = lastResult.current;
+  const stale = !data?.searchJobs && loading && previous !== null;
+  const searchResult: JobSearchResult | null =
+    data?.searchJobs ??
+    (stale && previous
+      ? previous.filterKey === filterKey
+        ? {
+            ...previous.result,
+            jobs: sortJobs(previous.result.jobs, state.sort),
+          }
+        : previous.result
+      : null);
+  const jobs = searchResult?.jobs || [];
+  const total = searchResult?.total || 0;
+  const hasMore = searchResult?.hasMore || false;
+
+  // The searchJobs type policy appends the page to the cached results
+  const loadMore = useCallback(async () => {
+    if (loadingMore || stale || !hasMore) return;
+
+    setLoadMoreFailed(false);
+    try {
+      const result = await fetchMore({
+        variables: { pagination: { limit, offset: jobs.length } },
+      });
+      if (result.errors?.length) throw result.errors[0];
+
+      const loaded = jobs.length + result.data.searchJobs.jobs.length;
+      updateSearch({ page: getLoadedPages(loaded, limit) }, { replace: true });
+    } catch (err) {
+      console.error('Failed to load more jobs:', err);
+      setLoadMoreFailed(true);
+    }
+  }, [
+    fetchMore,
+    hasMore,
+    jobs.length,
+    limit,
+    loadingMore,
+    stale,
+    updateSearch,
+  ]);
+
+  useEffect(() => {
+    setAutoLoad(browserSupport.hasIntersectionObserver());
+  }, []);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!autoLoad || !sentinel || !hasMore || loadMoreFailed) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [autoLoad, hasMore, loadMore, loadMoreFailed]);
+
+  // Back from a job detail: return to where the list was left
+  useEffect(() => {
+    if (restoredScroll.current || jobs.length === 0) return;
+    restoredScroll.current = true;
+
+    const scrollY = takeJobSearchScroll(
+      window.location.pathname + window.location.search
+    );
+    if (scrollY !== null) window.scrollTo({ top: scrollY });
+  }, [jobs.length]);
+
+  const rememberScroll = useCallback((e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('a')) {
+      saveJobSearchScroll(
+        window.location.pathname + window.location.search,
+        window.scrollY
+      );
+    }
+  }, []);
+
+  const skillFacets = getSkillFacets(jobs, state.skills);
+  const selectedSkills = new Set(
+    state.skills.map((skill) => skill.toLowerCase())
+  );
+
+  const formatBudget = (budget: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0,
+    }).format(budget);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffTime = Math.abs(now.getTime() - date.getTime());
+    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+
+    if (diffDays === 1) return 'Today';
+    if (diffDays === 2) return 'Yesterday';
+    if (diffDays <= 7) return `${diffDays} days ago`;
+    return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="container mx-auto px-4">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+            Find Your Next Job
+          </h1>
+
+          {/* Search Bar */}
+          <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+            <div className="relative flex-1 max-w-xl">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <Input
+                type="text"
+                placeholder="Search jobs by title or description..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  applyTyped();
+                }}
+                aria-describedby="jobs-search-hint"
+                className="pl-10 w-full"
+              />
+              {!isSearchTermReady(searchTerm) && (
+                <p
+                  id="jobs-search-hint"
+                  className="absolute left-0 top-full mt-1 text-xs text-gray-500 dark:text-gray-400"
+                >
+                  Type at least {SEARCH_MIN_LENGTH} characters to search
+                </p>
+              )}
+            </div>
+            <Button type="submit">Search</Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowFilters(!showFilters)}
+            >
+              <Filter className="w-4 h-4 mr-2" />
+              Filters
+            </Button>
+          </form>
+
+          {/* Filters Panel */}
+          {showFilters && (
+            <Card className="p-4 mb-4">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="font-semibold text-gray-900 dark:text-white">
+                  Filters
+                </h3>
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  <X className="w-4 h-4 mr-1" /> Clear All
+                </Button>
+              </div>
+
+              {/* Skills Filter */}
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label
+                    htmlFor="skills-filter"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Skills
+                  </label>
+                  <div
+                    role="group"
+                    aria-label="Jobs must have"
+                    className="flex gap-1"
+                  >
+                    {SKILLS_MATCH_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() =>
+                          updateSearch({ skillsMatch: option.value })
+                        }
+                        disabled={state.skills.length < 2}
+                        aria-pressed={state.skillsMatch === option.value}
+                        className={cn(
+                          'px-2 py-0.5 rounded text-xs transition-colors disabled:opacity-50',
+                          state.skillsMatch === option.value
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <SkillsInput
+                  id="skills-filter"
+                  value={state.skills}
+                  onChange={(skills) => updateSearch({ skills })}
+                  suggestions={[
+                    ...skillFacets.map(({ skill }) => skill),
+                    ...COMMON_SKILLS,
+                  ]}
+                />
+                {skillFacets.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {skillFacets.map(({ skill, count }) => (
+                      <button
+                        key={skill}
+                        onClick={() => toggleSkill(skill)}
+                        aria-pressed={selectedSkills.has(skill.toLowerCase())}
+                        className={cn(
+                          'px-3 py-1 rounded-full text-sm transition-colors',
+                          selectedSkills.has(skill.toLowerCase())
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        )}
+                      >
+                        {skill} <span className="opacity-75">({count})</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Budget Range */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Min Budget (₹)
+                  </label>
+                  <Input
+                    type="number"
+                    placeholder="0"
+                    value={budgetMinInput}
+                    onChange={(e) => {
+                      setBudgetMinInput(e.target.value);
+                      applyTyped();
+                    }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Max Budget (₹)
+                  </label>
+                  <Input
+                    type="number"
+                    placeholder="Any"
+                    value={budgetMaxInput}
+                    onChange={(e) => {
+                      setBudgetMaxInput(e.target.value);
+                      applyTyped();
+                    }}
+                  />
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {user && (
+            <FeatureGate flag="ENABLE_JOB_ALERTS">
+              <SavedSearches
+                userId={user.id}
+                filter={toJobSearchFilter(state)}
+                onOpen={(search) => {
+                  setSearchTerm(search.filter.search);
+                  updateSearch(search.filter);
+                }}
+              />
+            </FeatureGate>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            {/* Results Count */}
+            {(!loading || loadingMore || stale) && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {total} jobs found
+                {state.skills.length > 0 &&
+                  ` matching ${state.skills.join(
+                    state.skillsMatch === 'ANY' ? ' or ' : ', '
+                  )}`}
+              </p>
+            )}
+
+            {/* Sort */}
+            <div className="flex items-center gap-2 ml-auto">
+              <label
+                htmlFor="jobs-sort"
+                className="text-sm text-gray-600 dark:text-gray-400"
+              >
+                Sort by
+              </label>
+              <select
+                id="jobs-sort"
+                value={state.sort}
+                onChange={(e) =>
+                  updateSearch({ sort: e.target.value as JobSort })
+                }
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                {JOB_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Loading State */}
+        {loading && !loadingMore && !stale && (
+          <div className="flex justify-center items-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && (
+          <Card className="p-6 text-center">
+            <p className="text-red-600 dark:text-red-400">
+              Failed to load jobs. Please try again.
+            </p>
+            <Button onClick={() => refetch()} className="mt-4">
+              Retry
+            </Button>
+          </Card>
+        )}
+
+        {/* Jobs List */}
+        <div
+          className={cn('grid gap-6 transition-opacity', stale && 'opacity-60')}
+          aria-busy={stale}
+          onClickCapture={rememberScroll}
+        >
+          {jobs.map((job: Job) => (
+            <Card
+              key={job.id}
+              className="p-6 hover:shadow-lg transition-shadow"
+            >
+              <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between">
+                <div className="flex-1">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <Link href={`/jobs/${job.id}`}>
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1 hover:text-blue-600 transition-colors">
+                          {job.title}
+                        </h2>
+                      </Link>
+                      <p className="text-gray-600 dark:text-gray-400 mb-2">
+                        Posted by {job.poster.firstName || 'Anonymous'}{' '}
+                        {job.poster.lastName || ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-500 dark:text-gray-400">
+                        {formatDate(job.createdAt)}
+                      </span>
+                      {pendingBookmarks.has(job.id) && <PendingSyncBadge />}
+                      <CompareButton job={job} />
+                      <button
+                        onClick={(e) => handleToggleBookmark(job.id, e)}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+                        title={
+                          isBookmarked(job.id)
+                            ? 'Remove bookmark'
+                            : 'Bookmark job'
+                        }
+                      >
+                        {isBookmarked(job.id) ? (
+                          <BookmarkCheck className="w-5 h-5 text-blue-600" />
+                        ) : (
+                          <Bookmark className="w-5 h-5 text-gray-400" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    <span className="px-2 py-1 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded text-sm font-medium">
+                      {formatBudget(job.budget)}
+                    </span>
+                    <span className="px-2 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded text-sm">
+                      {job.status}
+                    </span>
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded text-sm">
+                      {job.applicationCount} applications
+                    </span>
+                  </div>
+
+                  {job.description && (
+                    <p className="text-gray-600 dark:text-gray-400 mb-3 line-clamp-2">
+                      {job.description}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {job.skills.slice(0, 5).map((skill: string) => (
+                      <span
+                        key={skill}
+                        className="px-2 py-1 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-full text-sm"
+                      >
+                        {skill}
+                      </span>
+                    ))}
+                    {job.skills.length > 5 && (
+                      <span className="px-2 py-1 text-gray-500 text-sm">
+                        +{job.skills.length - 5} more
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-2 mt-4 lg:mt-0 lg:ml-6">
+                  <Button variant="outline" asChild>
+                    <Link href={`/jobs/${job.id}`}>View Details</Link>
+                  </Button>
+                  <Button asChild>
+                    <Link href={`/jobs/${job.id}?apply=true`}>Apply Now</Link>
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Empty State */}
+        {!loading && jobs.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              No jobs found matching your criteria.
+            </p>
+            <Button onClick={clearFilters}>Clear Filters</Button>
+          </div>
+        )}
+
+        {/* More Results */}
+        {jobs.length > 0 && (
+          <div className="flex flex-col items-center gap-4 mt-8">
+            <div ref={sentinelRef} aria-hidden="true" />
+            {loadingMore && (
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            )}
+            {loadMoreFailed && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Failed to load more jobs.
+              </p>
+            )}
+            {hasMore && !loadingMore && (!autoLoad || loadMoreFailed) && (
+              <Button variant="outline" onClick={loadMore}>
+                {loadMoreFailed ? 'Try Again' : 'Load More'}
+              </Button>
+            )}
+            {!hasMore && !loading && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                You&apos;ve seen all {total} jobs.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Compare Tray */}
+        <CompareTray />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { cn } from '@/lib/utils';
+
+// Raw HTML is not rendered, so user-written descriptions are safe to show
+const components: Components = {
+  h1: ({ node: _node, ...props }) => (
+    <h3
+      className="text-xl font-semibold text-gray-900 dark:text-white mt-6 mb-3"
+      {...props}
+    />
+  ),
+  h2: ({ node: _node, ...props }) => (
+    <h4
+      className="text-lg font-semibold text-gray-900 dark:text-white mt-5 mb-2"
+      {...props}
+    />
+  ),
+  h3: ({ node: _node, ...props }) => (
+    <h5
+      className="font-semibold text-gray-900 dark:text-white mt-4 mb-2"
+      {...props}
+    />
+  ),
+  p: ({ node: _node, ...props }) => (
+    <p className="leading-relaxed mb-4 last:mb-0" {...props} />
+  ),
+  ul: ({ node: _node, ...props }) => (
+    <ul className="list-disc pl-6 mb-4 space-y-1" {...props} />
+  ),
+  ol: ({ node: _node, ...props }) => (
+    <ol className="list-decimal pl-6 mb-4 space-y-1" {...props} />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a
+      className="text-blue-600 dark:text-blue-400 underline"
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      {...props}
+    />
+  ),
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote
+      className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic mb-4"
+      {...props}
+    />
+  ),
+  code: ({ node: _node, ...props }) => (
+    <code
+      className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-sm"
+      {...props}
+    />
+  ),
+};
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+}
+
+/**
+ * Render user-written markdown (job descriptions) with the app's type styles
+ */
+export function Markdown({ children, className }: MarkdownProps) {
+  return (
+    <div className={cn('text-gray-600 dark:text-gray-400', className)}>
+      <ReactMarkdown components={components}>{children}</ReactMarkdown>
+    </div>
+  );
+}
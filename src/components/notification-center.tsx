@@ -0,0 +1,208 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { Route } from 'next';
+import { Bell, BellOff, BellRing, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { usePermission } from '@/components/permission-gate';
+import { useSession } from '@/components/session-provider';
+import {
+  AppNotification,
+  NotificationEvent,
+  addNotification,
+  countUnread,
+  formatNotificationTime,
+  getBrowserNotificationsEnabled,
+  markAllNotificationsRead,
+  markNotificationRead,
+  setBrowserNotificationsEnabled,
+  showBrowserNotification,
+  toNotification,
+  updateNotifications,
+  useNotifications,
+} from '@/lib/notifications';
+import {
+  useMyApplicationUpdates,
+  useMyJobApplicationUpdates,
+} from '@/lib/subscriptions';
+import { cn } from '@/lib/utils';
+import { browserSupport } from '../../lib/cross-browser';
+import { Permission } from '../../lib/auth';
+
+/**
+ * Bell with unread badge and a feed of application updates
+ * Applicants hear about their applications and saved-search matches
+ * (raised by JobAlerts), employers about applicants
+ */
+export function NotificationCenter() {
+  const router = useRouter();
+  const { user } = useSession();
+  const canManageJobs = usePermission(Permission.UPDATE_JOBS);
+  const [open, setOpen] = useState(false);
+  const [browserEnabled, setBrowserEnabled] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const userId = user?.id ?? null;
+  const notifications = useNotifications(userId);
+
+  useEffect(() => {
+    setBrowserEnabled(getBrowserNotificationsEnabled());
+  }, [userId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const update = useCallback(
+    (change: (current: AppNotification[]) => AppNotification[]) => {
+      if (userId) updateNotifications(userId, change);
+    },
+    [userId]
+  );
+
+  const openNotification = (notification: AppNotification) => {
+    update((current) => markNotificationRead(current, notification.id));
+    setOpen(false);
+    if (notification.href) router.push(notification.href as Route);
+  };
+
+  const receive = (event: NotificationEvent, href: string) => {
+    const notification = toNotification(event, href);
+    update((current) => addNotification(current, notification));
+    showBrowserNotification(notification, () => openNotification(notification));
+  };
+
+  // The /app pages don't subscribe themselves; they read the cache these
+  // keep up to date
+  useMyApplicationUpdates({
+    enabled: Boolean(userId),
+    onEvent: (event) => receive(event, '/applications'),
+  });
+  useMyJobApplicationUpdates({
+    enabled: Boolean(userId) && canManageJobs,
+    onEvent: (event) => receive(event, `/app/jobs/${event.jobId}/applications`),
+  });
+
+  const toggleBrowserNotifications = async () => {
+    setBrowserEnabled(await setBrowserNotificationsEnabled(!browserEnabled));
+  };
+
+  const unread = countUnread(notifications);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="relative p-2 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        aria-label={
+          unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'
+        }
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Notifications"
+          className="absolute right-0 mt-2 w-80 rounded-md border bg-white dark:bg-gray-800 shadow-lg z-50"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              Notifications
+            </p>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={unread === 0}
+              onClick={() => update(markAllNotificationsRead)}
+            >
+              <Check className="w-4 h-4 mr-1" />
+              Mark all read
+            </Button>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              You&apos;re all caught up.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className={cn(
+                      'flex w-full gap-3 px-4 py-3 text-left hover:bg-gray-100 dark:hover:bg-gray-700',
+                      !notification.read && 'bg-blue-50 dark:bg-gray-900'
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        'mt-1.5 w-2 h-2 shrink-0 rounded-full',
+                        notification.read ? 'bg-transparent' : 'bg-blue-600'
+                      )}
+                      aria-hidden="true"
+                    />
+                    <span className="flex-1">
+                      <span className="block text-sm text-gray-900 dark:text-white">
+                        {notification.message}
+                      </span>
+                      <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {formatNotificationTime(notification.timestamp)}
+                        {!notification.read && (
+                          <span className="sr-only"> (unread)</span>
+                        )}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {browserSupport.hasNotifications() && (
+            <div className="px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+              <button
+                onClick={toggleBrowserNotifications}
+                className="flex items-center text-xs text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+              >
+                {browserEnabled ? (
+                  <>
+                    <BellOff className="w-4 h-4 mr-1" />
+                    Turn off desktop notifications
+                  </>
+                ) : (
+                  <>
+                    <BellRing className="w-4 h-4 mr-1" />
+                    Notify me when this tab is in the background
+                  </>
+                )}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
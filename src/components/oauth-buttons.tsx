@@ -0,0 +1,67 @@
+'use client';
+
+import { Linkedin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FeatureFlagManager } from '@/lib/feature-flags';
+
+function GoogleIcon() {
+  return (
+    <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" aria-hidden="true">
+      <path
+        fill="#4285F4"
+        d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.77h3.57c2.08-1.92 3.27-4.74 3.27-8.1z"
+      />
+      <path
+        fill="#34A853"
+        d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84A11 11 0 0 0 12 23z"
+      />
+      <path
+        fill="#FBBC05"
+        d="M5.84 14.1A6.6 6.6 0 0 1 5.5 12c0-.73.13-1.44.34-2.1V7.06H2.18a11 11 0 0 0 0 9.88l3.66-2.84z"
+      />
+      <path
+        fill="#EA4335"
+        d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15A10.96 10.96 0 0 0 12 1 11 11 0 0 0 2.18 7.06l3.66 2.84c.87-2.6 3.3-4.52 6.16-4.52z"
+      />
+    </svg>
+  );
+}
+
+/**
+ * Social sign-in buttons
+ * Full page navigations, since the API route redirects to the provider
+ */
+export function OAuthButtons({ returnTo }: { returnTo: string }) {
+  const google = FeatureFlagManager.isEnabled('ENABLE_GOOGLE_AUTH');
+  const linkedin = FeatureFlagManager.isEnabled('ENABLE_LINKEDIN_AUTH');
+
+  if (!google && !linkedin) return null;
+
+  const query = `?returnTo=${encodeURIComponent(returnTo)}`;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {google && (
+        <Button variant="outline" className="w-full" asChild>
+          <a href={`/api/auth/oauth/google${query}`}>
+            <GoogleIcon />
+            Continue with Google
+          </a>
+        </Button>
+      )}
+      {linkedin && (
+        <Button variant="outline" className="w-full" asChild>
+          <a href={`/api/auth/oauth/linkedin${query}`}>
+            <Linkedin className="w-4 h-4 mr-2 text-[#0A66C2]" />
+            Continue with LinkedIn
+          </a>
+        </Button>
+      )}
+      <div className="flex items-center gap-3 text-xs uppercase text-gray-500 dark:text-gray-400">
+        <span className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+        or
+        <span className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { CloudOff } from 'lucide-react';
+
+/**
+ * Marks a bookmark change or withdrawal that was made offline and hasn't
+ * reached the server yet
+ */
+export function PendingSyncBadge() {
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 text-xs font-medium"
+      title="Saved on this device; will sync when you're back online"
+    >
+      <CloudOff className="w-3 h-3" />
+      Pending sync
+    </span>
+  );
+}
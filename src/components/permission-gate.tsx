@@ -0,0 +1,30 @@
+'use client';
+
+import { Permission, UserRole, rolePermissions } from '../../lib/auth';
+import { useSession } from './session-provider';
+
+// Client-side mirror of AuthService.hasPermission for the session user
+export function usePermission(permission: Permission): boolean {
+  const { user } = useSession();
+  if (!user?.isActive) return false;
+
+  return (rolePermissions[user.role as UserRole] ?? []).includes(permission);
+}
+
+interface PermissionGateProps {
+  permission: Permission;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Render children only when the signed-in user has the permission
+ * The server still enforces it; this only hides what can't be used
+ */
+export function PermissionGate({
+  permission,
+  children,
+  fallback = null,
+}: PermissionGateProps) {
+  return usePermission(permission) ? children : fallback;
+}
@@ -7,6 +7,8 @@ import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { ThemeProvider } from 'next-themes';
 import { useState } from 'react';
 import { CrossBrowserProvider } from './cross-browser-provider';
+import { JobAlerts } from './job-alerts';
+import { SessionProvider } from './session-provider';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
@@ -25,15 +27,18 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <CrossBrowserProvider>
       <QueryClientProvider client={queryClient}>
         <ApolloProvider client={apolloClient}>
-          <ThemeProvider
-            attribute="class"
-            defaultTheme="system"
-            enableSystem
-            disableTransitionOnChange
-          >
-            {children}
-            <ReactQueryDevtools initialIsOpen={false} />
-          </ThemeProvider>
+          <SessionProvider>
+            <JobAlerts />
+            <ThemeProvider
+              attribute="class"
+              defaultTheme="system"
+              enableSystem
+              disableTransitionOnChange
+            >
+              {children}
+              <ReactQueryDevtools initialIsOpen={false} />
+            </ThemeProvider>
+          </SessionProvider>
         </ApolloProvider>
       </QueryClientProvider>
     </CrossBrowserProvider>
@@ -0,0 +1,56 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone?: () => void;
+}
+
+/**
+ * One-time display of two-factor recovery codes
+ * The codes cannot be shown again, so offer a download before moving on
+ */
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const handleDownload = () => {
+    const contents = [
+      'JobPay recovery codes',
+      'Each code can be used once to sign in if you lose your authenticator.',
+      '',
+      ...codes,
+      '',
+    ].join('\n');
+    const url = URL.createObjectURL(
+      new Blob([contents], { type: 'text/plain' })
+    );
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'jobpay-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Store these codes somewhere safe. Each one can be used once to sign in
+        if you lose access to your authenticator app. They will not be shown
+        again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-100 dark:bg-gray-800 p-4 font-mono text-sm text-gray-900 dark:text-white">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+        {onDone && <Button onClick={onDone}>I&apos;ve saved my codes</Button>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BellRing, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import type { JobSearchFilter } from '@/lib/job-search';
+import {
+  ALERT_FREQUENCIES,
+  AlertFrequency,
+  SAVED_SEARCH_NAME_MAX_LENGTH,
+  SavedSearch,
+  createSavedSearch,
+  useSavedSearches,
+} from '@/lib/saved-searches';
+import { cn } from '@/lib/utils';
+
+const formatBudget = (budget: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(budget);
+};
+
+function describeFilter(filter: JobSearchFilter): string {
+  const parts: string[] = [];
+
+  if (filter.search) parts.push(`"${filter.search}"`);
+  if (filter.skills.length > 0) parts.push(filter.skills.join(', '));
+  if (filter.budgetMin !== null && filter.budgetMax !== null) {
+    parts.push(
+      `${formatBudget(filter.budgetMin)}–${formatBudget(filter.budgetMax)}`
+    );
+  } else if (filter.budgetMin !== null) {
+    parts.push(`From ${formatBudget(filter.budgetMin)}`);
+  } else if (filter.budgetMax !== null) {
+    parts.push(`Up to ${formatBudget(filter.budgetMax)}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'All open jobs';
+}
+
+interface SavedSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The search being edited; a new one is created without it
+  search?: SavedSearch;
+  onSave: (changes: {
+    name: string;
+    frequency: AlertFrequency;
+    useCurrentFilter: boolean;
+  }) => void;
+}
+
+function SavedSearchDialog({
+  open,
+  onOpenChange,
+  search,
+  onSave,
+}: SavedSearchDialogProps) {
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<AlertFrequency>('daily');
+  const [useCurrentFilter, setUseCurrentFilter] = useState(!search);
+
+  // Start from the search being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(search?.name ?? '');
+    setFrequency(search?.frequency ?? 'daily');
+    setUseCurrentFilter(!search);
+  }, [open, search]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), frequency, useCurrentFilter });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {search ? 'Edit saved search' : 'Save search'}
+            </DialogTitle>
+            <DialogDescription>
+              We&apos;ll let you know when new jobs match.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label
+                htmlFor="saved-search-name"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Name
+              </label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={SAVED_SEARCH_NAME_MAX_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Remote React roles"
+                autoFocus
+              />
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Alert me
+              </legend>
+              <div className="flex gap-2">
+                {ALERT_FREQUENCIES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setFrequency(option.value)}
+                    aria-pressed={frequency === option.value}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-sm transition-colors',
+                      frequency === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            {search && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={useCurrentFilter}
+                  onChange={(e) => setUseCurrentFilter(e.target.checked)}
+                />
+                Replace its filters with the current search
+              </label>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SavedSearchesProps {
+  userId: string;
+  // The filter currently applied on /jobs
+  filter: JobSearchFilter;
+  onOpen: (search: SavedSearch) => void;
+}
+
+/**
+ * Saved searches for /jobs with their alert frequency and how many
+ * matching jobs have been posted since each was last opened
+ */
+export function SavedSearches({ userId, filter, onOpen }: SavedSearchesProps) {
+  const { searches, addSearch, editSearch, deleteSearch, markVisited } =
+    useSavedSearches(userId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SavedSearch | undefined>();
+  const [deleting, setDeleting] = useState<SavedSearch | null>(null);
+
+  const openDialog = (search?: SavedSearch) => {
+    setEditing(search);
+    setDialogOpen(true);
+  };
+
+  const handleSave = ({
+    name,
+    frequency,
+    useCurrentFilter,
+  }: {
+    name: string;
+    frequency: AlertFrequency;
+    useCurrentFilter: boolean;
+  }) => {
+    if (!editing) {
+      addSearch(createSavedSearch(name, filter, frequency));
+      return;
+    }
+    editSearch(editing.id, {
+      name,
+      frequency,
+      ...(useCurrentFilter && { filter }),
+    });
+  };
+
+  const handleOpen = (search: SavedSearch) => {
+    markVisited(search.id);
+    onOpen(search);
+  };
+
+  return (
+    <Card className="p-4 mb-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-gray-900 dark:text-white">
+          Saved Searches
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => openDialog()}>
+          <BellRing className="w-4 h-4 mr-1" /> Save this search
+        </Button>
+      </div>
+
+      {searches.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-100 dark:divide-gray-700">
+          {searches.map((search) => (
+            <li
+              key={search.id}
+              className="flex items-center justify-between gap-4 py-2"
+            >
+              <button
+                onClick={() => handleOpen(search)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white hover:text-blue-600 truncate">
+                    {search.name}
+                  </span>
+                  {search.newJobIds.length > 0 && (
+                    <span className="px-2 py-0.5 rounded-full bg-blue-600 text-white text-xs font-medium">
+                      {search.newJobIds.length} new
+                    </span>
+                  )}
+                </span>
+                <span className="block text-sm text-gray-600 dark:text-gray-400 truncate">
+                  {describeFilter(search.filter)} ·{' '}
+                  {
+                    ALERT_FREQUENCIES.find(
+                      ({ value }) => value === search.frequency
+                    )?.label
+                  }{' '}
+                  alerts
+                </span>
+              </button>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openDialog(search)}
+                  aria-label={`Edit ${search.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDeleting(search)}
+                  aria-label={`Delete ${search.name}`}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <SavedSearchDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        search={editing}
+        onSave={handleSave}
+      />
+      <ConfirmDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete saved search?"
+        description={`You'll stop getting alerts for "${deleting?.name}".`}
+        confirmLabel="Delete"
+        destructive
+        onConfirm={() => deleting && deleteSearch(deleting.id)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useApolloClient } from '@apollo/client';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { clearApplicationDrafts } from '@/lib/applications';
+import * as authClient from '@/lib/auth-client';
+import type {
+  LoginCredentials,
+  RegisterInput,
+  Session,
+  SessionStatus,
+  SessionUser,
+  SignInResult,
+} from '@/types';
+
+interface SessionContextValue {
+  session: Session | null;
+  user: SessionUser | null;
+  status: SessionStatus;
+  signIn: (credentials: LoginCredentials) => Promise<SignInResult>;
+  verifyTwoFactor: (code: string) => Promise<Session>;
+  signUp: (input: RegisterInput) => Promise<Session>;
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+/**
+ * Session provider
+ * Restores the session on load and keeps Apollo's cache in step with it
+ */
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const client = useApolloClient();
+  const [session, setSessionState] = useState<Session | null>(
+    authClient.getSession
+  );
+  const [status, setStatus] = useState<SessionStatus>('loading');
+
+  useEffect(() => {
+    const unsubscribe = authClient.subscribeToSession((next) => {
+      setSessionState(next);
+      setStatus(next ? 'authenticated' : 'unauthenticated');
+    });
+
+    authClient.fetchSession();
+
+    return unsubscribe;
+  }, []);
+
+  const signIn = useCallback(
+    async (credentials: LoginCredentials) => {
+      const result = await authClient.signIn(credentials);
+      if (result.status === 'authenticated') {
+        // Drop anything cached for the anonymous visitor
+        await client.clearStore();
+      }
+      return result;
+    },
+    [client]
+  );
+
+  const verifyTwoFactor = useCallback(
+    async (code: string) => {
+      const next = await authClient.verifyTwoFactor(code);
+      await client.clearStore();
+      return next;
+    },
+    [client]
+  );
+
+  const signUp = useCallback(
+    async (input: RegisterInput) => {
+      const next = await authClient.signUp(input);
+      await client.clearStore();
+      return next;
+    },
+    [client]
+  );
+
+  const signOut = useCallback(async () => {
+    const userId = authClient.getSession()?.user.id;
+    await authClient.signOut();
+    // Unsent cover letters and resumes stay with the person who wrote them
+    if (userId) clearApplicationDrafts(userId);
+    await client.clearStore();
+  }, [client]);
+
+  const value = useMemo(
+    () => ({
+      session,
+      user: session?.user ?? null,
+      status,
+      signIn,
+      verifyTwoFactor,
+      signUp,
+      signOut,
+    }),
+    [session, status, signIn, verifyTwoFactor, signUp, signOut]
+  );
+
+  return (
+    <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+  );
+}
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { getSkillSuggestions } from '@/lib/jobs';
+import { cn } from '@/lib/utils';
+
+interface SkillsInputProps {
+  id?: string;
+  value: string[];
+  onChange: (skills: string[]) => void;
+  suggestions: string[];
+  max?: number;
+  invalid?: boolean;
+  describedBy?: string;
+}
+
+/**
+ * Tag input with typeahead
+ * Enter or comma adds the highlighted suggestion (or the typed text),
+ * Backspace on an empty field removes the last skill
+ */
+export function SkillsInput({
+  id,
+  value,
+  onChange,
+  suggestions,
+  max,
+  invalid,
+  describedBy,
+}: SkillsInputProps) {
+  const listboxId = useId();
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const matches = getSkillSuggestions(query, value, suggestions);
+  const atLimit = max !== undefined && value.length >= max;
+
+  const addSkill = (skill: string) => {
+    const trimmed = skill.trim();
+    setQuery('');
+    setHighlighted(0);
+    if (!trimmed || atLimit) return;
+    if (value.some((s) => s.toLowerCase() === trimmed.toLowerCase())) return;
+    onChange([...value, trimmed]);
+  };
+
+  const removeSkill = (skill: string) => {
+    onChange(value.filter((s) => s !== skill));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted((i) => Math.min(i + 1, matches.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted((i) => Math.max(i - 1, 0));
+        break;
+      case 'Enter':
+      case ',':
+        e.preventDefault();
+        addSkill(matches[highlighted] ?? query);
+        break;
+      case 'Escape':
+        setQuery('');
+        break;
+      case 'Backspace':
+        if (!query && value.length > 0) removeSkill(value[value.length - 1]);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mb-2" aria-label="Selected skills">
+          {value.map((skill) => (
+            <li
+              key={skill}
+              className="flex items-center px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full text-sm"
+            >
+              {skill}
+              <button
+                type="button"
+                onClick={() => removeSkill(skill)}
+                className="ml-1 hover:text-blue-600"
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Input
+        id={id}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery('')}
+        disabled={atLimit}
+        placeholder={
+          atLimit ? 'Skill limit reached' : 'Type a skill and press Enter'
+        }
+        role="combobox"
+        aria-expanded={matches.length > 0}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          matches.length > 0 ? `${listboxId}-${highlighted}` : undefined
+        }
+        aria-invalid={invalid}
+        aria-describedby={describedBy}
+      />
+      {matches.length > 0 && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg py-1"
+        >
+          {matches.map((skill, index) => (
+            <li
+              key={skill}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input so onBlur doesn't clear the query
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addSkill(skill)}
+              className={cn(
+                'px-3 py-2 text-sm cursor-pointer text-gray-700 dark:text-gray-300',
+                index === highlighted && 'bg-gray-100 dark:bg-gray-700'
+              )}
+            >
+              {skill}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { LogOut, Shield } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FeatureGate } from '@/lib/feature-flags';
+import { useSession } from './session-provider';
+
+function getInitials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join('');
+}
+
+/**
+ * Avatar menu for the signed-in user
+ * Shows a sign-in link for guests
+ */
+export function UserMenu() {
+  const router = useRouter();
+  const { user, status, signOut } = useSession();
+  const [open, setOpen] = useState(false);
+
+  if (status === 'loading') {
+    return (
+      <div className="w-8 h-8 bg-gray-200 dark:bg-gray-700 rounded-full animate-pulse" />
+    );
+  }
+
+  if (!user) {
+    return (
+      <Button size="sm" asChild>
+        <Link href="/login">Sign In</Link>
+      </Button>
+    );
+  }
+
+  const handleSignOut = async () => {
+    setOpen(false);
+    await signOut();
+    router.push('/login');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={user.name}
+      >
+        <span className="text-white text-sm font-medium">
+          {getInitials(user.name) || '?'}
+        </span>
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-56 rounded-md border bg-white dark:bg-gray-800 shadow-lg z-50"
+        >
+          <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {user.name}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {user.email}
+            </p>
+          </div>
+          <FeatureGate flag="ENABLE_TWO_FACTOR_AUTH">
+            <Link
+              role="menuitem"
+              href="/app/settings/security"
+              onClick={() => setOpen(false)}
+              className="flex w-full items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Shield className="w-4 h-4 mr-2" />
+              Security
+            </Link>
+          </FeatureGate>
+          <button
+            role="menuitem"
+            onClick={handleSignOut}
+            className="flex w-full items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,121 @@
 import { gql } from '@apollo/client';
 
+// Auth Fragments
+export const AUTH_PAYLOAD_FIELDS = gql`
+  fragment AuthPayloadFields on AuthPayload {
+    accessToken
+    refreshToken
+    expiresIn
+    user {
+      id
+      email
+      firstName
+      lastName
+      role
+    }
+  }
+`;
+
+// Auth Mutations
+export const LOGIN = gql`
+  mutation Login($input: LoginInput!) {
+    login(input: $input) {
+      ...AuthPayloadFields
+      twoFactorRequired
+      challengeToken
+    }
+  }
+  ${AUTH_PAYLOAD_FIELDS}
+`;
+
+export const REGISTER = gql`
+  mutation Register($input: RegisterInput!) {
+    register(input: $input) {
+      ...AuthPayloadFields
+    }
+  }
+  ${AUTH_PAYLOAD_FIELDS}
+`;
+
+export const REFRESH_TOKEN = gql`
+  mutation RefreshToken($refreshToken: String!) {
+    refreshToken(refreshToken: $refreshToken) {
+      ...AuthPayloadFields
+    }
+  }
+  ${AUTH_PAYLOAD_FIELDS}
+`;
+
+export const LOGOUT = gql`
+  mutation Logout($refreshToken: String!) {
+    logout(refreshToken: $refreshToken)
+  }
+`;
+
+// Signs in with a verified provider identity, linking it to an existing
+// account with the same email when there is one
+export const OAUTH_SIGN_IN = gql`
+  mutation OAuthSignIn($input: OAuthSignInInput!) {
+    oauthSignIn(input: $input) {
+      ...AuthPayloadFields
+      twoFactorRequired
+      challengeToken
+      accountLinked
+    }
+  }
+  ${AUTH_PAYLOAD_FIELDS}
+`;
+
+// Two-Factor Authentication
+export const VERIFY_TWO_FACTOR_LOGIN = gql`
+  mutation VerifyTwoFactorLogin($challengeToken: String!, $code: String!) {
+    verifyTwoFactorLogin(challengeToken: $challengeToken, code: $code) {
+      ...AuthPayloadFields
+    }
+  }
+  ${AUTH_PAYLOAD_FIELDS}
+`;
+
+export const GET_TWO_FACTOR_STATUS = gql`
+  query GetTwoFactorStatus {
+    twoFactorStatus {
+      enabled
+      recoveryCodesRemaining
+    }
+  }
+`;
+
+export const SETUP_TWO_FACTOR = gql`
+  mutation SetupTwoFactor {
+    setupTwoFactor {
+      secret
+      otpauthUrl
+    }
+  }
+`;
+
+export const ENABLE_TWO_FACTOR = gql`
+  mutation EnableTwoFactor($code: String!) {
+    enableTwoFactor(code: $code) {
+      recoveryCodes
+    }
+  }
+`;
+
+export const DISABLE_TWO_FACTOR = gql`
+  mutation DisableTwoFactor($code: String!) {
+    disableTwoFactor(code: $code)
+  }
+`;
+
+export const REGENERATE_RECOVERY_CODES = gql`
+  mutation RegenerateRecoveryCodes($code: String!) {
+    regenerateRecoveryCodes(code: $code) {
+      recoveryCodes
+    }
+  }
+`;
+
 // Job Fragments
 export const JOB_FIELDS = gql`
   fragment JobFields on Job {
@@ -35,8 +151,12 @@ export const GET_JOBS = gql`
 `;
 
 export const SEARCH_JOBS = gql`
-  query SearchJobs($filter: JobFilterInput, $pagination: PaginationInput) {
-    searchJobs(filter: $filter, pagination: $pagination) {
+  query SearchJobs(
+    $filter: JobFilterInput
+    $pagination: PaginationInput
+    $sort: JobSort
+  ) {
+    searchJobs(filter: $filter, pagination: $pagination, sort: $sort) {
       jobs {
         ...JobFields
       }
@@ -156,6 +276,16 @@ export const APPLY_TO_JOB = gql`
   ${APPLICATION_FIELDS}
 `;
 
+// Returns a pre-signed URL to PUT the file to, and its permanent URL
+export const CREATE_RESUME_UPLOAD = gql`
+  mutation CreateResumeUpload($input: ResumeUploadInput!) {
+    createResumeUpload(input: $input) {
+      uploadUrl
+      fileUrl
+    }
+  }
+`;
+
 export const WITHDRAW_APPLICATION = gql`
   mutation WithdrawApplication($applicationId: Int!) {
     withdrawApplication(applicationId: $applicationId) {
@@ -201,6 +331,20 @@ export const GET_BOOKMARKED_JOB_IDS = gql`
   }
 `;
 
+// Collection, note and reminder for each bookmark, kept out of
+// GET_MY_BOOKMARKS so the list still loads from servers without them
+export const GET_BOOKMARK_DETAILS = gql`
+  query GetBookmarkDetails {
+    myBookmarks {
+      id
+      jobId
+      collection
+      note
+      remindAt
+    }
+  }
+`;
+
 // Bookmark Mutations
 export const TOGGLE_BOOKMARK = gql`
   mutation ToggleBookmark($jobId: Int!) {
@@ -227,6 +371,17 @@ export const UNBOOKMARK_JOB = gql`
   }
 `;
 
+export const UPDATE_BOOKMARK_DETAILS = gql`
+  mutation UpdateBookmarkDetails($id: Int!, $input: BookmarkDetailsInput!) {
+    updateBookmarkDetails(id: $id, input: $input) {
+      id
+      collection
+      note
+      remindAt
+    }
+  }
+`;
+
 // Subscriptions
 export const JOB_UPDATES_SUBSCRIPTION = gql`
   subscription JobUpdates {
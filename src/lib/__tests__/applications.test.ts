@@ -0,0 +1,216 @@
+/**
+ * Unit Tests for Job Application Helpers
+ */
+
+import { InMemoryCache } from '@apollo/client';
+import { GET_MY_APPLICATIONS } from '@/graphql/queries';
+import {
+  MyApplication,
+  addApplicationToCache,
+  clearApplicationDraft,
+  clearApplicationDrafts,
+  findActiveApplication,
+  getAdjacentStatus,
+  getPreviousResumes,
+  getResumeFileName,
+  groupApplicationsByStatus,
+  loadApplicationDraft,
+  saveApplicationDraft,
+  validateResumeFile,
+} from '@/lib/applications';
+
+const application = (
+  id: number,
+  jobId: number,
+  status = 'PENDING',
+  resumeUrl: string | null = null
+): MyApplication => ({
+  __typename: 'Application',
+  id,
+  jobId,
+  status,
+  resumeUrl,
+  coverLetter: null,
+  appliedAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+  reviewedAt: null,
+  applicantId: 7,
+  applicant: {
+    __typename: 'User',
+    id: 7,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+  },
+  job: {
+    __typename: 'Job',
+    id: jobId,
+    title: `Job ${jobId}`,
+    budget: 50000,
+    status: 'OPEN',
+    poster: null,
+  },
+});
+
+describe('application helpers', () => {
+  describe('drafts', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('should save drafts per user and job with a timestamp', () => {
+      const saved = saveApplicationDraft(
+        'user-1',
+        12,
+        { coverLetter: 'Hello', resumeUrl: null },
+        1000
+      );
+
+      expect(saved).toEqual({
+        coverLetter: 'Hello',
+        resumeUrl: null,
+        savedAt: 1000,
+      });
+      expect(loadApplicationDraft('user-1', 12)).toEqual(saved);
+      expect(loadApplicationDraft('user-1', 13)).toBeNull();
+      expect(loadApplicationDraft('user-2', 12)).toBeNull();
+    });
+
+    it('should drop the draft instead of saving an empty one', () => {
+      saveApplicationDraft('user-1', 12, {
+        coverLetter: 'Hello',
+        resumeUrl: null,
+      });
+
+      expect(
+        saveApplicationDraft('user-1', 12, {
+          coverLetter: '  ',
+          resumeUrl: null,
+        })
+      ).toBeNull();
+      expect(loadApplicationDraft('user-1', 12)).toBeNull();
+    });
+
+    it('should ignore corrupt drafts', () => {
+      window.localStorage.setItem(
+        'jobpay:application-drafts:user-1',
+        '{not json'
+      );
+
+      expect(loadApplicationDraft('user-1', 12)).toBeNull();
+    });
+
+    it('should clear a submitted draft', () => {
+      saveApplicationDraft('user-1', 12, {
+        coverLetter: 'Hi',
+        resumeUrl: null,
+      });
+      saveApplicationDraft('user-1', 13, {
+        coverLetter: 'Yo',
+        resumeUrl: null,
+      });
+
+      clearApplicationDraft('user-1', 12);
+
+      expect(loadApplicationDraft('user-1', 12)).toBeNull();
+      expect(loadApplicationDraft('user-1', 13)).not.toBeNull();
+    });
+
+    it('should clear every draft of a user who signs out', () => {
+      saveApplicationDraft('user-1', 12, {
+        coverLetter: 'Hi',
+        resumeUrl: null,
+      });
+      saveApplicationDraft('user-2', 12, {
+        coverLetter: 'Yo',
+        resumeUrl: null,
+      });
+
+      clearApplicationDrafts('user-1');
+
+      expect(loadApplicationDraft('user-1', 12)).toBeNull();
+      expect(loadApplicationDraft('user-2', 12)).not.toBeNull();
+    });
+  });
+
+  it('should treat withdrawn applications as re-appliable', () => {
+    const applications = [application(1, 12, 'WITHDRAWN'), application(2, 30)];
+
+    expect(findActiveApplication(applications, 12)).toBeUndefined();
+    expect(findActiveApplication(applications, 30)?.id).toBe(2);
+    expect(findActiveApplication(undefined, 30)).toBeUndefined();
+  });
+
+  it('should list each previously used resume once', () => {
+    const url = 'https://cdn.example.com/resumes/Jane%20Doe.pdf';
+
+    expect(
+      getPreviousResumes([
+        application(1, 1, 'PENDING', url),
+        application(2, 2, 'PENDING', url),
+        application(3, 3),
+      ])
+    ).toEqual([url]);
+    expect(getResumeFileName(url)).toBe('Jane Doe.pdf');
+  });
+
+  it('should only accept PDF and Word resumes up to 5 MB', () => {
+    const pdf = new File(['%PDF'], 'resume.pdf', { type: 'application/pdf' });
+    const image = new File(['x'], 'resume.png', { type: 'image/png' });
+    const large = new File(['x'], 'resume.pdf', { type: 'application/pdf' });
+    Object.defineProperty(large, 'size', { value: 6 * 1024 * 1024 });
+
+    expect(validateResumeFile(pdf)).toBeNull();
+    expect(validateResumeFile(image)).toMatch(/PDF or Word/);
+    expect(validateResumeFile(large)).toMatch(/5 MB/);
+  });
+
+  describe('addApplicationToCache', () => {
+    it('should prepend the application to GET_MY_APPLICATIONS', () => {
+      const cache = new InMemoryCache();
+      cache.writeQuery({
+        query: GET_MY_APPLICATIONS,
+        data: { myApplications: [application(1, 10)] },
+      });
+
+      addApplicationToCache(cache, application(2, 20));
+
+      const result = cache.readQuery<{ myApplications: MyApplication[] }>({
+        query: GET_MY_APPLICATIONS,
+      });
+      expect(result?.myApplications.map(({ id }) => id)).toEqual([2, 1]);
+    });
+
+    it('should leave an uncached list to be fetched later', () => {
+      const cache = new InMemoryCache();
+
+      addApplicationToCache(cache, application(2, 20));
+
+      expect(cache.readQuery({ query: GET_MY_APPLICATIONS })).toBeNull();
+    });
+  });
+
+  describe('review pipeline', () => {
+    it('should group applications into columns and drop withdrawn ones', () => {
+      const columns = groupApplicationsByStatus([
+        application(1, 10),
+        application(2, 10, 'SHORTLISTED'),
+        application(3, 10, 'WITHDRAWN'),
+        application(4, 10),
+      ]);
+
+      expect(columns.PENDING.map(({ id }) => id)).toEqual([1, 4]);
+      expect(columns.SHORTLISTED.map(({ id }) => id)).toEqual([2]);
+      expect(columns.REJECTED).toEqual([]);
+      expect(Object.keys(columns)).not.toContain('WITHDRAWN');
+    });
+
+    it('should find the neighbouring column for keyboard moves', () => {
+      expect(getAdjacentStatus('PENDING', 1)).toBe('REVIEWED');
+      expect(getAdjacentStatus('ACCEPTED', -1)).toBe('SHORTLISTED');
+      expect(getAdjacentStatus('PENDING', -1)).toBeNull();
+      expect(getAdjacentStatus('REJECTED', 1)).toBeNull();
+      expect(getAdjacentStatus('WITHDRAWN', 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for the Client Session Store
+ */
+
+import type { Session } from '@/types';
+
+const session = (accessToken: string, expiresIn = 15 * 60 * 1000): Session => ({
+  user: {
+    id: 'user-42',
+    email: 'jane@example.com',
+    name: 'Jane Doe',
+    role: 'user',
+    isActive: true,
+  },
+  accessToken,
+  expiresAt: Date.now() + expiresIn,
+});
+
+function jsonResponse(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+}
+
+describe('auth-client', () => {
+  let authClient: typeof import('@/lib/auth-client');
+
+  beforeEach(() => {
+    // Fresh module state for every test
+    jest.resetModules();
+    authClient = require('@/lib/auth-client');
+    global.fetch = jest.fn();
+  });
+
+  it('should share one refresh request between concurrent callers', async () => {
+    let resolveRefresh: (value: unknown) => void = () => {};
+    (fetch as jest.Mock).mockReturnValue(
+      new Promise((resolve) => {
+        resolveRefresh = resolve;
+      })
+    );
+
+    const first = authClient.refreshSession();
+    const second = authClient.refreshSession();
+    resolveRefresh(await jsonResponse(session('fresh-token')));
+
+    expect((await first)?.accessToken).toBe('fresh-token');
+    expect((await second)?.accessToken).toBe('fresh-token');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      '/api/auth/refresh',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should refresh an expired access token before using it', async () => {
+    authClient.setSession(session('stale-token', -1000));
+    (fetch as jest.Mock).mockReturnValue(jsonResponse(session('fresh-token')));
+
+    expect(await authClient.getValidAccessToken()).toBe('fresh-token');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse a valid access token without a request', async () => {
+    authClient.setSession(session('current-token'));
+
+    expect(await authClient.getValidAccessToken()).toBe('current-token');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a refresh when restoring an expired session', async () => {
+    (fetch as jest.Mock)
+      .mockReturnValueOnce(jsonResponse({ user: null }, 401))
+      .mockReturnValueOnce(jsonResponse(session('fresh-token')));
+
+    expect(await authClient.getValidAccessToken()).toBe('fresh-token');
+    expect((fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+      '/api/auth/session',
+      '/api/auth/refresh',
+    ]);
+  });
+
+  it('should clear the session when the refresh fails', async () => {
+    const listener = jest.fn();
+    authClient.setSession(session('stale-token', -1000));
+    authClient.subscribeToSession(listener);
+    (fetch as jest.Mock).mockReturnValue(
+      jsonResponse({ error: 'No refresh token' }, 401)
+    );
+
+    expect(await authClient.getValidAccessToken()).toBeNull();
+    expect(authClient.getSession()).toBeNull();
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  it('should hold off on a session until the second factor is verified', async () => {
+    (fetch as jest.Mock)
+      .mockReturnValueOnce(jsonResponse({ twoFactorRequired: true }))
+      .mockReturnValueOnce(jsonResponse(session('verified-token')));
+
+    const result = await authClient.signIn({
+      email: 'jane@example.com',
+      password: 'Secret123!',
+    });
+
+    expect(result).toEqual({ status: 'two_factor_required' });
+    expect(authClient.getSession()).toBeNull();
+
+    await authClient.verifyTwoFactor('123456');
+
+    expect(authClient.getAccessToken()).toBe('verified-token');
+    expect(fetch).toHaveBeenLastCalledWith(
+      '/api/auth/two-factor',
+      expect.objectContaining({ body: JSON.stringify({ code: '123456' }) })
+    );
+  });
+
+  it('should only accept relative return paths', () => {
+    expect(authClient.getSafeReturnTo('/jobs?page=2')).toBe('/jobs?page=2');
+    expect(authClient.getSafeReturnTo('//evil.example.com')).toBe('/app');
+    expect(authClient.getSafeReturnTo('https://evil.example.com')).toBe('/app');
+    expect(authClient.getSafeReturnTo(null)).toBe('/app');
+  });
+
+  it('should reject return paths browsers read as another host', () => {
+    expect(authClient.getSafeReturnTo('/\\evil.example.com')).toBe('/app');
+    expect(authClient.getSafeReturnTo('/%5Cevil.example.com')).toBe('/app');
+    expect(authClient.getSafeReturnTo('/%2F%2Fevil.example.com')).toBe('/app');
+    expect(authClient.getSafeReturnTo('/\tevil.example.com')).toBe('/app');
+    expect(authClient.getSafeReturnTo('/jobs?q=a%20b')).toBe('/jobs?q=a%20b');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for Bookmark Collections, Notes and Reminders
+ */
+
+import {
+  BookmarkDetails,
+  NO_COLLECTION,
+  emptyBookmarkDetails,
+  getBookmarkCollections,
+  isMissingFieldError,
+  isReminderDue,
+  loadLocalBookmarkDetails,
+  normalizeBookmarkDetails,
+  organizeBookmarks,
+  saveLocalBookmarkDetails,
+  subscribeToBookmarkDetails,
+} from '@/lib/bookmark-details';
+
+const bookmark = (jobId: number, budget: number, day: number) => ({
+  jobId,
+  createdAt: `2024-05-0${day}T10:00:00.000Z`,
+  job: { budget },
+});
+
+const withDetails = (
+  entries: [number, Partial<BookmarkDetails>][]
+): Map<number, BookmarkDetails> =>
+  new Map(
+    entries.map(([jobId, details]) => [
+      jobId,
+      { ...emptyBookmarkDetails, ...details },
+    ])
+  );
+
+describe('bookmark details', () => {
+  it('should trim inputs and drop empty or malformed ones', () => {
+    expect(
+      normalizeBookmarkDetails({
+        collection: '  Apply   this week ',
+        note: '   ',
+        remindAt: '01/06/2024',
+      })
+    ).toEqual({ collection: 'Apply this week', note: null, remindAt: null });
+    expect(normalizeBookmarkDetails({ remindAt: '2024-06-01' }).remindAt).toBe(
+      '2024-06-01'
+    );
+  });
+
+  it('should treat reminders as due from their day onwards', () => {
+    const now = new Date(2024, 5, 1, 18, 30);
+
+    expect(isReminderDue('2024-06-01', now)).toBe(true);
+    expect(isReminderDue('2024-05-20', now)).toBe(true);
+    expect(isReminderDue('2024-06-02', now)).toBe(false);
+    expect(isReminderDue(null, now)).toBe(false);
+  });
+
+  it('should list each collection once, alphabetically', () => {
+    const details = withDetails([
+      [1, { collection: 'Shortlist' }],
+      [2, { collection: 'apply this week' }],
+      [3, { collection: 'Apply this week' }],
+      [4, {}],
+    ]);
+
+    expect(getBookmarkCollections(details)).toEqual([
+      'apply this week',
+      'Shortlist',
+    ]);
+  });
+
+  describe('organizeBookmarks', () => {
+    const bookmarks = [
+      bookmark(1, 30000, 1),
+      bookmark(2, 90000, 2),
+      bookmark(3, 50000, 3),
+    ];
+    const details = withDetails([
+      [1, { collection: 'Shortlist', remindAt: '2024-06-10' }],
+      [2, { collection: 'shortlist', remindAt: '2024-06-03' }],
+    ]);
+    const ids = (view: Parameters<typeof organizeBookmarks>[2]) =>
+      organizeBookmarks(bookmarks, details, view).map(({ jobId }) => jobId);
+
+    it('should sort by date saved, budget or reminder', () => {
+      expect(ids({ collection: null, sort: 'SAVED_NEWEST' })).toEqual([
+        3, 2, 1,
+      ]);
+      expect(ids({ collection: null, sort: 'SAVED_OLDEST' })).toEqual([
+        1, 2, 3,
+      ]);
+      expect(ids({ collection: null, sort: 'BUDGET_HIGH' })).toEqual([2, 3, 1]);
+      expect(ids({ collection: null, sort: 'BUDGET_LOW' })).toEqual([1, 3, 2]);
+      expect(ids({ collection: null, sort: 'REMINDER' })).toEqual([2, 1, 3]);
+    });
+
+    it('should filter by collection', () => {
+      expect(ids({ collection: 'SHORTLIST', sort: 'SAVED_NEWEST' })).toEqual([
+        2, 1,
+      ]);
+      expect(ids({ collection: NO_COLLECTION, sort: 'SAVED_NEWEST' })).toEqual([
+        3,
+      ]);
+    });
+  });
+
+  it('should recognise a server without the new fields', () => {
+    expect(
+      isMissingFieldError({
+        graphQLErrors: [
+          { message: 'Cannot query field "collection" on type "Bookmark".' },
+        ],
+      })
+    ).toBe(true);
+    expect(
+      isMissingFieldError({
+        graphQLErrors: [],
+        networkError: {
+          result: {
+            errors: [
+              {
+                message: 'Validation failed',
+                extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
+              },
+            ],
+          },
+        },
+      })
+    ).toBe(true);
+    expect(
+      isMissingFieldError({ graphQLErrors: [{ message: 'Not authorized' }] })
+    ).toBe(false);
+  });
+
+  it('should keep details per user in local storage', () => {
+    window.localStorage.clear();
+    const listener = jest.fn();
+    const unsubscribe = subscribeToBookmarkDetails(listener);
+    const details = normalizeBookmarkDetails({
+      collection: 'Shortlist',
+      note: 'Ask about remote work',
+    });
+
+    saveLocalBookmarkDetails('user-1', 7, details);
+    saveLocalBookmarkDetails('user-1', 8, details);
+    saveLocalBookmarkDetails('user-1', 8, emptyBookmarkDetails);
+    unsubscribe();
+
+    expect(Array.from(loadLocalBookmarkDetails('user-1'))).toEqual([
+      [7, details],
+    ]);
+    expect(loadLocalBookmarkDetails('user-2').size).toBe(0);
+    expect(listener).toHaveBeenCalledWith('user-1');
+  });
+});
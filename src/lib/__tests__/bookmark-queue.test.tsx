@@ -0,0 +1,315 @@
+/**
+ * Unit Tests for the Offline Bookmark Queue
+ */
+
+import 'fake-indexeddb/auto';
+import { deserialize, serialize } from 'v8';
+import { IDBFactory } from 'fake-indexeddb';
+import { MockedProvider, type MockedResponse } from '@apollo/client/testing';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  BOOKMARK_JOB,
+  GET_BOOKMARKED_JOB_IDS,
+  UNBOOKMARK_JOB,
+  WITHDRAW_APPLICATION,
+} from '@/graphql/queries';
+import {
+  QueuedBookmark,
+  QueuedWithdrawal,
+  getPendingBookmarks,
+  getPendingWithdrawals,
+  isOfflineError,
+  loadBookmarkQueue,
+  resolveBookmarkQueue,
+  resolveQueue,
+  useBookmarkQueue,
+  useWithdrawalQueue,
+} from '@/lib/bookmark-queue';
+
+// fake-indexeddb clones records with structuredClone, which jsdom lacks
+if (typeof globalThis.structuredClone === 'undefined') {
+  globalThis.structuredClone = (value: unknown) =>
+    deserialize(serialize(value));
+}
+
+let nextId = 1;
+const entry = (jobId: number, bookmarked: boolean): QueuedBookmark => ({
+  id: nextId++,
+  kind: 'bookmark',
+  userId: 'user-1',
+  jobId,
+  bookmarked,
+  queuedAt: '2024-06-01T09:00:00.000Z',
+});
+const withdrawal = (applicationId: number): QueuedWithdrawal => ({
+  id: nextId++,
+  kind: 'withdrawal',
+  userId: 'user-1',
+  applicationId,
+  queuedAt: '2024-06-01T09:00:00.000Z',
+});
+
+const withdrawnApplication = (id: number) => ({
+  __typename: 'Application',
+  id,
+  coverLetter: null,
+  resumeUrl: null,
+  status: 'WITHDRAWN',
+  appliedAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-06-01T10:00:00.000Z',
+  reviewedAt: null,
+  applicantId: 7,
+  jobId: 12,
+  applicant: {
+    __typename: 'User',
+    id: 7,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+  },
+  job: {
+    __typename: 'Job',
+    id: 12,
+    title: 'React Developer',
+    budget: 50000,
+    status: 'OPEN',
+    poster: { __typename: 'User', id: 3, firstName: 'Asha', lastName: 'Rao' },
+  },
+});
+
+// What HttpLink rejects with when the server answers with an HTTP error
+const serverError = Object.assign(
+  new Error('Response not successful: Received status code 500'),
+  { name: 'ServerError', statusCode: 500 }
+);
+
+describe('bookmark queue', () => {
+  it('should report the state each queued job will end up in', () => {
+    const pending = getPendingBookmarks([
+      entry(1, true),
+      entry(2, false),
+      entry(1, false),
+    ]);
+
+    expect(Array.from(pending)).toEqual([
+      [1, false],
+      [2, false],
+    ]);
+    expect(
+      Array.from(getPendingWithdrawals([entry(1, true), withdrawal(5)]))
+    ).toEqual([5]);
+  });
+
+  describe('resolveBookmarkQueue', () => {
+    it('should replay changes in the order they were last made', () => {
+      const save = entry(1, true);
+      const remove = entry(2, false);
+      const saveAnother = entry(3, true);
+
+      expect(resolveBookmarkQueue([save, remove, saveAnother], [2])).toEqual([
+        save,
+        remove,
+        saveAnother,
+      ]);
+    });
+
+    it('should skip changes the server already has', () => {
+      expect(
+        resolveBookmarkQueue([entry(1, true), entry(2, false)], [1])
+      ).toEqual([]);
+    });
+
+    it('should send only the last change for a job', () => {
+      const last = entry(1, true);
+
+      expect(
+        resolveBookmarkQueue([entry(1, true), entry(1, false), last], [])
+      ).toEqual([last]);
+      expect(
+        resolveBookmarkQueue([entry(1, false), entry(1, true)], [1])
+      ).toEqual([]);
+    });
+  });
+
+  it('should send withdrawals once each, in the order they were queued', () => {
+    const save = entry(1, true);
+    const withdraw = withdrawal(5);
+    const remove = entry(2, false);
+
+    expect(resolveQueue([save, withdraw, withdrawal(5), remove], [2])).toEqual([
+      save,
+      withdraw,
+      remove,
+    ]);
+  });
+
+  it('should only queue again when the server was unreachable', () => {
+    expect(isOfflineError({ networkError: new TypeError('fetch') })).toBe(true);
+    expect(isOfflineError({ networkError: null, graphQLErrors: [{}] })).toBe(
+      false
+    );
+    expect(isOfflineError({ networkError: serverError })).toBe(false);
+    expect(isOfflineError(new Error('boom'))).toBe(false);
+
+    jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(isOfflineError({ networkError: serverError })).toBe(true);
+    jest.restoreAllMocks();
+  });
+
+  describe('hooks', () => {
+    let online = true;
+    let sent: string[] = [];
+
+    const offline = { error: new TypeError('Failed to fetch') };
+    const bookmarkJob = (
+      jobId: number,
+      outcome: Partial<MockedResponse> = {}
+    ): MockedResponse => ({
+      request: { query: BOOKMARK_JOB, variables: { jobId } },
+      result: () => {
+        sent.push(`bookmark ${jobId}`);
+        return {
+          data: {
+            bookmarkJob: {
+              __typename: 'Bookmark',
+              id: 100 + jobId,
+              jobId,
+              createdAt: '2024-06-01T10:00:00.000Z',
+            },
+          },
+        };
+      },
+      ...outcome,
+    });
+    const unbookmarkJob = (jobId: number): MockedResponse => ({
+      request: { query: UNBOOKMARK_JOB, variables: { jobId } },
+      result: () => {
+        sent.push(`unbookmark ${jobId}`);
+        return { data: { unbookmarkJob: true } };
+      },
+    });
+    const withdrawApplication = (applicationId: number): MockedResponse => ({
+      request: { query: WITHDRAW_APPLICATION, variables: { applicationId } },
+      result: () => {
+        sent.push(`withdraw ${applicationId}`);
+        return {
+          data: { withdrawApplication: withdrawnApplication(applicationId) },
+        };
+      },
+    });
+    const bookmarkedJobIds = (ids: number[]): MockedResponse => ({
+      request: { query: GET_BOOKMARKED_JOB_IDS },
+      result: { data: { bookmarkedJobIds: ids } },
+    });
+
+    const renderQueues = (mocks: MockedResponse[]) =>
+      renderHook(
+        () => ({
+          bookmarks: useBookmarkQueue('user-1'),
+          withdrawals: useWithdrawalQueue('user-1'),
+        }),
+        {
+          wrapper: ({ children }) => (
+            <MockedProvider mocks={mocks}>{children}</MockedProvider>
+          ),
+        }
+      );
+
+    beforeEach(() => {
+      // A fresh, empty database for each test
+      window.indexedDB = new IDBFactory();
+      online = true;
+      sent = [];
+      jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should queue changes offline and replay them in order on reconnect', async () => {
+      online = false;
+      const { result } = renderQueues([
+        bookmarkedJobIds([2, 3]),
+        bookmarkJob(1),
+        withdrawApplication(5),
+        unbookmarkJob(2),
+      ]);
+
+      await act(async () => {
+        await result.current.bookmarks.setBookmarked(1, true);
+        await result.current.withdrawals.withdraw(5);
+        await result.current.bookmarks.setBookmarked(2, false);
+        // Already bookmarked on the server, so nothing to send
+        await result.current.bookmarks.setBookmarked(3, true);
+      });
+
+      await waitFor(() =>
+        expect(Array.from(result.current.bookmarks.pending)).toEqual([
+          [1, true],
+          [2, false],
+          [3, true],
+        ])
+      );
+      expect(Array.from(result.current.withdrawals.pending)).toEqual([5]);
+      expect(sent).toEqual([]);
+
+      online = true;
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await waitFor(() =>
+        expect(result.current.bookmarks.pending.size).toBe(0)
+      );
+      expect(result.current.withdrawals.pending.size).toBe(0);
+      expect(sent).toEqual(['bookmark 1', 'withdraw 5', 'unbookmark 2']);
+      expect(await loadBookmarkQueue('user-1')).toEqual([]);
+    });
+
+    it('should queue a change whose request fails for lack of a connection', async () => {
+      const { result } = renderQueues([bookmarkJob(1, offline)]);
+
+      await act(() => result.current.bookmarks.setBookmarked(1, true));
+
+      await waitFor(() =>
+        expect(Array.from(result.current.bookmarks.pending)).toEqual([
+          [1, true],
+        ])
+      );
+      expect(await loadBookmarkQueue('user-1')).toEqual([
+        expect.objectContaining({
+          kind: 'bookmark',
+          jobId: 1,
+          bookmarked: true,
+        }),
+      ]);
+    });
+
+    it('should drop a change the server rejects instead of queueing it', async () => {
+      const { result } = renderQueues([
+        bookmarkJob(1, { error: serverError }),
+        bookmarkJob(2),
+      ]);
+
+      await act(() =>
+        expect(result.current.bookmarks.setBookmarked(1, true)).rejects.toThrow(
+          'status code 500'
+        )
+      );
+      expect(await loadBookmarkQueue('user-1')).toEqual([]);
+
+      // Nothing is stuck in the queue for later changes to wait behind
+      await act(() => result.current.bookmarks.setBookmarked(2, true));
+      expect(sent).toEqual(['bookmark 2']);
+      expect(await loadBookmarkQueue('user-1')).toEqual([]);
+    });
+
+    it('should send straight away when online with nothing queued', async () => {
+      const { result } = renderQueues([withdrawApplication(5)]);
+
+      await act(() => result.current.withdrawals.withdraw(5));
+
+      expect(sent).toEqual(['withdraw 5']);
+      expect(await loadBookmarkQueue('user-1')).toEqual([]);
+    });
+  });
+});
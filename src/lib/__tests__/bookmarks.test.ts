@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for Bookmark Cache Updates
+ */
+
+import { InMemoryCache } from '@apollo/client';
+import {
+  GET_BOOKMARKED_JOB_IDS,
+  GET_JOB_BY_ID,
+  GET_MY_BOOKMARKS,
+  IS_JOB_BOOKMARKED,
+} from '@/graphql/queries';
+import { MyBookmark, updateBookmarkInCache } from '@/lib/bookmarks';
+import { mockJob } from '@/lib/test-utils';
+
+const job = (id: number, bookmarkCount = 5) => ({
+  ...mockJob,
+  __typename: 'Job',
+  id,
+  bookmarkCount,
+  poster: { ...mockJob.poster, __typename: 'User' },
+});
+
+const bookmark = (id: number, jobId: number) => ({
+  __typename: 'Bookmark' as const,
+  id,
+  jobId,
+  createdAt: '2024-06-01T09:00:00.000Z',
+});
+
+function createCache({ bookmarkedJobIds = [2] } = {}) {
+  const cache = new InMemoryCache();
+  cache.writeQuery({
+    query: GET_JOB_BY_ID,
+    variables: { id: 1 },
+    data: { job: job(1) },
+  });
+  cache.writeQuery({
+    query: GET_BOOKMARKED_JOB_IDS,
+    data: { bookmarkedJobIds },
+  });
+  cache.writeQuery({
+    query: IS_JOB_BOOKMARKED,
+    variables: { jobId: 1 },
+    data: { isJobBookmarked: bookmarkedJobIds.includes(1) },
+  });
+  cache.writeQuery({
+    query: GET_MY_BOOKMARKS,
+    data: {
+      myBookmarks: bookmarkedJobIds.map((jobId) => ({
+        ...bookmark(jobId * 10, jobId),
+        job: job(jobId),
+      })),
+    },
+  });
+  return cache;
+}
+
+function readAll(cache: InMemoryCache) {
+  return {
+    ids: cache.readQuery<{ bookmarkedJobIds: number[] }>({
+      query: GET_BOOKMARKED_JOB_IDS,
+    })?.bookmarkedJobIds,
+    isBookmarked: cache.readQuery<{ isJobBookmarked: boolean }>({
+      query: IS_JOB_BOOKMARKED,
+      variables: { jobId: 1 },
+    })?.isJobBookmarked,
+    count: cache.readQuery<{ job: { bookmarkCount: number } }>({
+      query: GET_JOB_BY_ID,
+      variables: { id: 1 },
+    })?.job.bookmarkCount,
+    list: cache
+      .readQuery<{ myBookmarks: MyBookmark[] }>({ query: GET_MY_BOOKMARKS })
+      ?.myBookmarks.map(({ id, jobId }) => [id, jobId]),
+  };
+}
+
+describe('updateBookmarkInCache', () => {
+  it('should add a bookmark everywhere it is cached', () => {
+    const cache = createCache();
+
+    updateBookmarkInCache(cache, 1, bookmark(11, 1));
+
+    expect(readAll(cache)).toEqual({
+      ids: [2, 1],
+      isBookmarked: true,
+      count: 6,
+      list: [
+        [11, 1],
+        [20, 2],
+      ],
+    });
+  });
+
+  it('should remove a bookmark everywhere it is cached', () => {
+    const cache = createCache({ bookmarkedJobIds: [1, 2] });
+
+    updateBookmarkInCache(cache, 1, null);
+
+    expect(readAll(cache)).toEqual({
+      ids: [2],
+      isBookmarked: false,
+      count: 4,
+      list: [[20, 2]],
+    });
+  });
+
+  it('should not count a change the cache already has', () => {
+    const cache = createCache({ bookmarkedJobIds: [1] });
+
+    updateBookmarkInCache(cache, 1, bookmark(10, 1));
+
+    expect(readAll(cache).count).toBe(5);
+    expect(readAll(cache).list).toEqual([[10, 1]]);
+  });
+
+  it('should leave lists that have not been loaded', () => {
+    const cache = new InMemoryCache();
+
+    updateBookmarkInCache(cache, 1, bookmark(11, 1));
+
+    expect(readAll(cache)).toEqual({
+      ids: undefined,
+      isBookmarked: undefined,
+      count: undefined,
+      list: undefined,
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for Dashboard Stats
+ */
+
+import {
+  DashboardApplication,
+  DashboardBookmark,
+  formatTrend,
+  getDashboardStats,
+  getRecentActivity,
+} from '@/lib/dashboard';
+
+const now = Date.parse('2024-06-30T12:00:00.000Z');
+const daysAgo = (days: number) =>
+  new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+const application = (
+  id: number,
+  status: string,
+  appliedDaysAgo: number,
+  reviewedDaysAgo: number | null = null
+): DashboardApplication => ({
+  id,
+  status,
+  appliedAt: daysAgo(appliedDaysAgo),
+  updatedAt: daysAgo(reviewedDaysAgo ?? appliedDaysAgo),
+  reviewedAt: reviewedDaysAgo === null ? null : daysAgo(reviewedDaysAgo),
+  job: { id: id * 10, title: `Job ${id * 10}`, poster: null },
+});
+
+const bookmark = (id: number, createdDaysAgo: number): DashboardBookmark => ({
+  id,
+  jobId: id * 100,
+  createdAt: daysAgo(createdDaysAgo),
+  job: { id: id * 100, title: `Job ${id * 100}` },
+});
+
+describe('dashboard stats', () => {
+  const applications = [
+    application(1, 'PENDING', 2),
+    application(2, 'SHORTLISTED', 10, 5),
+    application(3, 'ACCEPTED', 20, 3),
+    application(4, 'REJECTED', 40, 35),
+    application(5, 'PENDING', 45),
+    application(6, 'WITHDRAWN', 50),
+    application(7, 'REVIEWED', 90, 80),
+  ];
+
+  it('should count applications, interviews and offers by period', () => {
+    const stats = getDashboardStats(applications, [], now);
+
+    expect(stats.applications).toEqual({
+      total: 7,
+      trend: { current: 3, previous: 3 },
+    });
+    expect(stats.interviews).toEqual({
+      total: 1,
+      trend: { current: 1, previous: 0 },
+    });
+    expect(stats.offers.total).toBe(1);
+    expect(stats.byStatus).toMatchObject({ PENDING: 2, WITHDRAWN: 1 });
+  });
+
+  it('should date interviews and offers by their latest status change', () => {
+    // Reviewed in the previous period, shortlisted and accepted since
+    const moved = [
+      { ...application(1, 'SHORTLISTED', 60, 50), updatedAt: daysAgo(5) },
+      { ...application(2, 'ACCEPTED', 60, 50), updatedAt: daysAgo(2) },
+    ];
+    const stats = getDashboardStats(moved, [], now);
+
+    expect(stats.interviews.trend).toEqual({ current: 1, previous: 0 });
+    expect(stats.offers.trend).toEqual({ current: 1, previous: 0 });
+    expect(
+      getRecentActivity(moved, [], 4).find(({ id }) => id === 'status:2')
+        ?.timestamp
+    ).toBe(daysAgo(2));
+  });
+
+  it('should leave withdrawn applications out of the response rate', () => {
+    const stats = getDashboardStats(applications, [], now);
+
+    // 4 of 6 live applications have a response
+    expect(stats.responseRate.value).toBe(67);
+    // 2 of 3 in the last 30 days, 1 of 2 live ones in the 30 before
+    expect(stats.responseRate.trend).toEqual({ current: 67, previous: 50 });
+  });
+
+  it('should have no response rate without applications', () => {
+    const stats = getDashboardStats([], [bookmark(1, 1)], now);
+
+    expect(stats.responseRate).toEqual({ value: null, trend: null });
+    expect(stats.bookmarks).toEqual({
+      total: 1,
+      trend: { current: 1, previous: 0 },
+    });
+  });
+
+  describe('formatTrend', () => {
+    it('should show the percentage change', () => {
+      expect(formatTrend({ current: 6, previous: 4 })).toEqual({
+        label: '+50%',
+        direction: 'up',
+      });
+      expect(formatTrend({ current: 1, previous: 4 })).toEqual({
+        label: '-75%',
+        direction: 'down',
+      });
+      expect(formatTrend({ current: 2, previous: 2 }).label).toBe('No change');
+    });
+
+    it('should show new items when nothing came before', () => {
+      expect(formatTrend({ current: 3, previous: 0 }).label).toBe('+3 new');
+    });
+
+    it('should show rates in points', () => {
+      expect(formatTrend({ current: 67, previous: 50 }, 'points').label).toBe(
+        '+17 pts'
+      );
+    });
+  });
+
+  it('should list recent activity newest first', () => {
+    const activity = getRecentActivity(
+      [application(1, 'PENDING', 2), application(2, 'SHORTLISTED', 10, 5)],
+      [bookmark(1, 1)],
+      3
+    );
+
+    expect(activity.map(({ id }) => id)).toEqual([
+      'bookmarked:1',
+      'applied:1',
+      'status:2',
+    ]);
+  });
+});
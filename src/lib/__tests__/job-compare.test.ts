@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for Job Comparison
+ */
+
+import {
+  COMPARE_MAX_JOBS,
+  getBestIndexes,
+  getCompareHref,
+  getJobAgeDays,
+  getSharedSkills,
+  hasDifferences,
+  loadCompareSelection,
+  parseCompareParams,
+  saveCompareSelection,
+  subscribeToCompareSelection,
+} from '@/lib/job-compare';
+
+describe('job comparison', () => {
+  it('should round-trip the selection through the query string', () => {
+    const href = getCompareHref([3, 1, 7]);
+
+    expect(href).toBe('/jobs/compare?job=3&job=1&job=7');
+    expect(parseCompareParams(new URLSearchParams(href.split('?')[1]))).toEqual(
+      [3, 1, 7]
+    );
+  });
+
+  it('should drop repeated, malformed and extra ids', () => {
+    expect(
+      parseCompareParams({ job: ['2', '2', 'abc', '0', '5', '6', '7', '8'] })
+    ).toEqual([2, 5, 6, 7]);
+    expect(parseCompareParams({ job: '4' })).toEqual([4]);
+    expect(parseCompareParams({})).toEqual([]);
+  });
+
+  it('should find the skills every job shares', () => {
+    expect(
+      getSharedSkills([
+        { skills: ['React', 'TypeScript', 'GraphQL'] },
+        { skills: ['typescript', 'react'] },
+        { skills: ['Go', 'React', 'TypeScript'] },
+      ])
+    ).toEqual(['React', 'TypeScript']);
+    expect(getSharedSkills([])).toEqual([]);
+  });
+
+  it('should flag rows that differ and their best values', () => {
+    expect(hasDifferences([5, 5, 5])).toBe(false);
+    expect(hasDifferences(['OPEN', 'PAUSED'])).toBe(true);
+
+    expect(getBestIndexes([30000, 90000, 90000], 'highest')).toEqual([1, 2]);
+    expect(getBestIndexes([4, 1, 9], 'lowest')).toEqual([1]);
+    expect(getBestIndexes([2, 2], 'lowest')).toEqual([]);
+  });
+
+  it('should count whole days since a job was posted', () => {
+    const now = Date.parse('2024-06-10T09:00:00.000Z');
+
+    expect(getJobAgeDays('2024-06-10T08:00:00.000Z', now)).toBe(0);
+    expect(getJobAgeDays('2024-06-07T10:00:00.000Z', now)).toBe(2);
+    expect(getJobAgeDays('2024-06-11T10:00:00.000Z', now)).toBe(0);
+  });
+
+  it('should keep the tray in local storage and notify listeners', () => {
+    window.localStorage.clear();
+    const listener = jest.fn();
+    const unsubscribe = subscribeToCompareSelection(listener);
+    const items = Array.from({ length: COMPARE_MAX_JOBS + 1 }, (_, i) => ({
+      id: i + 1,
+      title: `Job ${i + 1}`,
+    }));
+
+    saveCompareSelection(items);
+    unsubscribe();
+
+    expect(loadCompareSelection()).toEqual(items.slice(0, COMPARE_MAX_JOBS));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
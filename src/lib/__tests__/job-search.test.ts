@@ -0,0 +1,288 @@
+/**
+ * Unit Tests for Job Search State
+ */
+
+import {
+  JOBS_MAX_PAGE,
+  JOBS_PAGE_SIZE,
+  defaultJobSearchState,
+  getJobSearchHref,
+  getLoadedPages,
+  getSkillFacets,
+  isSearchTermReady,
+  matchesJobSearch,
+  mergeSearchJobsPages,
+  parseBudgetInput,
+  parseJobSearchParams,
+  saveJobSearchScroll,
+  serializeJobSearchState,
+  sortJobs,
+  takeJobSearchScroll,
+  toSearchJobsVariables,
+} from '@/lib/job-search';
+
+describe('job search state', () => {
+  it('should parse every filter from the query string', () => {
+    const params = new URLSearchParams(
+      'search=react&skills=React&skills=Node.js&skillsMatch=ANY&budgetMin=1000&budgetMax=50000&status=PAUSED&sort=BUDGET_LOW&page=3'
+    );
+
+    expect(parseJobSearchParams(params)).toEqual({
+      search: 'react',
+      skills: ['React', 'Node.js'],
+      skillsMatch: 'ANY',
+      budgetMin: 1000,
+      budgetMax: 50000,
+      status: 'PAUSED',
+      sort: 'BUDGET_LOW',
+      page: 3,
+    });
+  });
+
+  it('should accept the searchParams prop of a server component', () => {
+    expect(
+      parseJobSearchParams({ skills: ['React', 'React'], page: '2' })
+    ).toEqual({ ...defaultJobSearchState, skills: ['React'], page: 2 });
+    expect(parseJobSearchParams({ skills: 'Go' }).skills).toEqual(['Go']);
+  });
+
+  it('should fall back to defaults for malformed values', () => {
+    const params = new URLSearchParams(
+      'budgetMin=-5&budgetMax=lots&status=ARCHIVED&page=0&skills=&skillsMatch=SOME&sort=cheapest'
+    );
+
+    expect(parseJobSearchParams(params)).toEqual(defaultJobSearchState);
+    expect(parseJobSearchParams(new URLSearchParams('page=1.5')).page).toBe(1);
+  });
+
+  it('should leave defaults out of the URL', () => {
+    expect(serializeJobSearchState(defaultJobSearchState)).toBe('');
+    expect(getJobSearchHref(defaultJobSearchState)).toBe('/jobs');
+  });
+
+  it('should round-trip through the query string', () => {
+    const state = {
+      search: 'senior developer',
+      skills: ['React', 'UI/UX Design'],
+      skillsMatch: 'ANY' as const,
+      budgetMin: 0,
+      budgetMax: 90000,
+      status: 'OPEN' as const,
+      sort: 'MOST_BOOKMARKED' as const,
+      page: 2,
+    };
+
+    const href = getJobSearchHref(state);
+
+    expect(href).toBe(
+      '/jobs?search=senior+developer&skills=React&skills=UI%2FUX+Design&skillsMatch=ANY&budgetMin=0&budgetMax=90000&sort=MOST_BOOKMARKED&page=2'
+    );
+    expect(
+      parseJobSearchParams(new URLSearchParams(href.split('?')[1]))
+    ).toEqual(state);
+  });
+
+  it('should cap how many pages a link can ask for', () => {
+    const state = parseJobSearchParams(new URLSearchParams('page=100000'));
+
+    expect(state.page).toBe(JOBS_MAX_PAGE);
+    expect(toSearchJobsVariables(state).pagination.limit).toBe(
+      JOBS_MAX_PAGE * JOBS_PAGE_SIZE
+    );
+  });
+
+  it('should request every loaded page from the start', () => {
+    expect(
+      toSearchJobsVariables({
+        ...defaultJobSearchState,
+        skills: ['React'],
+        page: 3,
+      })
+    ).toEqual({
+      filter: {
+        search: undefined,
+        skills: ['React'],
+        skillsMatch: 'ALL',
+        budgetMin: undefined,
+        budgetMax: undefined,
+        status: 'OPEN',
+      },
+      pagination: { limit: 30, offset: 0 },
+      sort: 'NEWEST',
+    });
+  });
+
+  it('should wait for a search term long enough to be useful', () => {
+    expect(isSearchTermReady('')).toBe(true);
+    expect(isSearchTermReady(' r ')).toBe(false);
+    expect(isSearchTermReady('go')).toBe(true);
+  });
+
+  it('should clear a budget that is not a whole number', () => {
+    expect(parseBudgetInput(' 5000 ')).toBe(5000);
+    expect(parseBudgetInput('')).toBeNull();
+    expect(parseBudgetInput('1e5')).toBeNull();
+    expect(parseBudgetInput('-10')).toBeNull();
+  });
+
+  describe('matchesJobSearch', () => {
+    const job = {
+      title: 'Senior React Developer',
+      description: 'Build dashboards with GraphQL',
+      budget: 60000,
+      status: 'OPEN' as const,
+      skills: ['React', 'TypeScript'],
+    };
+    const { page, ...filter } = defaultJobSearchState;
+
+    it('should match on search text, skills and budget', () => {
+      expect(matchesJobSearch(job, filter)).toBe(true);
+      expect(matchesJobSearch(job, { ...filter, search: 'graphql' })).toBe(
+        true
+      );
+      expect(
+        matchesJobSearch(job, { ...filter, skills: ['react', 'TypeScript'] })
+      ).toBe(true);
+      expect(
+        matchesJobSearch(job, {
+          ...filter,
+          skills: ['Go', 'react'],
+          skillsMatch: 'ANY',
+        })
+      ).toBe(true);
+      expect(
+        matchesJobSearch(job, {
+          ...filter,
+          budgetMin: 50000,
+          budgetMax: 60000,
+        })
+      ).toBe(true);
+    });
+
+    it('should reject jobs outside the filter', () => {
+      expect(matchesJobSearch(job, { ...filter, search: 'python' })).toBe(
+        false
+      );
+      expect(
+        matchesJobSearch(job, { ...filter, skills: ['React', 'Go'] })
+      ).toBe(false);
+      expect(
+        matchesJobSearch(job, {
+          ...filter,
+          skills: ['Go', 'Rust'],
+          skillsMatch: 'ANY',
+        })
+      ).toBe(false);
+      expect(matchesJobSearch(job, { ...filter, budgetMin: 70000 })).toBe(
+        false
+      );
+      expect(matchesJobSearch(job, { ...filter, status: 'PAUSED' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('pagination', () => {
+    const page = (ids: number[], hasMore = true) => ({
+      jobs: ids,
+      total: 25,
+      hasMore,
+    });
+
+    it('should append later pages by offset', () => {
+      const merged = mergeSearchJobsPages(page([1, 2]), page([3, 4], false), 2);
+
+      expect(merged).toEqual({ jobs: [1, 2, 3, 4], total: 25, hasMore: false });
+    });
+
+    it('should start over from the first page', () => {
+      expect(mergeSearchJobsPages(page([1, 2, 3]), page([9]), 0).jobs).toEqual([
+        9,
+      ]);
+      expect(mergeSearchJobsPages(undefined, page([1]), 10).jobs).toEqual([1]);
+    });
+
+    it('should replace a page that is loaded again', () => {
+      expect(
+        mergeSearchJobsPages(page([1, 2, 3, 4]), page([5, 6]), 2).jobs
+      ).toEqual([1, 2, 5, 6]);
+    });
+
+    it('should count the pages loaded', () => {
+      expect(getLoadedPages(0)).toBe(1);
+      expect(getLoadedPages(10)).toBe(1);
+      expect(getLoadedPages(21)).toBe(3);
+    });
+  });
+
+  it('should restore the scroll position once per search', () => {
+    saveJobSearchScroll('/jobs?skills=React', 1234.4);
+
+    expect(takeJobSearchScroll('/jobs')).toBeNull();
+    expect(takeJobSearchScroll('/jobs?skills=React')).toBe(1234);
+    expect(takeJobSearchScroll('/jobs?skills=React')).toBeNull();
+  });
+
+  describe('getSkillFacets', () => {
+    const jobs = [
+      { skills: ['React', 'TypeScript'] },
+      { skills: ['react', 'Node.js', 'React'] },
+      { skills: ['TypeScript', 'Go'] },
+      { skills: ['React'] },
+    ];
+
+    it('should count each skill once per job, most common first', () => {
+      expect(getSkillFacets(jobs, [])).toEqual([
+        { skill: 'React', count: 3 },
+        { skill: 'TypeScript', count: 2 },
+        { skill: 'Go', count: 1 },
+        { skill: 'Node.js', count: 1 },
+      ]);
+    });
+
+    it('should keep selected skills beyond the limit', () => {
+      expect(getSkillFacets(jobs, ['Rust', 'go'], 1)).toEqual([
+        { skill: 'React', count: 3 },
+        { skill: 'Rust', count: 0 },
+        { skill: 'go', count: 1 },
+      ]);
+    });
+  });
+
+  describe('sortJobs', () => {
+    const job = (
+      id: number,
+      budget: number,
+      applicationCount: number,
+      bookmarkCount: number,
+      day: number
+    ) => ({
+      id,
+      budget,
+      applicationCount,
+      bookmarkCount,
+      createdAt: `2024-05-0${day}T10:00:00.000Z`,
+    });
+    const jobs = [
+      job(1, 30000, 4, 0, 1),
+      job(2, 90000, 1, 7, 2),
+      job(3, 30000, 9, 2, 3),
+    ];
+    const ids = (sort: Parameters<typeof sortJobs>[1]) =>
+      sortJobs(jobs, sort).map(({ id }) => id);
+
+    it('should order jobs like the server', () => {
+      expect(ids('NEWEST')).toEqual([3, 2, 1]);
+      expect(ids('BUDGET_HIGH')).toEqual([2, 3, 1]);
+      expect(ids('BUDGET_LOW')).toEqual([3, 1, 2]);
+      expect(ids('FEWEST_APPLICATIONS')).toEqual([2, 1, 3]);
+      expect(ids('MOST_BOOKMARKED')).toEqual([2, 3, 1]);
+    });
+
+    it('should not reorder the list it was given', () => {
+      sortJobs(jobs, 'BUDGET_HIGH');
+
+      expect(jobs.map(({ id }) => id)).toEqual([1, 2, 3]);
+    });
+  });
+});
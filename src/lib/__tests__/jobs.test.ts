@@ -0,0 +1,176 @@
+/**
+ * Unit Tests for Employer Job Helpers
+ */
+
+import { InMemoryCache } from '@apollo/client';
+import { GET_MY_JOBS } from '@/graphql/queries';
+import {
+  JobPostingForm,
+  addJobToMyJobsCache,
+  canTransitionJob,
+  clearJobPostingDraft,
+  getSkillSuggestions,
+  getTransitionableJobs,
+  loadJobPostingDraft,
+  saveJobPostingDraft,
+  validateJobPosting,
+} from '@/lib/jobs';
+import type { Job } from '@/types';
+
+const validForm: JobPostingForm = {
+  title: 'Build a React dashboard',
+  description:
+    'We need a **responsive** analytics dashboard built with React and charts for our finance team.',
+  budget: '45000',
+  skills: ['React', 'TypeScript'],
+};
+
+const job = (id: number): Job & { __typename: string } => ({
+  __typename: 'Job',
+  id,
+  title: `Job ${id}`,
+  description: null,
+  budget: 45000,
+  status: 'OPEN',
+  skills: ['React'],
+  isActive: true,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+  posterId: 3,
+  applicationCount: 0,
+  bookmarkCount: 0,
+  poster: {
+    __typename: 'User',
+    id: 3,
+    firstName: 'Asha',
+    lastName: 'Rao',
+    email: 'asha@example.com',
+  } as Job['poster'],
+});
+
+describe('job posting helpers', () => {
+  describe('validateJobPosting', () => {
+    it('should accept a complete posting', () => {
+      expect(validateJobPosting(validForm)).toEqual({});
+    });
+
+    it('should report the first error for each field', () => {
+      const errors = validateJobPosting({
+        title: 'Dev',
+        description: 'Too short',
+        budget: '',
+        skills: [],
+      });
+
+      expect(errors).toEqual({
+        title: expect.stringMatching(/at least 5/),
+        description: expect.stringMatching(/at least 50/),
+        budget: 'Enter a budget',
+        skills: 'Add at least one skill',
+      });
+    });
+
+    it('should only check the fields of the current step', () => {
+      const form = { ...validForm, budget: '12.5', skills: [] };
+
+      expect(validateJobPosting(form, ['title', 'description'])).toEqual({});
+      expect(validateJobPosting(form, ['budget'])).toEqual({
+        budget: expect.stringMatching(/whole number/),
+      });
+    });
+  });
+
+  it('should rank prefix matches first and skip selected skills', () => {
+    const pool = ['Node.js', 'React', 'React Native', 'Preact', 'react'];
+
+    expect(getSkillSuggestions('rea', [], pool)).toEqual([
+      'React',
+      'React Native',
+      'Preact',
+    ]);
+    expect(getSkillSuggestions('REACT', ['react'], pool)).toEqual([
+      'React Native',
+      'Preact',
+    ]);
+    expect(getSkillSuggestions('  ', [], pool)).toEqual([]);
+  });
+
+  describe('drafts', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('should round-trip a draft per user with its save time', () => {
+      saveJobPostingDraft('user-1', validForm, 1000);
+
+      expect(loadJobPostingDraft('user-1')).toEqual({
+        ...validForm,
+        savedAt: 1000,
+      });
+      expect(loadJobPostingDraft('user-2')).toBeNull();
+
+      clearJobPostingDraft('user-1');
+
+      expect(loadJobPostingDraft('user-1')).toBeNull();
+    });
+
+    it('should ignore corrupt drafts', () => {
+      window.localStorage.setItem(
+        'jobpay:job-posting-draft:user-1',
+        '{not json'
+      );
+
+      expect(loadJobPostingDraft('user-1')).toBeNull();
+    });
+  });
+
+  describe('addJobToMyJobsCache', () => {
+    it('should prepend the job to GET_MY_JOBS once', () => {
+      const cache = new InMemoryCache();
+      cache.writeQuery({ query: GET_MY_JOBS, data: { myJobs: [job(1)] } });
+
+      addJobToMyJobsCache(cache, job(2));
+      addJobToMyJobsCache(cache, job(2));
+
+      const result = cache.readQuery<{ myJobs: Job[] }>({ query: GET_MY_JOBS });
+      expect(result?.myJobs.map(({ id }) => id)).toEqual([2, 1]);
+    });
+
+    it('should leave an uncached list to be fetched later', () => {
+      const cache = new InMemoryCache();
+
+      addJobToMyJobsCache(cache, job(2));
+
+      expect(cache.readQuery({ query: GET_MY_JOBS })).toBeNull();
+    });
+  });
+
+  describe('status lifecycle', () => {
+    it('should allow pausing, resuming, closing and filling', () => {
+      expect(canTransitionJob('OPEN', 'PAUSED')).toBe(true);
+      expect(canTransitionJob('PAUSED', 'OPEN')).toBe(true);
+      expect(canTransitionJob('PAUSED', 'FILLED')).toBe(true);
+      expect(canTransitionJob('OPEN', 'OPEN')).toBe(false);
+    });
+
+    it('should never reopen closed or filled jobs', () => {
+      expect(canTransitionJob('CLOSED', 'OPEN')).toBe(false);
+      expect(canTransitionJob('FILLED', 'PAUSED')).toBe(false);
+    });
+
+    it('should only bulk-close selected jobs that can be closed', () => {
+      const jobs = [
+        { ...job(1), status: 'OPEN' as const },
+        { ...job(2), status: 'CLOSED' as const },
+        { ...job(3), status: 'PAUSED' as const },
+        { ...job(4), status: 'OPEN' as const },
+      ];
+
+      expect(
+        getTransitionableJobs(jobs, new Set([1, 2, 3]), 'CLOSED').map(
+          ({ id }) => id
+        )
+      ).toEqual([1, 3]);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for Local Storage Stores
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { createLocalStore } from '@/lib/local-store';
+
+const store = createLocalStore<number[]>({
+  key: (userId) => `test:numbers:${userId}`,
+  empty: () => [],
+  parse: (stored) => (Array.isArray(stored) ? stored : []),
+  label: 'numbers',
+});
+
+describe('local storage stores', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should keep a value per scope and fall back when unreadable', () => {
+    store.save([1, 2], 'user-1');
+    store.update((current) => [...current, 3], 'user-1');
+    window.localStorage.setItem(store.key('user-2'), '{not json');
+
+    expect(store.load('user-1')).toEqual([1, 2, 3]);
+    expect(store.load('user-2')).toEqual([]);
+    expect(store.load('user-3')).toEqual([]);
+
+    store.clear('user-1');
+    expect(window.localStorage.getItem(store.key('user-1'))).toBeNull();
+  });
+
+  it('should follow saves from this tab and others for its scope only', () => {
+    const { result } = renderHook(() => store.useValue('user-1'));
+    expect(result.current).toEqual([]);
+
+    act(() => store.save([1], 'user-1'));
+    expect(result.current).toEqual([1]);
+
+    act(() => store.save([9], 'user-2'));
+    expect(result.current).toEqual([1]);
+
+    // Another tab writes storage directly and fires the event here
+    act(() => {
+      window.localStorage.setItem(store.key('user-1'), '[1,2]');
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: store.key('user-1') })
+      );
+    });
+    expect(result.current).toEqual([1, 2]);
+  });
+
+  it('should stay empty without a scope', () => {
+    store.save([1], 'user-1');
+    const { result } = renderHook(() => store.useValue(null));
+
+    expect(result.current).toEqual([]);
+  });
+});
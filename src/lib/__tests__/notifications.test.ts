@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Notification Center Helpers
+ */
+
+import {
+  NOTIFICATIONS_LIMIT,
+  addNotification,
+  countUnread,
+  formatNotificationTime,
+  loadNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  saveNotifications,
+  subscribeToNotifications,
+  toNotification,
+  updateNotifications,
+} from '@/lib/notifications';
+
+const event = (applicationId: number, timestamp: string) => ({
+  type: 'STATUS_CHANGED',
+  applicationId,
+  jobId: 12,
+  message: `Application ${applicationId} was reviewed`,
+  timestamp,
+});
+
+describe('notification helpers', () => {
+  it('should keep the feed newest first without duplicates', () => {
+    const older = toNotification(event(1, '2024-05-01T10:00:00.000Z'));
+    const newer = toNotification(event(2, '2024-05-02T10:00:00.000Z'));
+
+    let feed = addNotification([], older);
+    feed = addNotification(feed, newer);
+    feed = addNotification(feed, toNotification(event(1, older.timestamp)));
+
+    expect(feed.map(({ message }) => message)).toEqual([
+      'Application 2 was reviewed',
+      'Application 1 was reviewed',
+    ]);
+  });
+
+  it('should cap the feed', () => {
+    let feed = [] as ReturnType<typeof toNotification>[];
+    for (let i = 0; i < NOTIFICATIONS_LIMIT + 5; i++) {
+      feed = addNotification(
+        feed,
+        toNotification(
+          event(i, new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString())
+        )
+      );
+    }
+
+    expect(feed).toHaveLength(NOTIFICATIONS_LIMIT);
+    expect(feed[0].message).toBe(
+      `Application ${NOTIFICATIONS_LIMIT + 4} was reviewed`
+    );
+  });
+
+  it('should mark one or all notifications as read', () => {
+    const feed = [
+      toNotification(event(1, '2024-05-02T10:00:00.000Z')),
+      toNotification(event(2, '2024-05-01T10:00:00.000Z')),
+    ];
+
+    expect(countUnread(feed)).toBe(2);
+    expect(countUnread(markNotificationRead(feed, feed[0].id))).toBe(1);
+    expect(countUnread(markAllNotificationsRead(feed))).toBe(0);
+  });
+
+  it('should persist the feed per user', () => {
+    window.localStorage.clear();
+    const feed = [toNotification(event(1, '2024-05-02T10:00:00.000Z'), '/a')];
+
+    saveNotifications('user-1', feed);
+
+    expect(loadNotifications('user-1')).toEqual(feed);
+    expect(loadNotifications('user-2')).toEqual([]);
+  });
+
+  it('should tell this tab about changes to a feed', () => {
+    window.localStorage.clear();
+    const listener = jest.fn();
+    const unsubscribe = subscribeToNotifications(listener);
+    const notification = toNotification(event(1, '2024-05-02T10:00:00.000Z'));
+
+    updateNotifications('user-1', (current) =>
+      addNotification(current, notification)
+    );
+    unsubscribe();
+
+    expect(loadNotifications('user-1')).toEqual([notification]);
+    expect(listener).toHaveBeenCalledWith('user-1');
+  });
+
+  it('should describe how long ago a notification arrived', () => {
+    const now = Date.parse('2024-05-02T10:00:00.000Z');
+
+    expect(formatNotificationTime('2024-05-02T09:59:30.000Z', now)).toBe(
+      'just now'
+    );
+    expect(formatNotificationTime('2024-05-02T09:55:00.000Z', now)).toBe(
+      '5 minutes ago'
+    );
+    expect(formatNotificationTime('2024-05-01T10:00:00.000Z', now)).toBe(
+      'yesterday'
+    );
+  });
+});
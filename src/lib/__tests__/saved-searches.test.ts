@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Saved Searches and Job Alerts
+ */
+
+import { defaultJobSearchState, toJobSearchFilter } from '@/lib/job-search';
+import {
+  SavedSearch,
+  collectDueDigests,
+  createSavedSearch,
+  getSavedSearchHref,
+  loadSavedSearches,
+  markSavedSearchVisited,
+  recordNewJob,
+  saveSavedSearches,
+  subscribeToSavedSearches,
+} from '@/lib/saved-searches';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2024-06-01T09:00:00.000Z');
+const filter = {
+  ...toJobSearchFilter(defaultJobSearchState),
+  skills: ['React'],
+};
+
+const job = (id: number, skills: string[]) => ({
+  id,
+  title: `Job ${id}`,
+  description: null,
+  budget: 50000,
+  status: 'OPEN' as const,
+  skills,
+});
+
+describe('saved searches', () => {
+  it('should create a search with a trimmed name', () => {
+    const search = createSavedSearch('  React roles ', filter, 'daily', now);
+
+    expect(search).toMatchObject({
+      name: 'React roles',
+      filter,
+      frequency: 'daily',
+      lastVisitedAt: '2024-06-01T09:00:00.000Z',
+      newJobIds: [],
+    });
+  });
+
+  it('should link to the search on /jobs', () => {
+    const search = createSavedSearch('React', filter, 'daily', now);
+
+    expect(getSavedSearchHref(search)).toBe('/jobs?skills=React');
+  });
+
+  describe('recordNewJob', () => {
+    it('should count matching jobs once and queue them for digests', () => {
+      const daily = createSavedSearch('React', filter, 'daily', now);
+
+      let result = recordNewJob([daily], job(1, ['React', 'Node.js']));
+      result = recordNewJob(result.searches, job(1, ['React', 'Node.js']));
+      result = recordNewJob(result.searches, job(2, ['Python']));
+
+      expect(result.searches[0]).toMatchObject({
+        newJobIds: [1],
+        pendingJobIds: [1],
+      });
+      expect(result.instant).toEqual([]);
+    });
+
+    it('should report instant searches straight away', () => {
+      const instant = createSavedSearch('React', filter, 'instant', now);
+
+      const result = recordNewJob([instant], job(1, ['react']));
+
+      expect(result.instant.map(({ id }) => id)).toEqual([instant.id]);
+      expect(result.searches[0]).toMatchObject({
+        newJobIds: [1],
+        pendingJobIds: [],
+      });
+    });
+  });
+
+  describe('collectDueDigests', () => {
+    const withPending = (frequency: SavedSearch['frequency']): SavedSearch => ({
+      ...createSavedSearch('React', filter, frequency, now),
+      pendingJobIds: [1, 2],
+    });
+
+    it('should send a digest once the period is up', () => {
+      const daily = withPending('daily');
+
+      expect(collectDueDigests([daily], now + DAY_MS / 2).due).toEqual([]);
+
+      const { searches, due } = collectDueDigests([daily], now + DAY_MS);
+      expect(due).toEqual([daily]);
+      expect(searches[0]).toMatchObject({
+        pendingJobIds: [],
+        lastAlertedAt: new Date(now + DAY_MS).toISOString(),
+      });
+    });
+
+    it('should wait a week for weekly digests', () => {
+      const weekly = withPending('weekly');
+
+      expect(collectDueDigests([weekly], now + 6 * DAY_MS).due).toEqual([]);
+      expect(collectDueDigests([weekly], now + 7 * DAY_MS).due).toHaveLength(1);
+    });
+  });
+
+  it('should clear the new count when a search is opened', () => {
+    const search = {
+      ...createSavedSearch('React', filter, 'daily', now),
+      newJobIds: [1],
+    };
+
+    const [visited] = markSavedSearchVisited([search], search.id, now + DAY_MS);
+
+    expect(visited.newJobIds).toEqual([]);
+    expect(visited.lastVisitedAt).toBe(new Date(now + DAY_MS).toISOString());
+  });
+
+  it('should persist searches per user and notify listeners', () => {
+    window.localStorage.clear();
+    const listener = jest.fn();
+    const unsubscribe = subscribeToSavedSearches(listener);
+    const search = createSavedSearch('React', filter, 'weekly', now);
+
+    saveSavedSearches('user-1', [search]);
+    unsubscribe();
+
+    expect(loadSavedSearches('user-1')).toEqual([search]);
+    expect(loadSavedSearches('user-2')).toEqual([]);
+    expect(listener).toHaveBeenCalledWith('user-1');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for Real-time Update Helpers
+ */
+
+import { InMemoryCache } from '@apollo/client';
+import { MockedProvider } from '@apollo/client/testing';
+import { renderHook, waitFor } from '@testing-library/react';
+import {
+  GET_JOB_BY_ID,
+  GET_MY_APPLICATIONS,
+  MY_JOB_APPLICATIONS_SUBSCRIPTION,
+} from '@/graphql/queries';
+import {
+  ApplicationEvent,
+  applyApplicationEvent,
+  applyJobEvent,
+  claimEvent,
+  getReconnectDelay,
+  getSubscriptionUrl,
+  useMyJobApplicationUpdates,
+} from '@/lib/subscriptions';
+import { mockJob } from '@/lib/test-utils';
+
+const cachedApplication = {
+  __typename: 'Application',
+  id: 5,
+  coverLetter: null,
+  resumeUrl: null,
+  status: 'PENDING',
+  appliedAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+  reviewedAt: null,
+  applicantId: 7,
+  jobId: 12,
+  applicant: {
+    __typename: 'User',
+    id: 7,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+  },
+  job: {
+    __typename: 'Job',
+    id: 12,
+    title: 'React Developer',
+    budget: 50000,
+    status: 'OPEN',
+    poster: { __typename: 'User', id: 3, firstName: 'Asha', lastName: 'Rao' },
+  },
+};
+
+const event = (applicationId: number): ApplicationEvent => ({
+  type: 'STATUS_CHANGED',
+  applicationId,
+  jobId: 12,
+  jobTitle: 'React Developer',
+  applicantId: 7,
+  status: 'SHORTLISTED',
+  message: 'Your application was shortlisted',
+  timestamp: '2024-05-03T09:30:00.000Z',
+});
+
+describe('real-time update helpers', () => {
+  it('should back off exponentially up to 30 seconds with jitter', () => {
+    expect(getReconnectDelay(0, 1)).toBe(1000);
+    expect(getReconnectDelay(0, 0)).toBe(500);
+    expect(getReconnectDelay(3, 1)).toBe(8000);
+    expect(getReconnectDelay(10, 1)).toBe(30000);
+    expect(getReconnectDelay(10, 0)).toBe(15000);
+  });
+
+  it('should derive the WebSocket URL from the HTTP endpoint', () => {
+    expect(getSubscriptionUrl('https://api.jobpay.in/graphql')).toBe(
+      'wss://api.jobpay.in/graphql'
+    );
+    expect(getSubscriptionUrl('http://localhost:4000/graphql')).toBe(
+      'ws://localhost:4000/graphql'
+    );
+  });
+
+  describe('applyApplicationEvent', () => {
+    it('should update the status of a cached application', () => {
+      const cache = new InMemoryCache();
+      cache.writeQuery({
+        query: GET_MY_APPLICATIONS,
+        data: { myApplications: [cachedApplication] },
+      });
+
+      expect(applyApplicationEvent(cache, event(5))).toBe(true);
+
+      const result = cache.readQuery<{
+        myApplications: { status: string; updatedAt: string }[];
+      }>({ query: GET_MY_APPLICATIONS });
+      expect(result?.myApplications[0]).toMatchObject({
+        status: 'SHORTLISTED',
+        updatedAt: '2024-05-03T09:30:00.000Z',
+      });
+    });
+
+    it('should report applications that are not cached', () => {
+      expect(applyApplicationEvent(new InMemoryCache(), event(99))).toBe(false);
+    });
+  });
+
+  it('should claim each event once per cache', () => {
+    const cache = new InMemoryCache();
+
+    expect(claimEvent(cache, event(5))).toBe(true);
+    expect(claimEvent(cache, event(5))).toBe(false);
+    expect(claimEvent(cache, { ...event(5), status: 'ACCEPTED' })).toBe(true);
+    expect(claimEvent(new InMemoryCache(), event(5))).toBe(true);
+  });
+
+  it('should count a new applicant once however many components subscribe', async () => {
+    const cache = new InMemoryCache();
+    cache.writeQuery({
+      query: GET_JOB_BY_ID,
+      variables: { id: 12 },
+      data: {
+        job: {
+          __typename: 'Job',
+          ...mockJob,
+          id: 12,
+          applicationCount: 3,
+          poster: { __typename: 'User', email: null, ...mockJob.poster },
+        },
+      },
+    });
+    const newApplicant = {
+      __typename: 'ApplicationEvent',
+      ...event(42),
+      type: 'APPLICATION_CREATED',
+      status: 'PENDING',
+      applicantName: 'Ravi Kumar',
+    };
+    const mock = {
+      request: { query: MY_JOB_APPLICATIONS_SUBSCRIPTION },
+      result: { data: { myJobApplications: newApplicant } },
+    };
+    const onEvent = jest.fn();
+
+    renderHook(
+      () => {
+        useMyJobApplicationUpdates({ onEvent });
+        useMyJobApplicationUpdates({ onEvent });
+      },
+      {
+        wrapper: ({ children }) => (
+          <MockedProvider mocks={[mock, mock]} cache={cache}>
+            {children}
+          </MockedProvider>
+        ),
+      }
+    );
+
+    await waitFor(() => expect(onEvent).toHaveBeenCalledTimes(2));
+    const result = cache.readQuery<{ job: { applicationCount: number } }>({
+      query: GET_JOB_BY_ID,
+      variables: { id: 12 },
+    });
+    expect(result?.job.applicationCount).toBe(4);
+  });
+
+  it('should update the status of a cached job', () => {
+    const cache = new InMemoryCache();
+    cache.writeQuery({
+      query: GET_JOB_BY_ID,
+      variables: { id: mockJob.id },
+      data: {
+        job: {
+          __typename: 'Job',
+          ...mockJob,
+          poster: { __typename: 'User', email: null, ...mockJob.poster },
+        },
+      },
+    });
+
+    applyJobEvent(cache, {
+      type: 'JOB_STATUS_CHANGED',
+      jobId: mockJob.id,
+      jobTitle: mockJob.title,
+      message: 'Job paused',
+      timestamp: '2024-05-03T09:30:00.000Z',
+      status: 'PAUSED',
+    });
+
+    const result = cache.readQuery<{ job: { status: string } }>({
+      query: GET_JOB_BY_ID,
+      variables: { id: mockJob.id },
+    });
+    expect(result?.job.status).toBe('PAUSED');
+  });
+});
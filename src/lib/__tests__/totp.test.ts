@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for TOTP Generation and Verification
+ */
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  formatSecret,
+  generateSecret,
+  generateTotp,
+  verifyTotp,
+} from '@/lib/totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should encode the RFC test secret', () => {
+      expect(
+        base32Encode(new TextEncoder().encode('12345678901234567890'))
+      ).toBe(RFC_SECRET);
+    });
+
+    it('should ignore spacing and case when decoding', () => {
+      expect(base32Decode('gezd gnbv')).toEqual(base32Decode('GEZDGNBV'));
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59 * 1000, '94287082'],
+      [1111111109 * 1000, '07081804'],
+      [1234567890 * 1000, '89005924'],
+      [2000000000 * 1000, '69279037'],
+    ])(
+      'should match the RFC 6238 vector at %i',
+      async (timestamp, expected) => {
+        expect(await generateTotp(RFC_SECRET, timestamp, { digits: 8 })).toBe(
+          expected
+        );
+      }
+    );
+
+    it('should produce 6-digit codes by default', async () => {
+      expect(await generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should accept the current code', async () => {
+      expect(await verifyTotp(RFC_SECRET, '081804', { timestamp: now })).toBe(
+        true
+      );
+    });
+
+    it('should accept codes one step either side for clock drift', async () => {
+      const previous = await generateTotp(RFC_SECRET, now - 30 * 1000);
+      const next = await generateTotp(RFC_SECRET, now + 30 * 1000);
+
+      expect(await verifyTotp(RFC_SECRET, previous, { timestamp: now })).toBe(
+        true
+      );
+      expect(await verifyTotp(RFC_SECRET, next, { timestamp: now })).toBe(true);
+    });
+
+    it('should reject codes outside the window', async () => {
+      const stale = await generateTotp(RFC_SECRET, now - 90 * 1000);
+
+      expect(await verifyTotp(RFC_SECRET, stale, { timestamp: now })).toBe(
+        false
+      );
+    });
+
+    it('should reject malformed codes', async () => {
+      expect(await verifyTotp(RFC_SECRET, '12ab56', { timestamp: now })).toBe(
+        false
+      );
+      expect(await verifyTotp(RFC_SECRET, '', { timestamp: now })).toBe(false);
+    });
+  });
+
+  it('should generate 160-bit secrets', () => {
+    const secret = generateSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpAuthUri({
+      secret: RFC_SECRET,
+      accountName: 'jane@example.com',
+    });
+
+    expect(uri).toBe(
+      `otpauth://totp/JobPay%3Ajane%40example.com?secret=${RFC_SECRET}&issuer=JobPay&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+
+  it('should group secrets for manual entry', () => {
+    expect(formatSecret('ABCDEFGHIJ')).toBe('ABCD EFGH IJ');
+  });
+});
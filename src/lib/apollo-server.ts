@@ -0,0 +1,20 @@
+import { ApolloClient, InMemoryCache, createHttpLink } from '@apollo/client';
+
+/**
+ * Apollo client for server components
+ * A fresh client per request so cached results never leak between
+ * visitors. There is no session on the server, so only public data
+ * should be fetched with it.
+ */
+export function createServerApolloClient() {
+  return new ApolloClient({
+    ssrMode: true,
+    link: createHttpLink({
+      uri:
+        process.env.NEXT_PUBLIC_GRAPHQL_ENDPOINT ||
+        'http://localhost:4000/graphql',
+      fetchOptions: { cache: 'no-store' },
+    }),
+    cache: new InMemoryCache(),
+  });
+}
@@ -1,20 +1,33 @@
 import {
   ApolloClient,
   InMemoryCache,
+  Observable,
   createHttpLink,
   from,
+  split,
 } from '@apollo/client';
 import { setContext } from '@apollo/client/link/context';
+import { onError } from '@apollo/client/link/error';
+import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
+import { getMainDefinition } from '@apollo/client/utilities';
+import {
+  getSession,
+  getValidAccessToken,
+  redirectToLogin,
+  refreshSession,
+} from './auth-client';
+import { mergeSearchJobsPages } from './job-search';
+import { createSubscriptionClient } from './subscriptions';
 
 const httpLink = createHttpLink({
   uri:
     process.env.NEXT_PUBLIC_GRAPHQL_ENDPOINT || 'http://localhost:4000/graphql',
 });
 
-const authLink = setContext((_, { headers }) => {
-  // Get the authentication token from local storage if it exists
-  const token =
-    typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+const authLink = setContext(async (_, { headers }) => {
+  // The access token lives in memory; requests issued while a refresh is in
+  // flight wait for it here instead of going out with a stale token
+  const token = await getValidAccessToken();
 
   return {
     headers: {
@@ -24,8 +37,66 @@ const authLink = setContext((_, { headers }) => {
   };
 });
 
+// Refresh an expired access token once and replay the failed operation.
+// Concurrent failures share the same refresh request.
+const tokenRefreshLink = onError(
+  ({ graphQLErrors, networkError, operation, forward }) => {
+    const unauthenticated =
+      graphQLErrors?.some(
+        (error) => error.extensions?.code === 'UNAUTHENTICATED'
+      ) ||
+      (!!networkError &&
+        'statusCode' in networkError &&
+        networkError.statusCode === 401);
+
+    // Guests hitting protected fields and already-retried operations pass through
+    if (!unauthenticated || !getSession() || operation.getContext().retried) {
+      return;
+    }
+
+    return new Observable((observer) => {
+      let subscription: { unsubscribe: () => void } | undefined;
+
+      refreshSession()
+        .then((session) => {
+          if (!session) {
+            redirectToLogin();
+            observer.error(networkError ?? graphQLErrors?.[0]);
+            return;
+          }
+
+          // authLink picks up the new token when the operation is replayed
+          operation.setContext({ retried: true });
+          subscription = forward(operation).subscribe(observer);
+        })
+        .catch((error) => observer.error(error));
+
+      return () => subscription?.unsubscribe();
+    });
+  }
+);
+
+const requestLink = from([tokenRefreshLink, authLink, httpLink]);
+
+// Subscriptions go over WebSocket in the browser; there is no socket during
+// server rendering, so they only ever run client-side
+const link =
+  typeof window === 'undefined'
+    ? requestLink
+    : split(
+        ({ query }) => {
+          const definition = getMainDefinition(query);
+          return (
+            definition.kind === 'OperationDefinition' &&
+            definition.operation === 'subscription'
+          );
+        },
+        new GraphQLWsLink(createSubscriptionClient()),
+        requestLink
+      );
+
 export const apolloClient = new ApolloClient({
-  link: from([authLink, httpLink]),
+  link,
   cache: new InMemoryCache({
     typePolicies: {
       Query: {
@@ -35,6 +106,16 @@ export const apolloClient = new ApolloClient({
               return incoming;
             },
           },
+          searchJobs: {
+            keyArgs: ['filter', 'sort'],
+            merge(existing, incoming, { args }) {
+              return mergeSearchJobsPages(
+                existing,
+                incoming,
+                args?.pagination?.offset
+              );
+            },
+          },
         },
       },
     },
@@ -0,0 +1,211 @@
+/**
+ * Job Application Helpers
+ * Draft persistence, duplicate checks, resume validation and cache updates
+ * for the apply flow, plus the employer review pipeline
+ */
+
+import type { ApolloCache } from '@apollo/client';
+import { GET_MY_APPLICATIONS } from '@/graphql/queries';
+import { createLocalStore } from './local-store';
+
+export const COVER_LETTER_MAX_LENGTH = 3000;
+export const RESUME_MAX_BYTES = 5 * 1024 * 1024; // 5 MB
+export const RESUME_CONTENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+const DRAFTS_KEY_PREFIX = 'jobpay:application-drafts:';
+
+export interface ApplicationDraft {
+  coverLetter: string;
+  resumeUrl: string | null;
+  savedAt: number; // epoch milliseconds
+}
+
+// Shape of GET_MY_APPLICATIONS entries used by the apply flow
+export interface MyApplication {
+  id: number;
+  jobId: number;
+  status: string;
+  resumeUrl: string | null;
+  [field: string]: unknown;
+}
+
+type DraftsByJobId = Record<number, ApplicationDraft>;
+
+// One entry per user, so drafts never carry over to the next account
+const draftsStore = createLocalStore<DraftsByJobId>({
+  key: (userId) => `${DRAFTS_KEY_PREFIX}${userId}`,
+  empty: () => ({}),
+  parse: (stored) => {
+    const drafts: DraftsByJobId = {};
+    Object.entries(stored as Record<string, ApplicationDraft>).forEach(
+      ([jobId, draft]) => {
+        if (typeof draft?.coverLetter === 'string') {
+          drafts[Number(jobId)] = draft;
+        }
+      }
+    );
+    return drafts;
+  },
+  label: 'application draft',
+});
+
+export function loadApplicationDraft(
+  userId: string,
+  jobId: number
+): ApplicationDraft | null {
+  return draftsStore.load(userId)[jobId] ?? null;
+}
+
+export function saveApplicationDraft(
+  userId: string,
+  jobId: number,
+  draft: Omit<ApplicationDraft, 'savedAt'>,
+  now = Date.now()
+): ApplicationDraft | null {
+  // Nothing worth keeping: drop any older draft instead
+  if (!draft.coverLetter.trim() && !draft.resumeUrl) {
+    clearApplicationDraft(userId, jobId);
+    return null;
+  }
+
+  const saved = { ...draft, savedAt: now };
+  const written = draftsStore.update(
+    (drafts) => ({ ...drafts, [jobId]: saved }),
+    userId
+  );
+  return written ? saved : null;
+}
+
+export function clearApplicationDraft(userId: string, jobId: number): void {
+  draftsStore.update((drafts) => {
+    const rest = { ...drafts };
+    delete rest[jobId];
+    return rest;
+  }, userId);
+}
+
+// On sign-out
+export function clearApplicationDrafts(userId: string): void {
+  draftsStore.clear(userId);
+}
+
+// An application that blocks applying again (withdrawn ones do not)
+export function findActiveApplication<T extends MyApplication>(
+  applications: T[] | undefined,
+  jobId: number
+): T | undefined {
+  return applications?.find(
+    (application) =>
+      Number(application.jobId) === jobId && application.status !== 'WITHDRAWN'
+  );
+}
+
+// Resumes the user has sent with earlier applications, newest first
+export function getPreviousResumes(
+  applications: MyApplication[] | undefined
+): string[] {
+  const urls = (applications ?? [])
+    .map((application) => application.resumeUrl)
+    .filter((url): url is string => Boolean(url));
+
+  return Array.from(new Set(urls));
+}
+
+export function getResumeFileName(url: string): string {
+  try {
+    const path = new URL(url).pathname;
+    return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1));
+  } catch {
+    return url;
+  }
+}
+
+// Returns an error message, or null when the file can be uploaded
+export function validateResumeFile(file: File): string | null {
+  if (!RESUME_CONTENT_TYPES.includes(file.type)) {
+    return 'Upload your resume as a PDF or Word document';
+  }
+  if (file.size > RESUME_MAX_BYTES) {
+    return 'Resumes must be 5 MB or smaller';
+  }
+  return null;
+}
+
+// PUT the file to the pre-signed URL from CREATE_RESUME_UPLOAD
+export async function uploadResumeFile(
+  uploadUrl: string,
+  file: File
+): Promise<void> {
+  const response = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Resume upload failed with status ${response.status}`);
+  }
+}
+
+// Prepend a new application to the cached GET_MY_APPLICATIONS result
+export function addApplicationToCache(
+  cache: ApolloCache<unknown>,
+  application: MyApplication
+): void {
+  cache.updateQuery<{ myApplications: MyApplication[] }>(
+    { query: GET_MY_APPLICATIONS },
+    (data) => {
+      if (!data) return data;
+      if (data.myApplications.some(({ id }) => id === application.id)) {
+        return data;
+      }
+      return { myApplications: [application, ...data.myApplications] };
+    }
+  );
+}
+
+// Employer pipeline columns, in review order
+export const PIPELINE_STATUSES = [
+  'PENDING',
+  'REVIEWED',
+  'SHORTLISTED',
+  'ACCEPTED',
+  'REJECTED',
+] as const;
+
+export type PipelineStatus = (typeof PIPELINE_STATUSES)[number];
+
+export function isPipelineStatus(status: string): status is PipelineStatus {
+  return (PIPELINE_STATUSES as readonly string[]).includes(status);
+}
+
+// Withdrawn applications drop out of the pipeline
+export function groupApplicationsByStatus<T extends MyApplication>(
+  applications: T[]
+): Record<PipelineStatus, T[]> {
+  const columns = Object.fromEntries(
+    PIPELINE_STATUSES.map((status) => [status, [] as T[]])
+  ) as Record<PipelineStatus, T[]>;
+
+  applications.forEach((application) => {
+    if (isPipelineStatus(application.status)) {
+      columns[application.status].push(application);
+    }
+  });
+  return columns;
+}
+
+// Neighbouring column for keyboard moves, or null at either end
+export function getAdjacentStatus(
+  status: string,
+  direction: -1 | 1
+): PipelineStatus | null {
+  if (!isPipelineStatus(status)) return null;
+  return (
+    PIPELINE_STATUSES[PIPELINE_STATUSES.indexOf(status) + direction] ?? null
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Client Session Store
+ * Keeps the access token in memory (never in localStorage) and talks to the
+ * auth API routes, which own the httpOnly session cookies
+ */
+
+import type {
+  LoginCredentials,
+  RegisterInput,
+  Session,
+  SignInResult,
+} from '@/types';
+
+type SessionListener = (session: Session | null) => void;
+
+// Refresh slightly before the access token actually expires
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+let currentSession: Session | null = null;
+let sessionRestored = false;
+// Shared by concurrent callers so only one restore/refresh runs at a time
+let pendingSession: Promise<Session | null> | null = null;
+const listeners = new Set<SessionListener>();
+
+export function getSession(): Session | null {
+  return currentSession;
+}
+
+export function getAccessToken(): string | null {
+  return currentSession?.accessToken ?? null;
+}
+
+export function setSession(session: Session | null): void {
+  currentSession = session;
+  sessionRestored = true;
+  listeners.forEach((listener) => listener(session));
+}
+
+export function subscribeToSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function requestAuth<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Something went wrong. Please try again.');
+  }
+
+  return data as T;
+}
+
+function requestSession(url: string, init: RequestInit): Promise<Session> {
+  return requestAuth<Session>(url, init);
+}
+
+// Accounts with two-factor authentication enabled need verifyTwoFactor next
+export async function signIn(
+  credentials: LoginCredentials
+): Promise<SignInResult> {
+  const data = await requestAuth<Session | { twoFactorRequired: true }>(
+    '/api/auth/login',
+    { method: 'POST', body: JSON.stringify(credentials) }
+  );
+
+  if ('twoFactorRequired' in data) {
+    return { status: 'two_factor_required' };
+  }
+
+  setSession(data);
+  return { status: 'authenticated', session: data };
+}
+
+// Complete a paused sign-in with a TOTP or recovery code
+export async function verifyTwoFactor(code: string): Promise<Session> {
+  const session = await requestSession('/api/auth/two-factor', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  setSession(session);
+  return session;
+}
+
+export async function signUp(input: RegisterInput): Promise<Session> {
+  const session = await requestSession('/api/auth/register', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  setSession(session);
+  return session;
+}
+
+export async function signOut(): Promise<void> {
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      credentials: 'same-origin',
+    });
+  } catch (error) {
+    console.warn('Failed to reach logout endpoint:', error);
+  } finally {
+    setSession(null);
+  }
+}
+
+function runExclusive(
+  task: () => Promise<Session | null>
+): Promise<Session | null> {
+  if (!pendingSession) {
+    pendingSession = task().finally(() => {
+      pendingSession = null;
+    });
+  }
+  return pendingSession;
+}
+
+async function rotateSession(): Promise<Session | null> {
+  try {
+    const session = await requestSession('/api/auth/refresh', {
+      method: 'POST',
+    });
+    setSession(session);
+    return session;
+  } catch {
+    setSession(null);
+    return null;
+  }
+}
+
+async function restoreSession(): Promise<Session | null> {
+  try {
+    const session = await requestSession('/api/auth/session', {
+      method: 'GET',
+    });
+    setSession(session);
+    return session;
+  } catch {
+    // The access token may have expired while the refresh token is valid
+    return rotateSession();
+  }
+}
+
+// Rotate the refresh token cookie and obtain a new access token
+export function refreshSession(): Promise<Session | null> {
+  return runExclusive(rotateSession);
+}
+
+// Restore the session from the httpOnly cookie after a page load
+export function fetchSession(): Promise<Session | null> {
+  return runExclusive(restoreSession);
+}
+
+function isExpired(session: Session): boolean {
+  return session.expiresAt - EXPIRY_SKEW_MS <= Date.now();
+}
+
+// Access token for outgoing requests. Waits for any restore or refresh in
+// flight, and refreshes first when the current token has expired.
+export async function getValidAccessToken(): Promise<string | null> {
+  if (pendingSession) {
+    await pendingSession;
+  } else if (!sessionRestored) {
+    await fetchSession();
+  }
+
+  if (currentSession && isExpired(currentSession)) {
+    await refreshSession();
+  }
+
+  return getAccessToken();
+}
+
+export function redirectToLogin(): void {
+  if (typeof window === 'undefined') return;
+
+  const returnTo = `${window.location.pathname}${window.location.search}`;
+  window.location.assign(`/login?returnTo=${encodeURIComponent(returnTo)}`);
+}
+
+// Stands in for our own origin when resolving return paths; anything that
+// resolves elsewhere points off-site
+const RETURN_TO_BASE = 'http://return-to.invalid';
+
+// Only allow same-origin relative paths as post-login destinations.
+// Browsers read `\` as `/`, so `/\evil.com` is as off-site as
+// `//evil.com`; it's rejected encoded as well.
+export function getSafeReturnTo(
+  value: string | null | undefined,
+  fallback = '/app'
+): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//')) {
+    return fallback;
+  }
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    return fallback;
+  }
+  if (/[\\\u0000-\u001f]/.test(decoded) || decoded.startsWith('//')) {
+    return fallback;
+  }
+
+  try {
+    const url = new URL(value, RETURN_TO_BASE);
+    if (url.origin !== RETURN_TO_BASE) return fallback;
+  } catch {
+    return fallback;
+  }
+  return value;
+}
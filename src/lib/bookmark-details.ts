@@ -0,0 +1,267 @@
+/**
+ * Bookmark Collections, Notes and Reminders
+ * Each bookmark can sit in a named collection and carry a private note and
+ * a reminder date. They're stored on the server when it has the fields,
+ * and in localStorage per user when it doesn't.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import {
+  GET_BOOKMARK_DETAILS,
+  UPDATE_BOOKMARK_DETAILS,
+} from '@/graphql/queries';
+import type { MyBookmark } from './bookmarks';
+import { createLocalStore } from './local-store';
+
+export const BOOKMARK_NOTE_MAX_LENGTH = 500;
+export const COLLECTION_NAME_MAX_LENGTH = 40;
+
+// Collection filter value for bookmarks that aren't in any collection
+export const NO_COLLECTION = '';
+
+const STORAGE_KEY_PREFIX = 'jobpay:bookmark-details:';
+
+export interface BookmarkDetails {
+  collection: string | null;
+  note: string | null;
+  // Calendar date, YYYY-MM-DD
+  remindAt: string | null;
+}
+
+export const emptyBookmarkDetails: BookmarkDetails = {
+  collection: null,
+  note: null,
+  remindAt: null,
+};
+
+export type BookmarkSort =
+  | 'SAVED_NEWEST'
+  | 'SAVED_OLDEST'
+  | 'BUDGET_HIGH'
+  | 'BUDGET_LOW'
+  | 'REMINDER';
+
+export const BOOKMARK_SORT_OPTIONS: { value: BookmarkSort; label: string }[] = [
+  { value: 'SAVED_NEWEST', label: 'Recently saved' },
+  { value: 'SAVED_OLDEST', label: 'Oldest saved' },
+  { value: 'BUDGET_HIGH', label: 'Highest budget' },
+  { value: 'BUDGET_LOW', label: 'Lowest budget' },
+  { value: 'REMINDER', label: 'Reminder date' },
+];
+
+export interface BookmarkView {
+  // A collection name, NO_COLLECTION, or null for every bookmark
+  collection: string | null;
+  sort: BookmarkSort;
+}
+
+type DetailsByJobId = Map<number, BookmarkDetails>;
+
+// Trims the inputs and drops anything empty or malformed
+export function normalizeBookmarkDetails(
+  details: Partial<BookmarkDetails>
+): BookmarkDetails {
+  const collection = details.collection?.trim().replace(/\s+/g, ' ');
+  const note = details.note?.trim();
+  const remindAt = details.remindAt?.trim();
+
+  return {
+    collection: collection
+      ? collection.slice(0, COLLECTION_NAME_MAX_LENGTH)
+      : null,
+    note: note ? note.slice(0, BOOKMARK_NOTE_MAX_LENGTH) : null,
+    remindAt:
+      remindAt && /^\d{4}-\d{2}-\d{2}$/.test(remindAt) ? remindAt : null,
+  };
+}
+
+// Local calendar date in the YYYY-MM-DD form date inputs use
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function isReminderDue(
+  remindAt: string | null,
+  now = new Date()
+): boolean {
+  return remindAt !== null && remindAt <= toDateInputValue(now);
+}
+
+// Every collection in use, alphabetically; names differing only in case
+// count as one
+export function getBookmarkCollections(details: DetailsByJobId): string[] {
+  const collections = new Map<string, string>();
+  details.forEach(({ collection }) => {
+    if (collection && !collections.has(collection.toLowerCase())) {
+      collections.set(collection.toLowerCase(), collection);
+    }
+  });
+  return Array.from(collections.values()).sort((a, b) => a.localeCompare(b));
+}
+
+type OrganizableBookmark = Pick<MyBookmark, 'jobId' | 'createdAt'> & {
+  job: Pick<MyBookmark['job'], 'budget'>;
+};
+
+const compareSaved = (a: OrganizableBookmark, b: OrganizableBookmark) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+// The bookmarks in a collection, in the order asked for. Ties, and
+// bookmarks without a reminder, fall back to the most recently saved.
+export function organizeBookmarks<T extends OrganizableBookmark>(
+  bookmarks: T[],
+  details: DetailsByJobId,
+  { collection, sort }: BookmarkView
+): T[] {
+  const detailsFor = (bookmark: T) =>
+    details.get(bookmark.jobId) ?? emptyBookmarkDetails;
+
+  const inCollection =
+    collection === null
+      ? bookmarks
+      : bookmarks.filter((bookmark) => {
+          const name = detailsFor(bookmark).collection;
+          return collection === NO_COLLECTION
+            ? name === null
+            : name?.toLowerCase() === collection.toLowerCase();
+        });
+
+  const compare: Record<BookmarkSort, (a: T, b: T) => number> = {
+    SAVED_NEWEST: () => 0,
+    SAVED_OLDEST: (a, b) => compareSaved(b, a),
+    BUDGET_HIGH: (a, b) => b.job.budget - a.job.budget,
+    BUDGET_LOW: (a, b) => a.job.budget - b.job.budget,
+    REMINDER: (a, b) => {
+      const first = detailsFor(a).remindAt;
+      const second = detailsFor(b).remindAt;
+      if (first === second) return 0;
+      if (first === null) return 1;
+      if (second === null) return -1;
+      return first.localeCompare(second);
+    },
+  };
+
+  return [...inCollection].sort(
+    (a, b) => compare[sort](a, b) || compareSaved(a, b)
+  );
+}
+
+interface ReportedError {
+  message: string;
+  extensions?: { code?: unknown };
+}
+
+// Servers without the new fields reject the whole query or mutation
+// during validation, which Apollo reports as GraphQL or HTTP 400 errors
+export function isMissingFieldError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+
+  const { graphQLErrors = [], networkError } = error as {
+    graphQLErrors?: ReportedError[];
+    networkError?: { result?: { errors?: ReportedError[] } } | null;
+  };
+  const errors = [...graphQLErrors, ...(networkError?.result?.errors ?? [])];
+
+  return errors.some(
+    ({ message, extensions }) =>
+      extensions?.code === 'GRAPHQL_VALIDATION_FAILED' ||
+      /Cannot query field|Unknown (type|argument)/.test(message)
+  );
+}
+
+// Stored as an object keyed by job id, with bookmarks that have no
+// details left out
+const localDetailsStore = createLocalStore<DetailsByJobId>({
+  key: (userId) => `${STORAGE_KEY_PREFIX}${userId}`,
+  empty: () => new Map(),
+  parse: (stored) =>
+    new Map(
+      Object.entries(stored as Record<string, BookmarkDetails>).map(
+        ([jobId, entry]) => [Number(jobId), normalizeBookmarkDetails(entry)]
+      )
+    ),
+  serialize: (details) => Object.fromEntries(details),
+  label: 'bookmark details',
+});
+
+export function loadLocalBookmarkDetails(userId: string): DetailsByJobId {
+  return localDetailsStore.load(userId);
+}
+
+export function saveLocalBookmarkDetails(
+  userId: string,
+  jobId: number,
+  details: BookmarkDetails
+): void {
+  localDetailsStore.update((all) => {
+    if (
+      details.collection === null &&
+      details.note === null &&
+      details.remindAt === null
+    ) {
+      all.delete(jobId);
+    } else {
+      all.set(jobId, details);
+    }
+    return all;
+  }, userId);
+}
+
+export const subscribeToBookmarkDetails = localDetailsStore.subscribe;
+
+/**
+ * Collection, note and reminder for each of the user's bookmarks, by job
+ * id. `storedLocally` is true when the server lacks the fields and this
+ * browser's copy is being used instead.
+ */
+export function useBookmarkDetails(userId: string | null) {
+  const { data, error } = useQuery(GET_BOOKMARK_DETAILS, { skip: !userId });
+  const [updateBookmarkDetails] = useMutation(UPDATE_BOOKMARK_DETAILS);
+  const storedLocally = Boolean(error && isMissingFieldError(error));
+  const localDetails = localDetailsStore.useValue(
+    storedLocally ? userId : null
+  );
+
+  const details = useMemo(() => {
+    if (storedLocally) return localDetails;
+
+    const fromServer: DetailsByJobId = new Map();
+    (data?.myBookmarks ?? []).forEach(
+      (bookmark: { jobId: number } & BookmarkDetails) =>
+        fromServer.set(bookmark.jobId, normalizeBookmarkDetails(bookmark))
+    );
+    return fromServer;
+  }, [data, localDetails, storedLocally]);
+
+  const saveDetails = useCallback(
+    async (
+      bookmark: Pick<MyBookmark, 'id' | 'jobId'>,
+      changes: Partial<BookmarkDetails>
+    ) => {
+      if (!userId) return;
+
+      const input = normalizeBookmarkDetails(changes);
+      if (storedLocally) {
+        saveLocalBookmarkDetails(userId, bookmark.jobId, input);
+        return;
+      }
+
+      await updateBookmarkDetails({
+        variables: { id: bookmark.id, input },
+        optimisticResponse: {
+          updateBookmarkDetails: {
+            __typename: 'Bookmark',
+            id: bookmark.id,
+            ...input,
+          },
+        },
+      });
+    },
+    [storedLocally, updateBookmarkDetails, userId]
+  );
+
+  return { details, saveDetails, storedLocally };
+}
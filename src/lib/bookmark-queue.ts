@@ -0,0 +1,394 @@
+/**
+ * Offline Bookmark and Withdrawal Queue
+ * Bookmark changes and application withdrawals made while offline are kept
+ * in IndexedDB and replayed in order once the browser is back online. Each
+ * bookmark entry records the state the user asked for rather than a bare
+ * toggle, so replaying against the server's bookmarkedJobIds never flips a
+ * bookmark the wrong way.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { type ApolloClient, useApolloClient } from '@apollo/client';
+import {
+  GET_BOOKMARKED_JOB_IDS,
+  WITHDRAW_APPLICATION,
+} from '@/graphql/queries';
+import { browserSupport } from '../../lib/cross-browser';
+import { sendBookmarkChange } from './bookmarks';
+
+const DB_NAME = 'jobpay';
+const DB_VERSION = 1;
+// Holds withdrawals too; the name predates them
+const STORE_NAME = 'bookmark-mutations';
+
+export interface QueuedBookmark {
+  // Assigned by IndexedDB in insertion order
+  id?: number;
+  kind: 'bookmark';
+  userId: string;
+  jobId: number;
+  // Whether the job should end up bookmarked
+  bookmarked: boolean;
+  queuedAt: string;
+}
+
+export interface QueuedWithdrawal {
+  id?: number;
+  kind: 'withdrawal';
+  userId: string;
+  applicationId: number;
+  queuedAt: string;
+}
+
+export type QueuedMutation = QueuedBookmark | QueuedWithdrawal;
+
+type NewQueuedMutation =
+  | Omit<QueuedBookmark, 'id' | 'queuedAt'>
+  | Omit<QueuedWithdrawal, 'id' | 'queuedAt'>;
+
+type BookmarkQueueListener = () => void;
+
+const listeners = new Set<BookmarkQueueListener>();
+let replaying: Promise<void> | null = null;
+
+function isBookmark(entry: QueuedMutation): entry is QueuedBookmark {
+  return entry.kind === 'bookmark';
+}
+
+function isWithdrawal(entry: QueuedMutation): entry is QueuedWithdrawal {
+  return entry.kind === 'withdrawal';
+}
+
+// Whether two entries change the same bookmark or the same application
+function isSameTarget(a: QueuedMutation, b: QueuedMutation): boolean {
+  if (isBookmark(a)) return isBookmark(b) && a.jobId === b.jobId;
+  return isWithdrawal(b) && a.applicationId === b.applicationId;
+}
+
+// The state each job with queued changes will be in once they sync
+export function getPendingBookmarks(
+  queue: QueuedMutation[]
+): Map<number, boolean> {
+  const pending = new Map<number, boolean>();
+  queue
+    .filter(isBookmark)
+    .forEach(({ jobId, bookmarked }) => pending.set(jobId, bookmarked));
+  return pending;
+}
+
+// Applications with a withdrawal waiting to sync
+export function getPendingWithdrawals(queue: QueuedMutation[]): Set<number> {
+  return new Set(
+    queue.filter(isWithdrawal).map((entry) => entry.applicationId)
+  );
+}
+
+// The toggles still needed to take the server from bookmarkedJobIds to
+// what was asked for offline: the last change queued for each job, in the
+// order those were made, leaving out any the server already reflects
+export function resolveBookmarkQueue(
+  queue: QueuedBookmark[],
+  bookmarkedJobIds: number[]
+): QueuedBookmark[] {
+  const latest = new Map<number, QueuedBookmark>();
+  queue.forEach((entry) => {
+    latest.delete(entry.jobId);
+    latest.set(entry.jobId, entry);
+  });
+
+  return Array.from(latest.values()).filter(
+    ({ jobId, bookmarked }) => bookmarkedJobIds.includes(jobId) !== bookmarked
+  );
+}
+
+// Everything still to send, in the order it was queued: the resolved
+// bookmark toggles, and one withdrawal per application
+export function resolveQueue(
+  queue: QueuedMutation[],
+  bookmarkedJobIds: number[]
+): QueuedMutation[] {
+  const withdrawals = queue
+    .filter(isWithdrawal)
+    .filter(
+      (entry, index, all) =>
+        all.findIndex((other) => isSameTarget(other, entry)) === index
+    );
+
+  return [
+    ...resolveBookmarkQueue(queue.filter(isBookmark), bookmarkedJobIds),
+    ...withdrawals,
+  ].sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+// Apollo wraps fetch failures in networkError. A network error with a
+// statusCode is an HTTP error response, so like a GraphQL error it means
+// the server was reached and the change shouldn't be retried.
+export function isOfflineError(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  if (typeof error !== 'object' || error === null) return false;
+
+  const { networkError } = error as { networkError?: unknown };
+  return (
+    typeof networkError === 'object' &&
+    networkError !== null &&
+    !('statusCode' in networkError)
+  );
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: 'id',
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadBookmarkQueue(
+  userId: string
+): Promise<QueuedMutation[]> {
+  if (!browserSupport.hasIndexedDB()) return [];
+
+  try {
+    const entries = await withStore<QueuedMutation[]>('readonly', (store) =>
+      store.getAll()
+    );
+    return entries.filter((entry) => entry.userId === userId);
+  } catch (error) {
+    console.error('Failed to load queued changes:', error);
+    return [];
+  }
+}
+
+export async function enqueueMutation(entry: NewQueuedMutation): Promise<void> {
+  await withStore('readwrite', (store) =>
+    store.add({ ...entry, queuedAt: new Date().toISOString() })
+  );
+  listeners.forEach((listener) => listener());
+}
+
+async function removeQueuedMutations(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await openQueueDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      ids.forEach((id) => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToBookmarkQueue(
+  listener: BookmarkQueueListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function sendQueuedMutation(
+  client: ApolloClient<unknown>,
+  entry: NewQueuedMutation
+) {
+  if (entry.kind === 'withdrawal') {
+    return client.mutate({
+      mutation: WITHDRAW_APPLICATION,
+      variables: { applicationId: entry.applicationId },
+    });
+  }
+  return sendBookmarkChange(client, entry.jobId, entry.bookmarked);
+}
+
+async function replayQueue(client: ApolloClient<unknown>, userId: string) {
+  let entries = await loadBookmarkQueue(userId);
+
+  while (entries.length > 0) {
+    // Withdrawals alone don't need the server's bookmarks
+    let bookmarkedJobIds: number[] = [];
+    if (entries.some(isBookmark)) {
+      const { data } = await client.query<{ bookmarkedJobIds: number[] }>({
+        query: GET_BOOKMARKED_JOB_IDS,
+        fetchPolicy: 'network-only',
+      });
+      bookmarkedJobIds = data.bookmarkedJobIds;
+    }
+    const steps = resolveQueue(entries, bookmarkedJobIds);
+
+    const idsFor = (step: QueuedMutation) =>
+      entries
+        .filter((entry) => isSameTarget(entry, step))
+        .map(({ id }) => id as number);
+
+    // Bookmarks already in the state asked for, and repeat withdrawals,
+    // need nothing sent
+    await removeQueuedMutations(
+      entries
+        .filter((entry) => !steps.some((step) => isSameTarget(entry, step)))
+        .map(({ id }) => id as number)
+    );
+
+    // Each change leaves the queue once sent, so a dropped connection picks
+    // up where it stopped
+    for (const step of steps) {
+      try {
+        await sendQueuedMutation(client, step);
+      } catch (error) {
+        if (isOfflineError(error)) throw error;
+        // The server turned it down (the job may be gone, or the
+        // application already decided); don't retry
+        console.error('Failed to sync queued change:', error);
+      }
+      await removeQueuedMutations(idsFor(step));
+    }
+    // Changes made while this pass ran go in the next one
+    entries = await loadBookmarkQueue(userId);
+  }
+}
+
+/**
+ * The signed-in user's queued changes, and a way to make one that falls
+ * back to the queue when offline. The queue is replayed when the browser
+ * comes back online.
+ */
+function useOfflineQueue(userId: string | null) {
+  const client = useApolloClient();
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+
+  const sync = useCallback(() => {
+    // One replay at a time, however many components ask for it
+    if (!replaying && userId) {
+      replaying = replayQueue(client, userId)
+        .catch((error) => {
+          if (!isOfflineError(error)) {
+            console.error('Failed to sync queued changes:', error);
+          }
+        })
+        .finally(() => {
+          replaying = null;
+        });
+    }
+    return replaying ?? Promise.resolve();
+  }, [client, userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setQueue([]);
+      return;
+    }
+
+    const reload = () => {
+      loadBookmarkQueue(userId).then(setQueue);
+    };
+
+    reload();
+    const unsubscribe = subscribeToBookmarkQueue(reload);
+    if (navigator.onLine) sync();
+    window.addEventListener('online', sync);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', sync);
+    };
+  }, [sync, userId]);
+
+  const send = useCallback(
+    async (entry: NewQueuedMutation) => {
+      const canQueue = browserSupport.hasIndexedDB();
+      const queueChange = () => enqueueMutation(entry);
+
+      // Changes already waiting go first, so later ones queue behind them
+      if (
+        canQueue &&
+        (!navigator.onLine ||
+          (await loadBookmarkQueue(entry.userId)).length > 0)
+      ) {
+        await queueChange();
+        if (navigator.onLine) sync();
+        return;
+      }
+
+      try {
+        await sendQueuedMutation(client, entry);
+      } catch (error) {
+        if (!canQueue || !isOfflineError(error)) throw error;
+        await queueChange();
+      }
+    },
+    [client, sync]
+  );
+
+  return { queue, send };
+}
+
+/**
+ * Bookmark changes that survive going offline
+ * setBookmarked sends the change straight away when it can and queues it
+ * otherwise. `pending` maps each job with unsynced changes to the state it
+ * will have.
+ */
+export function useBookmarkQueue(userId: string | null) {
+  const { queue, send } = useOfflineQueue(userId);
+  const pending = useMemo(() => getPendingBookmarks(queue), [queue]);
+
+  const setBookmarked = useCallback(
+    async (jobId: number, bookmarked: boolean) => {
+      if (userId) await send({ kind: 'bookmark', userId, jobId, bookmarked });
+    },
+    [send, userId]
+  );
+
+  return {
+    pending,
+    setBookmarked,
+  };
+}
+
+/**
+ * Application withdrawals that survive going offline, queued alongside
+ * bookmark changes. `pending` holds the applications waiting to sync.
+ */
+export function useWithdrawalQueue(userId: string | null) {
+  const { queue, send } = useOfflineQueue(userId);
+  const pending = useMemo(() => getPendingWithdrawals(queue), [queue]);
+
+  const withdraw = useCallback(
+    async (applicationId: number) => {
+      if (userId) await send({ kind: 'withdrawal', userId, applicationId });
+    },
+    [send, userId]
+  );
+
+  return {
+    pending,
+    withdraw,
+  };
+}
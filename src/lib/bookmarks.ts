@@ -0,0 +1,145 @@
+/**
+ * Bookmark Mutations and Cache Updates
+ * Bookmarking shows straight away through an optimistic response, and the
+ * cache update keeps every view of it in step without refetching: the
+ * bookmarked ids behind /jobs, isJobBookmarked on the detail page, the
+ * job's bookmarkCount and the myBookmarks list. Apollo drops the
+ * optimistic result, restoring each of them, if the server rejects it.
+ */
+
+import type { ApolloCache, ApolloClient } from '@apollo/client';
+import {
+  BOOKMARK_JOB,
+  GET_BOOKMARKED_JOB_IDS,
+  GET_MY_BOOKMARKS,
+  IS_JOB_BOOKMARKED,
+  JOB_FIELDS,
+  UNBOOKMARK_JOB,
+} from '@/graphql/queries';
+import type { Job } from '@/types';
+
+// Shape of GET_MY_BOOKMARKS entries
+export interface MyBookmark {
+  __typename?: 'Bookmark';
+  id: number;
+  jobId: number;
+  createdAt: string;
+  job: Job;
+}
+
+// What BOOKMARK_JOB returns
+type SavedBookmark = Omit<MyBookmark, 'job'>;
+
+// Whether the cache already knows the job is bookmarked, from whichever
+// bookmark query has been loaded
+function readBookmarked(
+  cache: ApolloCache<unknown>,
+  jobId: number
+): boolean | undefined {
+  const ids = cache.readQuery<{ bookmarkedJobIds: number[] }>({
+    query: GET_BOOKMARKED_JOB_IDS,
+  });
+  if (ids) return ids.bookmarkedJobIds.includes(jobId);
+
+  const single = cache.readQuery<{ isJobBookmarked: boolean }>({
+    query: IS_JOB_BOOKMARKED,
+    variables: { jobId },
+  });
+  if (single) return single.isJobBookmarked;
+
+  const list = cache.readQuery<{ myBookmarks: MyBookmark[] }>({
+    query: GET_MY_BOOKMARKS,
+  });
+  return list?.myBookmarks.some((bookmark) => bookmark.jobId === jobId);
+}
+
+// Record a bookmark being added (with the saved bookmark) or removed (null)
+// everywhere it's cached. Lists that haven't been loaded are left alone.
+export function updateBookmarkInCache(
+  cache: ApolloCache<unknown>,
+  jobId: number,
+  bookmark: SavedBookmark | null
+): void {
+  const bookmarked = bookmark !== null;
+  const wasBookmarked = readBookmarked(cache, jobId);
+
+  cache.updateQuery<{ bookmarkedJobIds: number[] }>(
+    { query: GET_BOOKMARKED_JOB_IDS },
+    (data) => {
+      if (!data) return data;
+      const others = data.bookmarkedJobIds.filter((id) => id !== jobId);
+      return { bookmarkedJobIds: bookmarked ? [...others, jobId] : others };
+    }
+  );
+
+  cache.updateQuery<{ isJobBookmarked: boolean }>(
+    { query: IS_JOB_BOOKMARKED, variables: { jobId } },
+    (data) => data && { isJobBookmarked: bookmarked }
+  );
+
+  // Only a real change moves the count; repeating one leaves it be
+  if (wasBookmarked === !bookmarked) {
+    cache.modify({
+      id: cache.identify({ __typename: 'Job', id: jobId }),
+      fields: {
+        bookmarkCount: (count: number) =>
+          Math.max(0, count + (bookmarked ? 1 : -1)),
+      },
+    });
+  }
+
+  const job = bookmarked
+    ? cache.readFragment<Job>({
+        id: cache.identify({ __typename: 'Job', id: jobId }),
+        fragment: JOB_FIELDS,
+      })
+    : null;
+
+  cache.updateQuery<{ myBookmarks: MyBookmark[] }>(
+    { query: GET_MY_BOOKMARKS },
+    (data) => {
+      if (!data) return data;
+      const others = data.myBookmarks.filter((entry) => entry.jobId !== jobId);
+      // A job that isn't cached can't be listed; the page refetches on load
+      if (!bookmark || !job) return { myBookmarks: others };
+      return {
+        myBookmarks: [{ __typename: 'Bookmark', ...bookmark, job }, ...others],
+      };
+    }
+  );
+}
+
+// Bookmark or unbookmark a job, showing the change before the server
+// confirms it
+export function sendBookmarkChange(
+  client: ApolloClient<unknown>,
+  jobId: number,
+  bookmarked: boolean
+) {
+  if (!bookmarked) {
+    return client.mutate({
+      mutation: UNBOOKMARK_JOB,
+      variables: { jobId },
+      optimisticResponse: { unbookmarkJob: true },
+      update: (cache) => updateBookmarkInCache(cache, jobId, null),
+    });
+  }
+
+  return client.mutate<{ bookmarkJob: SavedBookmark }>({
+    mutation: BOOKMARK_JOB,
+    variables: { jobId },
+    optimisticResponse: {
+      bookmarkJob: {
+        __typename: 'Bookmark',
+        id: -jobId, // temporary until the server responds
+        jobId,
+        createdAt: new Date().toISOString(),
+      },
+    },
+    update: (cache, { data }) => {
+      if (data?.bookmarkJob) {
+        updateBookmarkInCache(cache, jobId, data.bookmarkJob);
+      }
+    },
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * Dashboard Stats
+ * Application and bookmark summaries for /app, each compared with the
+ * 30 days before
+ */
+
+export const TREND_WINDOW_DAYS = 30;
+export const RECENT_ACTIVITY_LIMIT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields of GET_MY_APPLICATIONS entries the dashboard reads
+export interface DashboardApplication {
+  id: number;
+  status: string;
+  appliedAt: string;
+  updatedAt: string;
+  reviewedAt: string | null;
+  job: {
+    id: number;
+    title: string;
+    poster: { firstName: string | null; lastName: string | null } | null;
+  } | null;
+}
+
+// Fields of GET_MY_BOOKMARKS entries the dashboard reads
+export interface DashboardBookmark {
+  id: number;
+  jobId: number;
+  createdAt: string;
+  job: { id: number; title: string } | null;
+}
+
+// Value in the last 30 days against the 30 days before that
+export interface Trend {
+  current: number;
+  previous: number;
+}
+
+export interface DashboardStats {
+  applications: { total: number; trend: Trend };
+  interviews: { total: number; trend: Trend };
+  offers: { total: number; trend: Trend };
+  // Percentages, null when there is nothing to measure
+  responseRate: { value: number | null; trend: Trend | null };
+  bookmarks: { total: number; trend: Trend };
+  byStatus: Record<string, number>;
+}
+
+export type ActivityItem =
+  | {
+      id: string;
+      kind: 'applied' | 'status';
+      status: string;
+      jobId: number;
+      title: string;
+      timestamp: string;
+    }
+  | {
+      id: string;
+      kind: 'bookmarked';
+      jobId: number;
+      title: string;
+      timestamp: string;
+    };
+
+type Period = 'current' | 'previous' | null;
+
+function getPeriod(timestamp: string | null, now: number): Period {
+  if (!timestamp) return null;
+  const age = now - new Date(timestamp).getTime();
+  if (Number.isNaN(age) || age < 0) return null;
+  if (age < TREND_WINDOW_DAYS * DAY_MS) return 'current';
+  if (age < 2 * TREND_WINDOW_DAYS * DAY_MS) return 'previous';
+  return null;
+}
+
+function countByPeriod<T>(
+  items: T[],
+  getTimestamp: (item: T) => string | null,
+  now: number
+): Trend {
+  const trend = { current: 0, previous: 0 };
+  items.forEach((item) => {
+    const period = getPeriod(getTimestamp(item), now);
+    if (period) trend[period] += 1;
+  });
+  return trend;
+}
+
+// When an employer last moved the application; reviewedAt only records
+// the first review, so it lags behind shortlisting and offers
+function statusChangedAt(application: DashboardApplication) {
+  return application.updatedAt;
+}
+
+// Share of live applications an employer has acted on; withdrawn ones
+// are left out because nobody can respond to them
+function getResponseRate(applications: DashboardApplication[]) {
+  const live = applications.filter(({ status }) => status !== 'WITHDRAWN');
+  if (live.length === 0) return null;
+
+  const responded = live.filter(({ status }) => status !== 'PENDING');
+  return Math.round((responded.length / live.length) * 100);
+}
+
+export function getDashboardStats(
+  applications: DashboardApplication[],
+  bookmarks: DashboardBookmark[],
+  now = Date.now()
+): DashboardStats {
+  const withStatus = (status: string) =>
+    applications.filter((application) => application.status === status);
+  const appliedIn = (period: Period) =>
+    applications.filter(
+      ({ appliedAt }) => getPeriod(appliedAt, now) === period
+    );
+
+  const currentRate = getResponseRate(appliedIn('current'));
+  const previousRate = getResponseRate(appliedIn('previous'));
+
+  const byStatus: Record<string, number> = {};
+  applications.forEach(({ status }) => {
+    byStatus[status] = (byStatus[status] ?? 0) + 1;
+  });
+
+  // Shortlisting is the interview stage; accepted applications are offers
+  const interviews = withStatus('SHORTLISTED');
+  const offers = withStatus('ACCEPTED');
+
+  return {
+    applications: {
+      total: applications.length,
+      trend: countByPeriod(applications, ({ appliedAt }) => appliedAt, now),
+    },
+    interviews: {
+      total: interviews.length,
+      trend: countByPeriod(interviews, statusChangedAt, now),
+    },
+    offers: {
+      total: offers.length,
+      trend: countByPeriod(offers, statusChangedAt, now),
+    },
+    responseRate: {
+      value: getResponseRate(applications),
+      trend:
+        currentRate === null || previousRate === null
+          ? null
+          : { current: currentRate, previous: previousRate },
+    },
+    bookmarks: {
+      total: bookmarks.length,
+      trend: countByPeriod(bookmarks, ({ createdAt }) => createdAt, now),
+    },
+    byStatus,
+  };
+}
+
+// "+12%" for counts, "+8 pts" for rates; a count with no earlier
+// activity shows how many are new instead of an infinite percentage
+export function formatTrend(
+  trend: Trend,
+  unit: 'percent' | 'points' = 'percent'
+): { label: string; direction: 'up' | 'down' | 'flat' } {
+  const diff = trend.current - trend.previous;
+  const direction = diff > 0 ? 'up' : diff < 0 ? 'down' : 'flat';
+  const sign = diff > 0 ? '+' : '';
+
+  if (diff === 0) return { label: 'No change', direction };
+  if (unit === 'points') return { label: `${sign}${diff} pts`, direction };
+  if (trend.previous === 0) return { label: `+${diff} new`, direction };
+
+  const percent = Math.round((diff / trend.previous) * 100);
+  return { label: `${sign}${percent}%`, direction };
+}
+
+// Applications sent, status changes and saved jobs, newest first
+export function getRecentActivity(
+  applications: DashboardApplication[],
+  bookmarks: DashboardBookmark[],
+  limit = RECENT_ACTIVITY_LIMIT
+): ActivityItem[] {
+  const items: ActivityItem[] = [];
+
+  applications.forEach((application) => {
+    if (!application.job) return;
+    const { id: jobId, title } = application.job;
+
+    items.push({
+      id: `applied:${application.id}`,
+      kind: 'applied',
+      status: 'PENDING',
+      jobId,
+      title,
+      timestamp: application.appliedAt,
+    });
+    if (application.status !== 'PENDING') {
+      items.push({
+        id: `status:${application.id}`,
+        kind: 'status',
+        status: application.status,
+        jobId,
+        title,
+        timestamp: statusChangedAt(application),
+      });
+    }
+  });
+
+  bookmarks.forEach((bookmark) => {
+    if (!bookmark.job) return;
+    items.push({
+      id: `bookmarked:${bookmark.id}`,
+      kind: 'bookmarked',
+      jobId: bookmark.job.id,
+      title: bookmark.job.title,
+      timestamp: bookmark.createdAt,
+    });
+  });
+
+  return items
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )
+    .slice(0, limit);
+}
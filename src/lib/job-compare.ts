@@ -0,0 +1,133 @@
+/**
+ * Job Comparison
+ * A compare tray, shared by /jobs and /bookmarks, collects 2–4 jobs for
+ * /jobs/compare. The tray is kept in localStorage; the comparison itself
+ * lives in the query string (?job=1&job=2) so it can be shared.
+ */
+
+import { useCallback } from 'react';
+import type { Job } from '@/types';
+import type { SearchParamsInput } from './job-search';
+import { parseJobId } from './jobs';
+import { createLocalStore } from './local-store';
+
+export const COMPARE_MIN_JOBS = 2;
+export const COMPARE_MAX_JOBS = 4;
+
+const STORAGE_KEY = 'jobpay:compare';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Enough to label a job in the tray without loading it
+export type CompareItem = Pick<Job, 'id' | 'title'>;
+
+const compareStore = createLocalStore<CompareItem[]>({
+  key: () => STORAGE_KEY,
+  empty: () => [],
+  parse: (stored) =>
+    Array.isArray(stored) ? stored.slice(0, COMPARE_MAX_JOBS) : [],
+  label: 'compare selection',
+});
+
+// Job ids from the query string, in order, without repeats or extras
+export function parseCompareParams(params: SearchParamsInput): number[] {
+  const values =
+    params instanceof URLSearchParams
+      ? params.getAll('job')
+      : [params.job ?? []].flat();
+
+  const ids: number[] = [];
+  values.forEach((value) => {
+    const id = parseJobId(value.trim());
+    if (id !== null && id > 0 && !ids.includes(id)) ids.push(id);
+  });
+  return ids.slice(0, COMPARE_MAX_JOBS);
+}
+
+export function getCompareHref(ids: number[]): string {
+  const params = new URLSearchParams();
+  ids.forEach((id) => params.append('job', String(id)));
+  return `/jobs/compare?${params}`;
+}
+
+// Skills every job asks for, matched case-insensitively, in the first
+// job's order
+export function getSharedSkills(jobs: Pick<Job, 'skills'>[]): string[] {
+  if (jobs.length === 0) return [];
+
+  const [first, ...rest] = jobs;
+  const shared: string[] = [];
+  first.skills.forEach((skill) => {
+    const key = skill.toLowerCase();
+    if (
+      !shared.some((existing) => existing.toLowerCase() === key) &&
+      rest.every((job) => job.skills.some((s) => s.toLowerCase() === key))
+    ) {
+      shared.push(skill);
+    }
+  });
+  return shared;
+}
+
+export function hasDifferences(values: (string | number)[]): boolean {
+  return new Set(values).size > 1;
+}
+
+// Positions holding the best value; none when every value is the same
+export function getBestIndexes(
+  values: number[],
+  best: 'highest' | 'lowest'
+): number[] {
+  if (!hasDifferences(values)) return [];
+
+  const target = best === 'highest' ? Math.max(...values) : Math.min(...values);
+  return values.flatMap((value, index) => (value === target ? [index] : []));
+}
+
+// Whole days since the job was posted
+export function getJobAgeDays(createdAt: string, now = Date.now()): number {
+  return Math.max(
+    0,
+    Math.floor((now - new Date(createdAt).getTime()) / DAY_MS)
+  );
+}
+
+export function loadCompareSelection(): CompareItem[] {
+  return compareStore.load();
+}
+
+export function saveCompareSelection(items: CompareItem[]): void {
+  compareStore.save(items.slice(0, COMPARE_MAX_JOBS));
+}
+
+export const subscribeToCompareSelection = compareStore.subscribe;
+
+/**
+ * The jobs in the compare tray
+ */
+export function useCompareSelection() {
+  const items = compareStore.useValue();
+
+  const change = useCallback(
+    (update: (items: CompareItem[]) => CompareItem[]) =>
+      saveCompareSelection(update(loadCompareSelection())),
+    []
+  );
+
+  return {
+    items,
+    isFull: items.length >= COMPARE_MAX_JOBS,
+    isSelected: (id: number) => items.some((item) => item.id === id),
+    // Adds the job, or takes it out if it's already there
+    toggle: (job: CompareItem) =>
+      change((current) => {
+        if (current.some(({ id }) => id === job.id)) {
+          return current.filter(({ id }) => id !== job.id);
+        }
+        if (current.length >= COMPARE_MAX_JOBS) return current;
+        return [...current, { id: job.id, title: job.title }];
+      }),
+    remove: (id: number) =>
+      change((current) => current.filter((item) => item.id !== id)),
+    clear: () => change(() => []),
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Job Search State
+ * The /jobs filters and page, parsed from and serialized to the query
+ * string so searches survive reloads and can be shared
+ */
+
+import type {
+  Job,
+  JobFilterInput,
+  JobSort,
+  JobStatus,
+  PaginationInput,
+  SkillsMatch,
+} from '@/types';
+
+export const JOBS_PAGE_SIZE = 10;
+// A shared link loads all its pages in one request, so it is capped
+export const JOBS_MAX_PAGE = 20;
+export const SKILL_FACETS_LIMIT = 12;
+export const SEARCH_DEBOUNCE_MS = 300;
+export const SEARCH_MIN_LENGTH = 2;
+
+const JOB_STATUSES: JobStatus[] = ['OPEN', 'PAUSED', 'CLOSED', 'FILLED'];
+const SKILLS_MATCHES: SkillsMatch[] = ['ALL', 'ANY'];
+
+export const JOB_SORT_OPTIONS: { value: JobSort; label: string }[] = [
+  { value: 'NEWEST', label: 'Newest' },
+  { value: 'BUDGET_HIGH', label: 'Budget: high to low' },
+  { value: 'BUDGET_LOW', label: 'Budget: low to high' },
+  { value: 'FEWEST_APPLICATIONS', label: 'Fewest applications' },
+  { value: 'MOST_BOOKMARKED', label: 'Most bookmarked' },
+];
+
+export interface JobSearchState {
+  search: string;
+  skills: string[];
+  skillsMatch: SkillsMatch;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  status: JobStatus;
+  sort: JobSort;
+  page: number; // 1-based
+}
+
+export const defaultJobSearchState: JobSearchState = {
+  search: '',
+  skills: [],
+  skillsMatch: 'ALL',
+  budgetMin: null,
+  budgetMax: null,
+  status: 'OPEN',
+  sort: 'NEWEST',
+  page: 1,
+};
+
+// useSearchParams() on the client, the page's searchParams prop on the server
+export type SearchParamsInput =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+function getAll(params: SearchParamsInput, key: string): string[] {
+  if (params instanceof URLSearchParams) return params.getAll(key);
+
+  const value = params[key];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseWholeNumber(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+// Budget fields take whole rupees; anything else clears the bound
+export function parseBudgetInput(value: string): number | null {
+  return parseWholeNumber(value.trim());
+}
+
+// Searching on one or two letters matches nearly everything, so short
+// terms wait for more typing (clearing the box always applies)
+export function isSearchTermReady(term: string): boolean {
+  const length = term.trim().length;
+  return length === 0 || length >= SEARCH_MIN_LENGTH;
+}
+
+// Anything malformed falls back to the default rather than failing the page
+export function parseJobSearchParams(
+  params: SearchParamsInput
+): JobSearchState {
+  const status = getAll(params, 'status')[0] as JobStatus;
+  const skillsMatch = getAll(params, 'skillsMatch')[0] as SkillsMatch;
+  const sort = getAll(params, 'sort')[0];
+  const page = parseWholeNumber(getAll(params, 'page')[0]);
+  const skills = getAll(params, 'skills')
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+
+  return {
+    search: (getAll(params, 'search')[0] ?? '').trim(),
+    skills: Array.from(new Set(skills)),
+    skillsMatch: SKILLS_MATCHES.includes(skillsMatch)
+      ? skillsMatch
+      : defaultJobSearchState.skillsMatch,
+    budgetMin: parseWholeNumber(getAll(params, 'budgetMin')[0]),
+    budgetMax: parseWholeNumber(getAll(params, 'budgetMax')[0]),
+    status: JOB_STATUSES.includes(status)
+      ? status
+      : defaultJobSearchState.status,
+    sort:
+      JOB_SORT_OPTIONS.find(({ value }) => value === sort)?.value ??
+      defaultJobSearchState.sort,
+    page:
+      page && page > 0
+        ? Math.min(page, JOBS_MAX_PAGE)
+        : defaultJobSearchState.page,
+  };
+}
+
+// Defaults are left out so the plain /jobs URL stays canonical
+export function serializeJobSearchState(state: JobSearchState): string {
+  const params = new URLSearchParams();
+
+  if (state.search.trim()) params.set('search', state.search.trim());
+  state.skills.forEach((skill) => params.append('skills', skill));
+  if (state.skillsMatch !== defaultJobSearchState.skillsMatch) {
+    params.set('skillsMatch', state.skillsMatch);
+  }
+  if (state.budgetMin !== null) {
+    params.set('budgetMin', String(state.budgetMin));
+  }
+  if (state.budgetMax !== null) {
+    params.set('budgetMax', String(state.budgetMax));
+  }
+  if (state.status !== defaultJobSearchState.status) {
+    params.set('status', state.status);
+  }
+  if (state.sort !== defaultJobSearchState.sort) {
+    params.set('sort', state.sort);
+  }
+  if (state.page !== defaultJobSearchState.page) {
+    params.set('page', String(state.page));
+  }
+
+  return params.toString();
+}
+
+export function getJobSearchHref(state: JobSearchState): string {
+  const query = serializeJobSearchState(state);
+  return query ? `/jobs?${query}` : '/jobs';
+}
+
+// Results accumulate as the list scrolls, so `page` counts the pages
+// loaded and a shared link asks for all of them in one request
+export function toSearchJobsVariables(
+  state: JobSearchState,
+  limit = JOBS_PAGE_SIZE
+): { filter: JobFilterInput; pagination: PaginationInput; sort: JobSort } {
+  return {
+    filter: {
+      search: state.search || undefined,
+      skills: state.skills.length > 0 ? state.skills : undefined,
+      skillsMatch: state.skills.length > 0 ? state.skillsMatch : undefined,
+      budgetMin: state.budgetMin ?? undefined,
+      budgetMax: state.budgetMax ?? undefined,
+      status: state.status,
+    },
+    pagination: { limit: state.page * limit, offset: 0 },
+    sort: state.sort,
+  };
+}
+
+// Pages loaded for a result list of this length
+export function getLoadedPages(count: number, limit = JOBS_PAGE_SIZE) {
+  return Math.max(1, Math.ceil(count / limit));
+}
+
+// searchJobs field policy: pages are cached per filter and merged by
+// offset, so a first page (a new search or a refetch) starts over
+export function mergeSearchJobsPages<TJob>(
+  existing: { jobs: TJob[] } | undefined,
+  incoming: { jobs: TJob[] },
+  offset = 0
+) {
+  if (!existing || offset === 0) return incoming;
+
+  const jobs = existing.jobs.slice(0, offset);
+  return { ...incoming, jobs: [...jobs, ...incoming.jobs] };
+}
+
+const SCROLL_KEY_PREFIX = 'jobpay:jobs-scroll:';
+
+// Remember where the list was left so returning from a job lands there
+export function saveJobSearchScroll(href: string, scrollY: number): void {
+  try {
+    window.sessionStorage.setItem(
+      `${SCROLL_KEY_PREFIX}${href}`,
+      String(Math.round(scrollY))
+    );
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Read once: a fresh visit to the same search starts at the top
+export function takeJobSearchScroll(href: string): number | null {
+  try {
+    const key = `${SCROLL_KEY_PREFIX}${href}`;
+    const stored = window.sessionStorage.getItem(key);
+    window.sessionStorage.removeItem(key);
+    return stored === null ? null : Number(stored);
+  } catch {
+    return null;
+  }
+}
+
+// The filter part of the state, without the page
+export type JobSearchFilter = Omit<JobSearchState, 'page'>;
+
+export function toJobSearchFilter({
+  page,
+  ...filter
+}: JobSearchState): JobSearchFilter {
+  return filter;
+}
+
+// Client-side counterpart of the searchJobs filter, for jobs that arrive
+// over a subscription rather than from a search
+export function matchesJobSearch(
+  job: Pick<Job, 'title' | 'description' | 'budget' | 'status' | 'skills'>,
+  filter: JobSearchFilter
+): boolean {
+  const search = filter.search.trim().toLowerCase();
+  const jobSkills = job.skills.map((skill) => skill.toLowerCase());
+
+  if (job.status !== filter.status) return false;
+  if (
+    search &&
+    !job.title.toLowerCase().includes(search) &&
+    !job.description?.toLowerCase().includes(search)
+  ) {
+    return false;
+  }
+  if (filter.skills.length > 0) {
+    const hasSkill = (skill: string) => jobSkills.includes(skill.toLowerCase());
+    const matched =
+      filter.skillsMatch === 'ANY'
+        ? filter.skills.some(hasSkill)
+        : filter.skills.every(hasSkill);
+    if (!matched) return false;
+  }
+  if (filter.budgetMin !== null && job.budget < filter.budgetMin) return false;
+  if (filter.budgetMax !== null && job.budget > filter.budgetMax) return false;
+  return true;
+}
+
+export interface SkillFacet {
+  skill: string;
+  count: number;
+}
+
+// Skills across the loaded results, most common first. Selected skills are
+// always listed so they can be turned off, even when nothing matches them.
+export function getSkillFacets(
+  jobs: Pick<Job, 'skills'>[],
+  selected: string[],
+  limit = SKILL_FACETS_LIMIT
+): SkillFacet[] {
+  const counts = new Map<string, SkillFacet>();
+
+  jobs.forEach((job) => {
+    const seen = new Set<string>();
+    job.skills.forEach((raw) => {
+      const skill = raw.trim();
+      const key = skill.toLowerCase();
+      if (!skill || seen.has(key)) return;
+      seen.add(key);
+
+      const facet = counts.get(key);
+      if (facet) {
+        facet.count += 1;
+      } else {
+        counts.set(key, { skill, count: 1 });
+      }
+    });
+  });
+
+  const facets = Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.skill.localeCompare(b.skill))
+    .slice(0, limit);
+
+  selected.forEach((skill) => {
+    const key = skill.toLowerCase();
+    if (facets.some((facet) => facet.skill.toLowerCase() === key)) return;
+    facets.push({ skill, count: counts.get(key)?.count ?? 0 });
+  });
+  return facets;
+}
+
+type SortableJob = Pick<
+  Job,
+  'budget' | 'createdAt' | 'applicationCount' | 'bookmarkCount'
+>;
+
+const newestFirst = (a: SortableJob, b: SortableJob) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+const jobComparators: Record<
+  JobSort,
+  (a: SortableJob, b: SortableJob) => number
+> = {
+  NEWEST: newestFirst,
+  BUDGET_HIGH: (a, b) => b.budget - a.budget,
+  BUDGET_LOW: (a, b) => a.budget - b.budget,
+  FEWEST_APPLICATIONS: (a, b) => a.applicationCount - b.applicationCount,
+  MOST_BOOKMARKED: (a, b) => b.bookmarkCount - a.bookmarkCount,
+};
+
+// Mirrors the server's ordering, for showing results already loaded in
+// another order while the re-sorted ones are fetched. Ties go newest first.
+export function sortJobs<TJob extends SortableJob>(
+  jobs: TJob[],
+  sort: JobSort
+): TJob[] {
+  return [...jobs].sort(
+    (a, b) => jobComparators[sort](a, b) || newestFirst(a, b)
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * Employer Job Helpers
+ * Validation, draft persistence, skill suggestions and cache updates for
+ * the "Post a Job" wizard, plus the job status lifecycle
+ */
+
+import type { ApolloCache } from '@apollo/client';
+import { z } from 'zod';
+import { GET_MY_JOBS } from '@/graphql/queries';
+import type { Job, JobStatus } from '@/types';
+import { createLocalStore } from './local-store';
+
+export const JOB_TITLE_MAX_LENGTH = 120;
+export const JOB_DESCRIPTION_MAX_LENGTH = 10000;
+export const JOB_MAX_SKILLS = 15;
+
+const DRAFT_KEY_PREFIX = 'jobpay:job-posting-draft:';
+
+// Offered alongside skills from the employer's earlier postings
+export const COMMON_SKILLS = [
+  'React',
+  'TypeScript',
+  'JavaScript',
+  'Node.js',
+  'Next.js',
+  'GraphQL',
+  'Python',
+  'Django',
+  'Java',
+  'Spring Boot',
+  'Go',
+  'AWS',
+  'Docker',
+  'Kubernetes',
+  'PostgreSQL',
+  'MongoDB',
+  'Figma',
+  'UI/UX Design',
+  'React Native',
+  'Flutter',
+  'Machine Learning',
+  'Data Analysis',
+  'DevOps',
+  'Content Writing',
+  'SEO',
+];
+
+// Mirrors CreateJobInput
+export const jobPostingSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(5, 'Title must be at least 5 characters')
+    .max(
+      JOB_TITLE_MAX_LENGTH,
+      `Title must be at most ${JOB_TITLE_MAX_LENGTH} characters`
+    ),
+  description: z
+    .string()
+    .trim()
+    .min(50, 'Description must be at least 50 characters')
+    .max(
+      JOB_DESCRIPTION_MAX_LENGTH,
+      `Description must be at most ${JOB_DESCRIPTION_MAX_LENGTH} characters`
+    ),
+  budget: z
+    .number({ error: 'Enter a budget' })
+    .int('Budget must be a whole number of rupees')
+    .min(500, 'Budget must be at least ₹500')
+    .max(10000000, 'Budget must be at most ₹1,00,00,000'),
+  skills: z
+    .array(z.string().trim().min(1).max(40))
+    .min(1, 'Add at least one skill')
+    .max(JOB_MAX_SKILLS, `Add at most ${JOB_MAX_SKILLS} skills`),
+});
+
+export type JobPostingInput = z.infer<typeof jobPostingSchema>;
+
+// Wizard form state; budget stays a string until it is parsed
+export interface JobPostingForm {
+  title: string;
+  description: string;
+  budget: string;
+  skills: string[];
+}
+
+export interface JobPostingDraft extends JobPostingForm {
+  savedAt: number; // epoch milliseconds
+}
+
+export type JobPostingErrors = Partial<Record<keyof JobPostingForm, string>>;
+
+export const emptyJobPostingForm: JobPostingForm = {
+  title: '',
+  description: '',
+  budget: '',
+  skills: [],
+};
+
+export function toJobPostingInput(form: JobPostingForm) {
+  return {
+    title: form.title,
+    description: form.description,
+    budget: form.budget.trim() === '' ? undefined : Number(form.budget),
+    skills: form.skills,
+  };
+}
+
+// First error per field, limited to `fields` when validating a single step
+export function validateJobPosting(
+  form: JobPostingForm,
+  fields?: (keyof JobPostingForm)[]
+): JobPostingErrors {
+  const result = jobPostingSchema.safeParse(toJobPostingInput(form));
+  if (result.success) return {};
+
+  const errors: JobPostingErrors = {};
+  result.error.issues.forEach((issue) => {
+    const field = issue.path[0] as keyof JobPostingForm;
+    if (fields && !fields.includes(field)) return;
+    errors[field] ??= issue.message;
+  });
+  return errors;
+}
+
+// Case-insensitive prefix matches first, then substring matches
+export function getSkillSuggestions(
+  query: string,
+  selected: string[],
+  pool: string[],
+  limit = 8
+): string[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const taken = new Set(selected.map((skill) => skill.toLowerCase()));
+  const seen = new Set<string>();
+  const candidates = pool.filter((skill) => {
+    const key = skill.toLowerCase();
+    if (taken.has(key) || seen.has(key) || !key.includes(needle)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return candidates
+    .sort(
+      (a, b) =>
+        Number(!a.toLowerCase().startsWith(needle)) -
+        Number(!b.toLowerCase().startsWith(needle))
+    )
+    .slice(0, limit);
+}
+
+// Per user, so an unfinished posting isn't offered to the next account
+const draftStore = createLocalStore<JobPostingDraft | null>({
+  key: (userId) => `${DRAFT_KEY_PREFIX}${userId}`,
+  empty: () => null,
+  parse: (stored) => {
+    const draft = stored as Partial<JobPostingDraft>;
+    return {
+      title: String(draft.title ?? ''),
+      description: String(draft.description ?? ''),
+      budget: String(draft.budget ?? ''),
+      skills: Array.isArray(draft.skills) ? draft.skills.map(String) : [],
+      savedAt: Number(draft.savedAt) || 0,
+    };
+  },
+  label: 'job draft',
+});
+
+export function loadJobPostingDraft(userId: string): JobPostingDraft | null {
+  return draftStore.load(userId);
+}
+
+export function saveJobPostingDraft(
+  userId: string,
+  form: JobPostingForm,
+  now = Date.now()
+): JobPostingDraft | null {
+  const saved = { ...form, savedAt: now };
+  return draftStore.save(saved, userId) ? saved : null;
+}
+
+export function clearJobPostingDraft(userId: string): void {
+  draftStore.clear(userId);
+}
+
+// Route params are strings, but job(id:) takes an Int
+export function parseJobId(value: string): number | null {
+  return /^\d+$/.test(value) ? Number.parseInt(value, 10) : null;
+}
+
+// Prepend a newly created job to the cached GET_MY_JOBS result
+export function addJobToMyJobsCache(
+  cache: ApolloCache<unknown>,
+  job: Job
+): void {
+  cache.updateQuery<{ myJobs: Job[] }>({ query: GET_MY_JOBS }, (data) => {
+    if (!data) return data;
+    if (data.myJobs.some(({ id }) => id === job.id)) return data;
+    return { myJobs: [job, ...data.myJobs] };
+  });
+}
+
+// Allowed status changes; closed and filled jobs can't be reopened
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  OPEN: ['PAUSED', 'CLOSED', 'FILLED'],
+  PAUSED: ['OPEN', 'CLOSED', 'FILLED'],
+  CLOSED: [],
+  FILLED: [],
+};
+
+export const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+  OPEN: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  PAUSED:
+    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  CLOSED: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  FILLED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+};
+
+export function canTransitionJob(from: JobStatus, to: JobStatus): boolean {
+  return JOB_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Jobs from the selection that a bulk change to `status` applies to
+export function getTransitionableJobs<T extends Pick<Job, 'id' | 'status'>>(
+  jobs: T[],
+  selectedIds: Set<number>,
+  status: JobStatus
+): T[] {
+  return jobs.filter(
+    (job) => selectedIds.has(job.id) && canTransitionJob(job.status, status)
+  );
+}
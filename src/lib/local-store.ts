@@ -0,0 +1,127 @@
+/**
+ * Local Storage Stores
+ * A JSON value in localStorage, optionally one per user, that components
+ * can follow. Saves from this tab reach subscribers directly; saves from
+ * other tabs arrive through the storage event.
+ */
+
+import { useEffect, useState } from 'react';
+
+interface LocalStoreOptions<T> {
+  // Storage key for a scope, usually the user id; unscoped stores ignore it
+  key: (scope: string) => string;
+  // What to show when nothing is stored or it can't be read
+  empty: () => T;
+  // Turns parsed JSON, possibly malformed or from an older version, into T
+  parse: (stored: unknown) => T;
+  serialize?: (value: T) => unknown;
+  // Used in the warning when a save fails
+  label: string;
+}
+
+type LocalStoreListener = (scope: string) => void;
+
+export interface LocalStore<T> {
+  key: (scope?: string) => string;
+  load: (scope?: string) => T;
+  // False when the value couldn't be written
+  save: (value: T, scope?: string) => boolean;
+  update: (change: (value: T) => T, scope?: string) => boolean;
+  clear: (scope?: string) => void;
+  subscribe: (listener: LocalStoreListener) => () => void;
+  // The value for a scope, reloaded when it changes here or in another
+  // tab; empty while the scope is null
+  useValue: (scope?: string | null) => T;
+}
+
+export function createLocalStore<T>({
+  key,
+  empty,
+  parse,
+  serialize = (value) => value,
+  label,
+}: LocalStoreOptions<T>): LocalStore<T> {
+  const listeners = new Set<LocalStoreListener>();
+
+  const load = (scope = '') => {
+    if (typeof window === 'undefined') return empty();
+
+    try {
+      const stored = window.localStorage.getItem(key(scope));
+      return stored === null ? empty() : parse(JSON.parse(stored));
+    } catch {
+      return empty();
+    }
+  };
+
+  const save = (value: T, scope = '') => {
+    if (typeof window === 'undefined') return false;
+
+    let saved = true;
+    try {
+      window.localStorage.setItem(key(scope), JSON.stringify(serialize(value)));
+    } catch (error) {
+      // Storage full or disabled (private browsing)
+      console.warn(`Failed to save ${label}:`, error);
+      saved = false;
+    }
+    listeners.forEach((listener) => listener(scope));
+    return saved;
+  };
+
+  const clear = (scope = '') => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.removeItem(key(scope));
+    } catch {
+      // Ignore storage errors
+    }
+    listeners.forEach((listener) => listener(scope));
+  };
+
+  const subscribe = (listener: LocalStoreListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  function useValue(scope: string | null = '') {
+    const [value, setValue] = useState<T>(empty);
+
+    useEffect(() => {
+      if (scope === null) {
+        setValue(empty());
+        return;
+      }
+
+      const reload = () => setValue(load(scope));
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key === key(scope)) reload();
+      };
+
+      reload();
+      const unsubscribe = subscribe((changed) => {
+        if (changed === scope) reload();
+      });
+      window.addEventListener('storage', handleStorage);
+      return () => {
+        unsubscribe();
+        window.removeEventListener('storage', handleStorage);
+      };
+    }, [scope]);
+
+    return value;
+  }
+
+  return {
+    key: (scope = '') => key(scope),
+    load,
+    save,
+    update: (change, scope = '') => save(change(load(scope)), scope),
+    clear,
+    subscribe,
+    useValue,
+  };
+}
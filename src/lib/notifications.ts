@@ -0,0 +1,196 @@
+/**
+ * Notification Center
+ * Feed of subscription events persisted per user in localStorage, plus
+ * opt-in browser notifications while the tab is in the background
+ */
+
+import { browserSupport } from '../../lib/cross-browser';
+import { createLocalStore } from './local-store';
+
+export const NOTIFICATIONS_LIMIT = 50;
+
+const STORAGE_KEY_PREFIX = 'jobpay:notifications:';
+const BROWSER_NOTIFICATIONS_KEY = 'jobpay:browser-notifications';
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  message: string;
+  timestamp: string;
+  href: string | null;
+  read: boolean;
+}
+
+// Fields shared by every subscription payload
+export interface NotificationEvent {
+  type: string;
+  message: string;
+  timestamp: string;
+  jobId: number;
+  applicationId?: number;
+}
+
+const notificationsStore = createLocalStore<AppNotification[]>({
+  key: (userId) => `${STORAGE_KEY_PREFIX}${userId}`,
+  empty: () => [],
+  parse: (stored) => (Array.isArray(stored) ? stored : []),
+  label: 'notifications',
+});
+
+// The id is stable per event so redelivered events are not shown twice
+export function toNotification(
+  event: NotificationEvent,
+  href: string | null = null
+): AppNotification {
+  return {
+    id: [event.type, event.applicationId ?? event.jobId, event.timestamp].join(
+      ':'
+    ),
+    type: event.type,
+    message: event.message,
+    timestamp: event.timestamp,
+    href,
+    read: false,
+  };
+}
+
+// Newest first, without duplicates, capped at NOTIFICATIONS_LIMIT
+export function addNotification(
+  notifications: AppNotification[],
+  notification: AppNotification
+): AppNotification[] {
+  if (notifications.some(({ id }) => id === notification.id)) {
+    return notifications;
+  }
+
+  return [notification, ...notifications]
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )
+    .slice(0, NOTIFICATIONS_LIMIT);
+}
+
+export function markNotificationRead(
+  notifications: AppNotification[],
+  id: string
+): AppNotification[] {
+  return notifications.map((notification) =>
+    notification.id === id ? { ...notification, read: true } : notification
+  );
+}
+
+export function markAllNotificationsRead(
+  notifications: AppNotification[]
+): AppNotification[] {
+  return notifications.map((notification) => ({
+    ...notification,
+    read: true,
+  }));
+}
+
+export function countUnread(notifications: AppNotification[]): number {
+  return notifications.filter(({ read }) => !read).length;
+}
+
+export function loadNotifications(userId: string): AppNotification[] {
+  return notificationsStore.load(userId);
+}
+
+export function saveNotifications(
+  userId: string,
+  notifications: AppNotification[]
+): void {
+  notificationsStore.save(notifications, userId);
+}
+
+export function updateNotifications(
+  userId: string,
+  change: (notifications: AppNotification[]) => AppNotification[]
+): void {
+  notificationsStore.update(change, userId);
+}
+
+// Saves from this tab, such as job alerts raised outside the bell; other
+// tabs are covered by the storage event
+export const subscribeToNotifications = notificationsStore.subscribe;
+
+// The user's feed, including alerts filed from elsewhere in the app
+export function useNotifications(userId: string | null): AppNotification[] {
+  return notificationsStore.useValue(userId);
+}
+
+// Opted in here and allowed by the browser
+export function getBrowserNotificationsEnabled(): boolean {
+  if (!browserSupport.hasNotifications()) return false;
+
+  try {
+    return (
+      window.localStorage.getItem(BROWSER_NOTIFICATIONS_KEY) === 'on' &&
+      Notification.permission === 'granted'
+    );
+  } catch {
+    return false;
+  }
+}
+
+export async function setBrowserNotificationsEnabled(
+  enabled: boolean
+): Promise<boolean> {
+  if (!browserSupport.hasNotifications()) return false;
+
+  const permission =
+    enabled && Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission;
+  const granted = enabled && permission === 'granted';
+
+  try {
+    if (granted) {
+      window.localStorage.setItem(BROWSER_NOTIFICATIONS_KEY, 'on');
+    } else {
+      window.localStorage.removeItem(BROWSER_NOTIFICATIONS_KEY);
+    }
+  } catch {
+    // Ignore storage errors
+  }
+  return granted;
+}
+
+// Only while the tab is hidden; the in-app feed covers the visible case
+export function showBrowserNotification(
+  notification: AppNotification,
+  onClick?: () => void
+): void {
+  if (document.visibilityState !== 'hidden') return;
+  if (!getBrowserNotificationsEnabled()) return;
+
+  const browserNotification = new Notification('JobPay', {
+    body: notification.message,
+    tag: notification.id,
+  });
+  browserNotification.onclick = () => {
+    window.focus();
+    onClick?.();
+    browserNotification.close();
+  };
+}
+
+const relativeTimeUnits: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+// "5 minutes ago", "yesterday"; anything under a minute is "just now"
+export function formatNotificationTime(timestamp: string, now = Date.now()) {
+  const elapsed = new Date(timestamp).getTime() - now;
+  const formatter = new Intl.RelativeTimeFormat('en-IN', { numeric: 'auto' });
+
+  for (const [unit, ms] of relativeTimeUnits) {
+    if (Math.abs(elapsed) >= ms) {
+      return formatter.format(Math.round(elapsed / ms), unit);
+    }
+  }
+  return 'just now';
+}
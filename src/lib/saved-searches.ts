@@ -0,0 +1,306 @@
+/**
+ * Saved Searches and Job Alerts
+ * Named /jobs filters persisted per user in localStorage. New jobs from
+ * the job updates subscription are matched against them on the client,
+ * either alerting straight away or collecting into a daily/weekly digest.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useApolloClient } from '@apollo/client';
+import { GET_JOB_BY_ID } from '@/graphql/queries';
+import type { Job } from '@/types';
+import {
+  JobSearchFilter,
+  defaultJobSearchState,
+  getJobSearchHref,
+  matchesJobSearch,
+  toJobSearchFilter,
+} from './job-search';
+import { createLocalStore } from './local-store';
+import type { NotificationEvent } from './notifications';
+import { JobEvent, useJobUpdates } from './subscriptions';
+
+export const SAVED_SEARCH_NAME_MAX_LENGTH = 60;
+
+// Job update events that announce a newly posted job
+export const JOB_CREATED_EVENT = 'JOB_CREATED';
+
+const STORAGE_KEY_PREFIX = 'jobpay:saved-searches:';
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AlertFrequency = 'instant' | 'daily' | 'weekly';
+
+export const ALERT_FREQUENCIES: { value: AlertFrequency; label: string }[] = [
+  { value: 'instant', label: 'Instant' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const DIGEST_PERIOD_MS: Record<Exclude<AlertFrequency, 'instant'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filter: JobSearchFilter;
+  frequency: AlertFrequency;
+  createdAt: string;
+  lastVisitedAt: string;
+  lastAlertedAt: string;
+  // Matches since the search was last opened
+  newJobIds: number[];
+  // Matches waiting for the next daily or weekly digest
+  pendingJobIds: number[];
+}
+
+type SavedSearchJob = Pick<
+  Job,
+  'id' | 'title' | 'description' | 'budget' | 'status' | 'skills'
+>;
+
+const savedSearchesStore = createLocalStore<SavedSearch[]>({
+  key: (userId) => `${STORAGE_KEY_PREFIX}${userId}`,
+  empty: () => [],
+  parse: (stored) => {
+    if (!Array.isArray(stored)) return [];
+
+    // Searches saved before a filter existed get its default
+    return stored.map((search: SavedSearch) => ({
+      ...search,
+      filter: { ...toJobSearchFilter(defaultJobSearchState), ...search.filter },
+    }));
+  },
+  label: 'searches',
+});
+
+export function createSavedSearch(
+  name: string,
+  filter: JobSearchFilter,
+  frequency: AlertFrequency,
+  now = Date.now()
+): SavedSearch {
+  const timestamp = new Date(now).toISOString();
+
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim().slice(0, SAVED_SEARCH_NAME_MAX_LENGTH),
+    filter,
+    frequency,
+    createdAt: timestamp,
+    lastVisitedAt: timestamp,
+    lastAlertedAt: timestamp,
+    newJobIds: [],
+    pendingJobIds: [],
+  };
+}
+
+// Adds the job to every search it matches; returns the instant-alert
+// searches that matched so the caller can notify right away
+export function recordNewJob(
+  searches: SavedSearch[],
+  job: SavedSearchJob
+): { searches: SavedSearch[]; instant: SavedSearch[] } {
+  const instant: SavedSearch[] = [];
+
+  const updated = searches.map((search) => {
+    if (
+      search.newJobIds.includes(job.id) ||
+      !matchesJobSearch(job, search.filter)
+    ) {
+      return search;
+    }
+
+    if (search.frequency === 'instant') instant.push(search);
+    return {
+      ...search,
+      newJobIds: [...search.newJobIds, job.id],
+      pendingJobIds:
+        search.frequency === 'instant'
+          ? search.pendingJobIds
+          : [...search.pendingJobIds, job.id],
+    };
+  });
+
+  return { searches: updated, instant };
+}
+
+// Daily and weekly searches whose period is up and have something to report
+export function collectDueDigests(
+  searches: SavedSearch[],
+  now = Date.now()
+): { searches: SavedSearch[]; due: SavedSearch[] } {
+  const due: SavedSearch[] = [];
+
+  const updated = searches.map((search) => {
+    if (search.frequency === 'instant' || search.pendingJobIds.length === 0) {
+      return search;
+    }
+
+    const elapsed = now - new Date(search.lastAlertedAt).getTime();
+    if (elapsed < DIGEST_PERIOD_MS[search.frequency]) return search;
+
+    due.push(search);
+    return {
+      ...search,
+      pendingJobIds: [],
+      lastAlertedAt: new Date(now).toISOString(),
+    };
+  });
+
+  return { searches: updated, due };
+}
+
+export function markSavedSearchVisited(
+  searches: SavedSearch[],
+  id: string,
+  now = Date.now()
+): SavedSearch[] {
+  return searches.map((search) =>
+    search.id === id
+      ? { ...search, newJobIds: [], lastVisitedAt: new Date(now).toISOString() }
+      : search
+  );
+}
+
+export function getSavedSearchHref(search: SavedSearch): string {
+  return getJobSearchHref({ ...search.filter, page: 1 });
+}
+
+export function loadSavedSearches(userId: string): SavedSearch[] {
+  return savedSearchesStore.load(userId);
+}
+
+export function saveSavedSearches(
+  userId: string,
+  searches: SavedSearch[]
+): void {
+  savedSearchesStore.save(searches, userId);
+}
+
+// Saves from this tab; other tabs are covered by the storage event
+export const subscribeToSavedSearches = savedSearchesStore.subscribe;
+
+/**
+ * The signed-in user's saved searches
+ */
+export function useSavedSearches(userId: string | null) {
+  const searches = savedSearchesStore.useValue(userId);
+
+  const change = useCallback(
+    (update: (searches: SavedSearch[]) => SavedSearch[]) => {
+      if (userId) savedSearchesStore.update(update, userId);
+    },
+    [userId]
+  );
+
+  return {
+    searches,
+    addSearch: (search: SavedSearch) =>
+      change((current) => [...current, search]),
+    editSearch: (
+      id: string,
+      changes: Partial<Pick<SavedSearch, 'name' | 'filter' | 'frequency'>>
+    ) =>
+      change((current) =>
+        current.map((search) =>
+          search.id === id ? { ...search, ...changes } : search
+        )
+      ),
+    deleteSearch: (id: string) =>
+      change((current) => current.filter((search) => search.id !== id)),
+    markVisited: (id: string) =>
+      change((current) => markSavedSearchVisited(current, id)),
+  };
+}
+
+interface JobAlertOptions {
+  userId: string | null;
+  enabled?: boolean;
+  onAlert: (event: NotificationEvent, href: string) => void;
+}
+
+/**
+ * Match newly posted jobs against the user's saved searches
+ * Instant searches alert per job; daily and weekly ones are checked for a
+ * digest when the app loads and then hourly
+ */
+export function useJobAlerts({
+  userId,
+  enabled = true,
+  onAlert,
+}: JobAlertOptions) {
+  const client = useApolloClient();
+  const active = enabled && Boolean(userId);
+  // Callers pass a new callback each render; the digest timer shouldn't reset
+  const onAlertRef = useRef(onAlert);
+  onAlertRef.current = onAlert;
+
+  const sendDueDigests = useCallback(() => {
+    if (!userId) return;
+
+    const { searches, due } = collectDueDigests(loadSavedSearches(userId));
+    if (due.length === 0) return;
+
+    saveSavedSearches(userId, searches);
+    const timestamp = new Date().toISOString();
+    due.forEach((search) => {
+      const count = search.pendingJobIds.length;
+      onAlertRef.current(
+        {
+          type: 'JOB_ALERT_DIGEST',
+          jobId: search.pendingJobIds[count - 1],
+          message: `${count} new ${count === 1 ? 'job matches' : 'jobs match'} "${search.name}"`,
+          timestamp,
+        },
+        getSavedSearchHref(search)
+      );
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    sendDueDigests();
+    const interval = setInterval(sendDueDigests, DIGEST_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, sendDueDigests]);
+
+  const handleJobEvent = async (event: JobEvent) => {
+    if (!userId || event.type !== JOB_CREATED_EVENT) return;
+    if (loadSavedSearches(userId).length === 0) return;
+
+    try {
+      // The event only carries the title; matching needs skills and budget
+      const { data } = await client.query<{ job: Job | null }>({
+        query: GET_JOB_BY_ID,
+        variables: { id: event.jobId },
+      });
+      if (!data?.job) return;
+
+      const { searches, instant } = recordNewJob(
+        loadSavedSearches(userId),
+        data.job
+      );
+      saveSavedSearches(userId, searches);
+      instant.forEach((search) =>
+        onAlertRef.current(
+          {
+            type: 'JOB_ALERT',
+            jobId: event.jobId,
+            message: `New job for "${search.name}": ${event.jobTitle}`,
+            timestamp: event.timestamp,
+          },
+          `/jobs/${event.jobId}`
+        )
+      );
+      sendDueDigests();
+    } catch (error) {
+      console.error('Failed to match job against saved searches:', error);
+    }
+  };
+
+  useJobUpdates({ enabled: active, onEvent: handleJobEvent });
+}
@@ -0,0 +1,249 @@
+/**
+ * Real-time Updates
+ * graphql-ws client for GraphQL subscriptions, and the cache updates applied
+ * when application and job events arrive
+ */
+
+import {
+  type ApolloCache,
+  type ApolloClient,
+  type DocumentNode,
+  useSubscription,
+} from '@apollo/client';
+import { createClient, type Client } from 'graphql-ws';
+import {
+  GET_JOB_APPLICATIONS,
+  GET_MY_APPLICATIONS,
+  JOB_UPDATES_SUBSCRIPTION,
+  MY_APPLICATION_UPDATES_SUBSCRIPTION,
+  MY_JOB_APPLICATIONS_SUBSCRIPTION,
+} from '@/graphql/queries';
+import { getValidAccessToken, subscribeToSession } from './auth-client';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+const APPLIED_EVENTS_LIMIT = 200;
+
+export interface ApplicationEvent {
+  type: string;
+  applicationId: number;
+  jobId: number;
+  jobTitle: string;
+  applicantId: number;
+  applicantName?: string | null;
+  status: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface JobEvent {
+  type: string;
+  jobId: number;
+  jobTitle: string;
+  message: string;
+  timestamp: string;
+  status: string | null;
+}
+
+export interface LiveUpdateOptions<TEvent> {
+  enabled?: boolean;
+  // Called after the cache has been updated
+  onEvent?: (event: TEvent) => void;
+}
+
+// ws(s):// counterpart of the HTTP endpoint unless one is configured
+export function getSubscriptionUrl(
+  httpUrl = process.env.NEXT_PUBLIC_GRAPHQL_ENDPOINT ||
+    'http://localhost:4000/graphql'
+): string {
+  return (
+    process.env.NEXT_PUBLIC_GRAPHQL_WS_ENDPOINT ||
+    httpUrl.replace(/^http/, 'ws')
+  );
+}
+
+// Exponential backoff with jitter so clients don't reconnect in lockstep
+export function getReconnectDelay(retries: number, random = Math.random()) {
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** retries,
+    RECONNECT_MAX_DELAY_MS
+  );
+  return Math.round(delay / 2 + (delay / 2) * random);
+}
+
+// Browser-only: the socket connects lazily on the first subscription and
+// reconnects forever, fetching a fresh access token each time
+export function createSubscriptionClient(url = getSubscriptionUrl()): Client {
+  const client = createClient({
+    url,
+    lazy: true,
+    retryAttempts: Infinity,
+    shouldRetry: () => true,
+    retryWait: (retries) =>
+      new Promise((resolve) => setTimeout(resolve, getReconnectDelay(retries))),
+    connectionParams: async () => {
+      const token = await getValidAccessToken();
+      return token ? { authorization: `Bearer ${token}` } : {};
+    },
+  });
+
+  // Reconnect as the new user after signing in or out; token refreshes for
+  // the same user keep the existing connection
+  let userId: string | null = null;
+  subscribeToSession((session) => {
+    const nextUserId = session?.user.id ?? null;
+    if (nextUserId !== userId) {
+      userId = nextUserId;
+      client.terminate();
+    }
+  });
+
+  return client;
+}
+
+// Events whose cache updates have run, per cache. The /app layout follows
+// these subscriptions for notifications; anything else following the same
+// one must not bump counts or refetch a second time for the same event.
+const appliedEvents = new WeakMap<ApolloCache<unknown>, Set<string>>();
+
+// True the first time an event is seen for this cache
+export function claimEvent(
+  cache: ApolloCache<unknown>,
+  event: ApplicationEvent | JobEvent
+): boolean {
+  const key = [
+    event.type,
+    'applicationId' in event ? event.applicationId : '',
+    event.jobId,
+    event.status,
+    event.timestamp,
+  ].join(':');
+
+  let applied = appliedEvents.get(cache);
+  if (!applied) {
+    applied = new Set();
+    appliedEvents.set(cache, applied);
+  }
+  if (applied.has(key)) return false;
+
+  applied.add(key);
+  // Sets iterate in insertion order, so this drops the oldest
+  if (applied.size > APPLIED_EVENTS_LIMIT) {
+    applied.delete(applied.values().next().value as string);
+  }
+  return true;
+}
+
+// Update the cached Application (if we have it) in place
+export function applyApplicationEvent(
+  cache: ApolloCache<unknown>,
+  event: ApplicationEvent
+): boolean {
+  const id = cache.identify({
+    __typename: 'Application',
+    id: event.applicationId,
+  });
+  if (!id) return false;
+
+  return cache.modify({
+    id,
+    fields: {
+      status: () => event.status,
+      updatedAt: () => event.timestamp,
+    },
+  });
+}
+
+export function applyJobEvent(
+  cache: ApolloCache<unknown>,
+  event: JobEvent
+): boolean {
+  if (!event.status) return false;
+
+  const id = cache.identify({ __typename: 'Job', id: event.jobId });
+  if (!id) return false;
+
+  return cache.modify({
+    id,
+    fields: { status: () => event.status },
+  });
+}
+
+// Status changes for the applicant's own applications
+export function useMyApplicationUpdates({
+  enabled = true,
+  onEvent,
+}: LiveUpdateOptions<ApplicationEvent> = {}) {
+  return useSubscription<{ myApplicationUpdates: ApplicationEvent }>(
+    MY_APPLICATION_UPDATES_SUBSCRIPTION,
+    {
+      skip: !enabled,
+      onData: ({ client, data }) => {
+        const event = data.data?.myApplicationUpdates;
+        if (!event) return;
+
+        // Unknown applications (e.g. applied from another tab) need a refetch
+        if (
+          claimEvent(client.cache, event) &&
+          !applyApplicationEvent(client.cache, event)
+        ) {
+          refetchActive(client, GET_MY_APPLICATIONS);
+        }
+        onEvent?.(event);
+      },
+    }
+  );
+}
+
+// New and changed applications on the employer's jobs
+export function useMyJobApplicationUpdates({
+  enabled = true,
+  onEvent,
+}: LiveUpdateOptions<ApplicationEvent> = {}) {
+  return useSubscription<{ myJobApplications: ApplicationEvent }>(
+    MY_JOB_APPLICATIONS_SUBSCRIPTION,
+    {
+      skip: !enabled,
+      onData: ({ client, data }) => {
+        const event = data.data?.myJobApplications;
+        if (!event) return;
+
+        if (
+          claimEvent(client.cache, event) &&
+          !applyApplicationEvent(client.cache, event)
+        ) {
+          // A new applicant: refresh the pipeline and the job's count
+          refetchActive(client, GET_JOB_APPLICATIONS);
+          client.cache.modify({
+            id: client.cache.identify({ __typename: 'Job', id: event.jobId }),
+            fields: { applicationCount: (count: number) => count + 1 },
+          });
+        }
+        onEvent?.(event);
+      },
+    }
+  );
+}
+
+export function useJobUpdates({
+  enabled = true,
+  onEvent,
+}: LiveUpdateOptions<JobEvent> = {}) {
+  return useSubscription<{ jobUpdates: JobEvent }>(JOB_UPDATES_SUBSCRIPTION, {
+    skip: !enabled,
+    onData: ({ client, data }) => {
+      const event = data.data?.jobUpdates;
+      if (!event) return;
+
+      if (claimEvent(client.cache, event)) applyJobEvent(client.cache, event);
+      onEvent?.(event);
+    },
+  });
+}
+
+// Refetch the query only if a mounted component is watching it
+function refetchActive(client: ApolloClient<unknown>, query: DocumentNode) {
+  client.refetchQueries({ include: [query] }).catch((error) => {
+    console.error('Failed to refresh after live update:', error);
+  });
+}
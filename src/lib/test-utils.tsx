@@ -8,6 +8,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { render, RenderOptions } from '@testing-library/react';
 import { ThemeProvider } from 'next-themes';
 import { ReactElement } from 'react';
+import type { Job } from '@/types';
 
 // Create a test-specific Query client
 const createTestQueryClient = () => {
@@ -53,24 +54,25 @@ const customRender = (
 };
 
 // Mock data generators
-export const mockJob = {
-  id: 'job-1',
+export const mockJob: Job = {
+  id: 1,
   title: 'Frontend Developer',
-  company: 'Test Company',
-  location: 'Remote',
-  salary: '$80,000 - $100,000',
-  jobType: 'full-time' as const,
-  urgency: 'medium' as const,
   description: 'We are looking for a skilled frontend developer...',
-  requirements: [
-    'React experience',
-    'TypeScript knowledge',
-    'Problem-solving skills',
-  ],
-  benefits: ['Health insurance', 'Remote work', 'Flexible hours'],
-  postedAt: '2024-01-15T10:00:00Z',
-  applicationDeadline: '2024-02-15T23:59:59Z',
-  status: 'open' as const,
+  budget: 80000,
+  status: 'OPEN',
+  skills: ['React', 'TypeScript'],
+  isActive: true,
+  createdAt: '2024-01-15T10:00:00Z',
+  updatedAt: '2024-01-15T10:00:00Z',
+  posterId: 2,
+  applicationCount: 3,
+  bookmarkCount: 5,
+  poster: {
+    id: 2,
+    firstName: 'Test',
+    lastName: 'Employer',
+    email: 'employer@example.com',
+  },
 };
 
 export const mockUser = {
@@ -0,0 +1,164 @@
+/**
+ * Time-based One-Time Passwords (RFC 6238)
+ * Used to check enrollment codes locally before the API confirms them,
+ * and to build the otpauth:// URI rendered as a QR code
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  period?: number; // seconds
+  digits?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  window?: number; // accepted steps either side of now, for clock drift
+  timestamp?: number; // epoch milliseconds
+}
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(cleaned[i]);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${cleaned[i]}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+export function generateSecret(byteLength = 20): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base32Encode(bytes);
+}
+
+async function hotp(
+  key: Uint8Array<ArrayBuffer>,
+  counter: number,
+  digits: number
+) {
+  // 8-byte big-endian counter; counters stay well below 2^53
+  const message = new Uint8Array(8);
+  let remaining = counter;
+  for (let i = 7; i >= 0; i--) {
+    message[i] = remaining & 255;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign('HMAC', cryptoKey, message)
+  );
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % Math.pow(10, digits)).padStart(digits, '0');
+}
+
+export function generateTotp(
+  secret: string,
+  timestamp = Date.now(),
+  { period = 30, digits = 6 }: TotpOptions = {}
+): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / period);
+  return hotp(base32Decode(secret), counter, digits);
+}
+
+export async function verifyTotp(
+  secret: string,
+  token: string,
+  {
+    window = 1,
+    timestamp = Date.now(),
+    period = 30,
+    digits = 6,
+  }: VerifyTotpOptions = {}
+): Promise<boolean> {
+  const code = token.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) return false;
+
+  for (let step = -window; step <= window; step++) {
+    const candidate = await generateTotp(
+      secret,
+      timestamp + step * period * 1000,
+      { period, digits }
+    );
+    if (candidate === code) return true;
+  }
+
+  return false;
+}
+
+export function buildOtpAuthUri({
+  secret,
+  accountName,
+  issuer = 'JobPay',
+  period = 30,
+  digits = 6,
+}: {
+  secret: string;
+  accountName: string;
+  issuer?: string;
+} & TotpOptions): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(digits),
+    period: String(period),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Group the secret in fours for manual entry
+export function formatSecret(secret: string): string {
+  return secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+}
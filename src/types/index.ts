@@ -1,20 +1,60 @@
+// Mirrors the GraphQL Job type (see JOB_FIELDS)
+export type JobStatus = 'OPEN' | 'PAUSED' | 'CLOSED' | 'FILLED';
+
+export interface JobPoster {
+  id: number;
+  firstName: string | null;
+  lastName: string | null;
+  email?: string;
+}
+
 export interface Job {
-  id: string;
+  id: number;
   title: string;
-  company: string;
-  location: string;
-  type: 'FULL_TIME' | 'PART_TIME' | 'CONTRACT' | 'FREELANCE';
-  description: string;
-  requirements: string[];
-  salary?: {
-    min: number;
-    max: number;
-    currency: string;
-  };
-  postedAt: string;
-  expiresAt?: string;
-  isRemote: boolean;
-  tags: string[];
+  description: string | null;
+  budget: number;
+  status: JobStatus;
+  skills: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  posterId: number;
+  applicationCount: number;
+  bookmarkCount: number;
+  poster: JobPoster;
+}
+
+// Whether a job needs every selected skill or any one of them
+export type SkillsMatch = 'ALL' | 'ANY';
+
+// Variables and result of SEARCH_JOBS
+export interface JobFilterInput {
+  search?: string;
+  skills?: string[];
+  skillsMatch?: SkillsMatch;
+  budgetMin?: number;
+  budgetMax?: number;
+  status?: JobStatus;
+}
+
+export type JobSort =
+  | 'NEWEST'
+  | 'BUDGET_HIGH'
+  | 'BUDGET_LOW'
+  | 'FEWEST_APPLICATIONS'
+  | 'MOST_BOOKMARKED';
+
+export interface PaginationInput {
+  limit: number;
+  offset: number;
+}
+
+export interface JobSearchResult {
+  jobs: Job[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
 }
 
 export interface User {
@@ -34,3 +74,39 @@ export interface Application {
   coverLetter?: string;
   resume?: string;
 }
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: 'guest' | 'user' | 'admin' | 'super_admin';
+  isActive: boolean;
+}
+
+export interface Session {
+  user: SessionUser;
+  accessToken: string;
+  expiresAt: number;
+}
+
+export type SessionStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface RegisterInput extends LoginCredentials {
+  firstName: string;
+  lastName: string;
+}
+
+// Login either completes or pauses for a second factor
+export type SignInResult =
+  | { status: 'authenticated'; session: Session }
+  | { status: 'two_factor_required' };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}